@@ -78,6 +78,14 @@ export const AppNavigator: React.FC = () => {
             title: 'My Library',
           }}
         />
+        <Tab.Screen
+          name="ImportResult"
+          component={ImportResultScreen}
+          options={{
+            title: 'Import Result',
+            tabBarButton: () => null,
+          }}
+        />
       </Tab.Navigator>
     </NavigationContainer>
   );
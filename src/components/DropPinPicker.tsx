@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import Mapbox from '@rnmapbox/maps';
+import * as Location from 'expo-location';
+
+export interface DroppedPin {
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+}
+
+interface DropPinPickerProps {
+  visible: boolean;
+  initialName?: string;
+  saving?: boolean;
+  onCancel: () => void;
+  onSave: (pin: DroppedPin) => void;
+}
+
+const DEFAULT_COORDINATE: [number, number] = [-74.006, 40.7128];
+
+// Turn an expo-location reverse geocode result into a single address line
+const formatAddress = (address: Location.LocationGeocodedAddress): string | null => {
+  const street = [address.street, address.streetNumber].filter(Boolean).join(' ');
+  const city = [address.postalCode, address.city].filter(Boolean).join(' ');
+  const parts = [street || address.name, city, address.country].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+export const DropPinPicker: React.FC<DropPinPickerProps> = ({
+  visible,
+  initialName,
+  saving,
+  onCancel,
+  onSave,
+}) => {
+  const [coordinate, setCoordinate] = useState<[number, number] | null>(null);
+  const [address, setAddress] = useState<string | null>(null);
+  const [resolvingAddress, setResolvingAddress] = useState(false);
+  const [name, setName] = useState(initialName || '');
+  // Only the latest pin move may set the address; earlier lookups can
+  // resolve after it
+  const addressRequest = useRef(0);
+
+  useEffect(() => {
+    if (visible) {
+      setName(initialName || '');
+      centerOnUser();
+    }
+  }, [visible]);
+
+  const centerOnUser = async () => {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status === 'granted') {
+        const position = await Location.getLastKnownPositionAsync();
+        if (position) {
+          movePin([position.coords.longitude, position.coords.latitude]);
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Error getting location for pin:', error);
+    }
+    movePin(DEFAULT_COORDINATE);
+  };
+
+  const movePin = useCallback(async (next: [number, number]) => {
+    const request = ++addressRequest.current;
+    setCoordinate(next);
+    setResolvingAddress(true);
+    try {
+      const [result] = await Location.reverseGeocodeAsync({ latitude: next[1], longitude: next[0] });
+      if (request !== addressRequest.current) return;
+      setAddress(result ? formatAddress(result) : null);
+    } catch (error) {
+      if (request !== addressRequest.current) return;
+      console.error('Reverse geocoding failed:', error);
+      setAddress(null);
+    } finally {
+      if (request === addressRequest.current) {
+        setResolvingAddress(false);
+      }
+    }
+  }, []);
+
+  const handleMapPress = useCallback((event: any) => {
+    const { geometry } = event;
+    if (geometry && geometry.coordinates) {
+      movePin(geometry.coordinates as [number, number]);
+    }
+  }, [movePin]);
+
+  const handleSave = () => {
+    if (!coordinate || resolvingAddress) return;
+
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please provide a restaurant name');
+      return;
+    }
+
+    onSave({
+      name: name.trim(),
+      address,
+      lat: coordinate[1],
+      lng: coordinate[0],
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.container}>
+        <Mapbox.MapView
+          style={styles.map}
+          onPress={handleMapPress}
+          styleURL={Mapbox.StyleURL.Street}
+        >
+          {coordinate && (
+            <>
+              <Mapbox.Camera
+                centerCoordinate={coordinate}
+                zoomLevel={16}
+                animationMode="flyTo"
+                animationDuration={500}
+              />
+              <Mapbox.PointAnnotation
+                id="drop-pin"
+                coordinate={coordinate}
+                draggable
+                onDragEnd={(payload) => movePin(payload.geometry.coordinates as [number, number])}
+              >
+                <View style={styles.pin}>
+                  <Text style={styles.pinText}>📍</Text>
+                </View>
+              </Mapbox.PointAnnotation>
+            </>
+          )}
+        </Mapbox.MapView>
+
+        <View style={styles.hint}>
+          <Text style={styles.hintText}>Drag the pin or tap the map to move it</Text>
+        </View>
+
+        <View style={styles.panel}>
+          <Text style={styles.panelTitle}>Drop a Pin</Text>
+
+          <View style={styles.addressRow}>
+            {resolvingAddress ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : (
+              <Text style={styles.addressText}>{address || 'No address found for this spot'}</Text>
+            )}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Restaurant Name"
+            value={name}
+            onChangeText={setName}
+          />
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onCancel}
+              disabled={saving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.button, styles.saveButton, resolvingAddress && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving || !coordinate || resolvingAddress}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  pin: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pinText: {
+    fontSize: 32,
+  },
+  hint: {
+    position: 'absolute',
+    top: 50,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 15,
+    alignItems: 'center',
+  },
+  hintText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  panel: {
+    backgroundColor: '#fff',
+    padding: 20,
+    paddingBottom: 40,
+    borderTopLeftRadius: 15,
+    borderTopRightRadius: 15,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  panelTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  addressRow: {
+    minHeight: 24,
+    justifyContent: 'center',
+    marginBottom: 15,
+  },
+  addressText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 15,
+    fontSize: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 5,
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
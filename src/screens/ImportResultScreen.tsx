@@ -13,7 +13,10 @@ import {
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { supabase } from '../services/supabase';
 import { pollOCRStatus } from '../services/ocrMediaService';
-import { PlaceCandidate, ProcessMediaResult } from '../types';
+import { confirmRestaurant, getMatchExplanation, getMediaCandidates, getUserLocation, searchPlaces } from '../services/mediaService';
+import { upsertRestaurant } from '../services/restaurantService';
+import { DropPinPicker, DroppedPin } from '../components/DropPinPicker';
+import { MatchExplanation, PlaceCandidate, ProcessMediaResult } from '../types';
 
 export const ImportResultScreen: React.FC = () => {
   const route = useRoute();
@@ -28,10 +31,14 @@ export const ImportResultScreen: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<PlaceCandidate[]>([]);
   const [searching, setSearching] = useState(false);
+  const [candidates, setCandidates] = useState<PlaceCandidate[]>([]);
+  const [explanation, setExplanation] = useState<MatchExplanation | null>(null);
 
   useEffect(() => {
-    processMediaAsync();
-  }, []);
+    if (mediaId) {
+      processMediaAsync();
+    }
+  }, [mediaId]);
 
   const processMediaAsync = async () => {
     try {
@@ -43,6 +50,10 @@ export const ImportResultScreen: React.FC = () => {
       });
       
       setOcrResult(result);
+
+      // Ranked matches stored by process_media, so a pending import can be resumed later
+      setCandidates(await getMediaCandidates(mediaId));
+      setExplanation(await getMatchExplanation(mediaId));
       
     } catch (error) {
       console.error('OCR processing failed:', error);
@@ -63,27 +74,19 @@ export const ImportResultScreen: React.FC = () => {
       }
 
       // Create a new restaurant with the OCR text as name
-      const { data: restaurant, error } = await supabase
-        .from('restaurants')
-        .insert({
-          name: ocrResult?.ocr_text || 'Restaurant from OCR',
-          address: 'Address to be determined',
-          lat: 0,
-          lng: 0,
-          place_provider: 'manual',
-          created_by: user.id
-        } as any)
-        .select()
-        .single();
-        
-      if (error) {
-        throw error;
-      }
+      const restaurant = await upsertRestaurant({
+        name: ocrResult?.ocr_text || 'Restaurant from OCR',
+        address: 'Address to be determined',
+        lat: 0,
+        lng: 0,
+        placeProvider: 'manual',
+        createdBy: user.id
+      });
       
       // Update media record with restaurant
       const { error: updateError } = await (supabase as any)
         .from('media')
-        .update({ restaurant_id: (restaurant as any).id })
+        .update({ restaurant_id: restaurant.id })
         .eq('id', mediaId);
         
       if (updateError) {
@@ -101,6 +104,38 @@ export const ImportResultScreen: React.FC = () => {
     }
   };
 
+  const handleSelectCandidate = async (candidate: PlaceCandidate) => {
+    try {
+      setProcessing(true);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const restaurant = await upsertRestaurant({
+        name: candidate.name,
+        address: candidate.address,
+        lat: candidate.lat,
+        lng: candidate.lng,
+        placeProvider: candidate.provider || 'google',
+        placeId: candidate.place_id,
+        createdBy: user.id
+      });
+
+      await confirmRestaurant(mediaId, restaurant.id);
+
+      Alert.alert('Success', `${restaurant.name} added to your map!`, [
+        { text: 'OK', onPress: () => navigation.navigate('Map' as never) }
+      ]);
+    } catch (error) {
+      console.error('Failed to confirm candidate:', error);
+      Alert.alert('Error', 'Failed to save restaurant. Please try again.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const handleManualSearch = async () => {
     if (!searchQuery.trim()) {
       Alert.alert('Error', 'Please enter a search query');
@@ -110,18 +145,15 @@ export const ImportResultScreen: React.FC = () => {
     try {
       setSearching(true);
       
-      // This would integrate with Google Places API
-      // For now, show a placeholder
-      setSearchResults([
-        {
-          name: searchQuery,
-          address: 'Address not found',
-          lat: 0,
-          lng: 0,
-          place_id: 'manual_' + Date.now(),
-          score: 0.5
-        }
-      ]);
+      // Bias results towards where the user is, if we're allowed to know
+      const bias = await getUserLocation();
+
+      const results = await searchPlaces(searchQuery.trim(), bias);
+      setSearchResults(results);
+
+      if (results.length === 0) {
+        Alert.alert('No results', 'No places matched your search. Try a different name or drop a pin.');
+      }
     } catch (error) {
       console.error('Manual search failed:', error);
       Alert.alert('Error', 'Search failed. Please try again.');
@@ -130,9 +162,36 @@ export const ImportResultScreen: React.FC = () => {
     }
   };
 
-  const handleDropPin = () => {
-    // This would open a map interface for dropping a pin
-    Alert.alert('Drop Pin', 'This feature will open a map for you to drop a pin at the restaurant location.');
+  const handleDropPin = async (pin: DroppedPin) => {
+    try {
+      setProcessing(true);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const restaurant = await upsertRestaurant({
+        name: pin.name,
+        address: pin.address,
+        lat: pin.lat,
+        lng: pin.lng,
+        placeProvider: 'manual',
+        createdBy: user.id
+      });
+
+      await confirmRestaurant(mediaId, restaurant.id);
+      setShowDropPin(false);
+
+      Alert.alert('Success', `${restaurant.name} added to your map!`, [
+        { text: 'OK', onPress: () => navigation.navigate('Map' as never) }
+      ]);
+    } catch (error) {
+      console.error('Failed to save dropped pin:', error);
+      Alert.alert('Error', 'Failed to save restaurant. Please try again.');
+    } finally {
+      setProcessing(false);
+    }
   };
 
   if (loading) {
@@ -145,22 +204,106 @@ export const ImportResultScreen: React.FC = () => {
     );
   }
 
-  if (ocrResult?.status === 'done') {
-    return (
-      <View style={styles.container}>
+  const describeDecision = (explanation: MatchExplanation): string => {
+    const { decision, auto_confirm } = explanation;
+    const threshold = auto_confirm.threshold !== null ? Math.round(auto_confirm.threshold * 100) : null;
+
+    switch (decision) {
+      case 'confirmed':
+        return `The best match scored above your ${threshold}% auto-confirm threshold, so we added it for you.`;
+      case 'below_threshold':
+        return `The best match scored below your ${threshold}% auto-confirm threshold, so we're asking you to pick.`;
+      case 'low_confidence':
+        return `The name matched well, but we're only ${Math.round((explanation.confidence ?? 0) * 100)}% sure it's the right place (auto-confirm needs ${Math.round((auto_confirm.min_confidence ?? 0) * 100)}%), so we're asking you to pick.`;
+      case 'auto_confirm_off':
+        return 'Auto-confirm is off in your profile, so we always ask you to pick.';
+      case 'no_candidates':
+        return "We couldn't find anything that looks like a restaurant name in the text.";
+      case 'no_places':
+        return 'No places matched the names we found in the text.';
+      case 'address_only':
+        return "We found the address in the video but no restaurant listed there, so we dropped a pin at the address for you to confirm.";
+    }
+  };
+
+  const hasResult = ocrResult?.status === 'done' || ocrResult?.status === 'needs_confirmation';
+
+  return (
+    <View style={styles.container}>
+      {hasResult ? (
         <ScrollView style={styles.content}>
           <Text style={styles.title}>OCR Results</Text>
           <Text style={styles.subtitle}>
-            We extracted text from your media. You can create a restaurant entry or search manually.
+            {candidates.length > 0
+              ? 'We found some possible matches. Tap the right one to add it to your map.'
+              : 'We extracted text from your media. You can create a restaurant entry or search manually.'}
           </Text>
 
-          {ocrResult.ocr_text && (
+          {ocrResult?.ocr_text && (
             <View style={styles.ocrContainer}>
               <Text style={styles.ocrTitle}>Text we found:</Text>
               <Text style={styles.ocrText}>{ocrResult.ocr_text}</Text>
             </View>
           )}
 
+          {candidates.length > 0 && (
+            <View style={styles.candidatesContainer}>
+              <Text style={styles.candidatesTitle}>Is it one of these?</Text>
+              {candidates.map((candidate) => (
+                <TouchableOpacity
+                  key={`${candidate.provider}-${candidate.place_id ?? candidate.address}`}
+                  style={styles.candidateItem}
+                  onPress={() => handleSelectCandidate(candidate)}
+                  disabled={processing}
+                >
+                  <View style={styles.candidateContent}>
+                    <Text style={styles.candidateName}>{candidate.name}</Text>
+                    <Text style={styles.candidateAddress}>{candidate.address}</Text>
+                    <Text style={styles.candidateScore}>
+                      {Math.round(candidate.score * 100)}% match
+                    </Text>
+                  </View>
+                  <Text style={styles.candidateArrow}>›</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {explanation && (
+            <View style={styles.explanationContainer}>
+              <Text style={styles.ocrTitle}>Why these results?</Text>
+              <Text style={styles.explanationText}>{describeDecision(explanation)}</Text>
+              {explanation.matched_address && (
+                <Text style={styles.explanationText}>
+                  Located by the address in the video: {explanation.matched_address.replace(/\s*\n\s*/g, ', ')}
+                </Text>
+              )}
+              {explanation.best_match && (
+                <>
+                  <Text style={styles.explanationText}>
+                    &quot;{explanation.best_match.matched_text}&quot; matched {explanation.best_match.name} (
+                    {Math.round(explanation.best_match.score * 100)}% overall)
+                  </Text>
+                  <Text style={styles.explanationDetail}>
+                    Name similarity {Math.round(explanation.best_match.similarity.token_set * 100)}% word match,{' '}
+                    {Math.round(explanation.best_match.similarity.jaro_winkler * 100)}% spelling: +
+                    {Math.round(explanation.best_match.similarity.contribution * 100)} points
+                  </Text>
+                  {explanation.best_match.bonuses.map((bonus) => (
+                    <Text key={bonus.kind} style={styles.explanationDetail}>
+                      {bonus.detail}: +{Math.round(bonus.contribution * 100)} points
+                    </Text>
+                  ))}
+                </>
+              )}
+              <Text style={styles.explanationDetail}>
+                Auto-confirm: {explanation.auto_confirm.mode}
+                {explanation.auto_confirm.threshold !== null &&
+                  ` (${Math.round(explanation.auto_confirm.threshold * 100)}%)`}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.actionButtons}>
             <TouchableOpacity
               style={styles.actionButton}
@@ -189,18 +332,14 @@ export const ImportResultScreen: React.FC = () => {
             </TouchableOpacity>
           </View>
         </ScrollView>
-      </View>
-    );
-  }
-
-  return (
-    <View style={styles.container}>
-      <ScrollView style={styles.content}>
-        <Text style={styles.title}>Processing...</Text>
-        <Text style={styles.subtitle}>
-          We're analyzing your media. This may take a few moments.
-        </Text>
-      </ScrollView>
+      ) : (
+        <ScrollView style={styles.content}>
+          <Text style={styles.title}>Processing...</Text>
+          <Text style={styles.subtitle}>
+            We're analyzing your media. This may take a few moments.
+          </Text>
+        </ScrollView>
+      )}
 
       {/* Manual Search Modal */}
       <Modal
@@ -235,11 +374,15 @@ export const ImportResultScreen: React.FC = () => {
 
             {searchResults.length > 0 && (
               <ScrollView style={styles.searchResults}>
-                {searchResults.map((result, index) => (
+                {searchResults.map((result) => (
                   <TouchableOpacity
-                    key={index}
+                    key={`${result.provider}-${result.place_id}`}
                     style={styles.searchResultItem}
-                    onPress={() => handleCreateRestaurant()}
+                    onPress={() => {
+                      setShowManualSearch(false);
+                      handleSelectCandidate(result);
+                    }}
+                    disabled={processing}
                   >
                     <Text style={styles.searchResultName}>{result.name}</Text>
                     <Text style={styles.searchResultAddress}>{result.address}</Text>
@@ -258,36 +401,14 @@ export const ImportResultScreen: React.FC = () => {
         </View>
       </Modal>
 
-      {/* Drop Pin Modal */}
-      <Modal
+      {/* Drop Pin Picker */}
+      <DropPinPicker
         visible={showDropPin}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setShowDropPin(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Drop a Pin</Text>
-            <Text style={styles.dropPinText}>
-              This feature will open a map where you can drop a pin at the exact restaurant location.
-            </Text>
-            
-            <TouchableOpacity
-              style={styles.dropPinButton}
-              onPress={handleDropPin}
-            >
-              <Text style={styles.dropPinButtonText}>Open Map</Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              style={styles.cancelButton}
-              onPress={() => setShowDropPin(false)}
-            >
-              <Text style={styles.cancelButtonText}>Cancel</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-      </Modal>
+        initialName={ocrResult?.ocr_text?.split('\n')[0]}
+        saving={processing}
+        onCancel={() => setShowDropPin(false)}
+        onSave={handleDropPin}
+      />
     </View>
   );
 };
@@ -380,6 +501,22 @@ const styles = StyleSheet.create({
     color: '#666',
     fontStyle: 'italic',
   },
+  explanationContainer: {
+    backgroundColor: '#fff',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  explanationText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 6,
+  },
+  explanationDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
   candidatesContainer: {
     marginBottom: 20,
   },
@@ -509,24 +646,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
-  dropPinText: {
-    fontSize: 16,
-    color: '#666',
-    textAlign: 'center',
-    marginBottom: 20,
-  },
-  dropPinButton: {
-    backgroundColor: '#007AFF',
-    padding: 15,
-    borderRadius: 8,
-    alignItems: 'center',
-    marginBottom: 15,
-  },
-  dropPinButtonText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: '600',
-  },
   cancelButton: {
     padding: 15,
     alignItems: 'center',
@@ -14,6 +14,7 @@ import { useFocusEffect } from '@react-navigation/native';
 import Mapbox from '@rnmapbox/maps';
 import { useAuth } from '../hooks/useAuth';
 import { supabase } from '../services/supabase';
+import { upsertRestaurant } from '../services/restaurantService';
 import { Restaurant, Media, MapPin } from '../types';
 import * as Location from 'expo-location';
 
@@ -207,34 +208,33 @@ export const MapScreen: React.FC = () => {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('restaurants')
-        .insert({
-          name: newRestaurantName.trim(),
-          address: newRestaurantAddress.trim() || 'Address not provided',
-          lat: selectedCoordinate[1],
-          lng: selectedCoordinate[0],
-          created_by: user.id,
-        } as any)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const restaurant = await upsertRestaurant({
+        name: newRestaurantName.trim(),
+        address: newRestaurantAddress.trim() || 'Address not provided',
+        lat: selectedCoordinate[1],
+        lng: selectedCoordinate[0],
+        placeProvider: 'manual',
+        createdBy: user.id,
+      });
 
+      const existingPin = pins.find(pin => pin.id === restaurant.id);
       const newPin: MapPin = {
-        id: (data as any).id,
-        coordinate: selectedCoordinate,
-        restaurant: data as any,
-        media: [],
+        id: restaurant.id,
+        coordinate: [restaurant.lng, restaurant.lat],
+        restaurant,
+        media: existingPin?.media || [],
       };
 
-      setPins([...pins, newPin]);
+      setPins([...pins.filter(pin => pin.id !== restaurant.id), newPin]);
       setShowAddRestaurant(false);
       setNewRestaurantName('');
       setNewRestaurantAddress('');
       setSelectedCoordinate(null);
       
-      Alert.alert('Success', 'Restaurant added successfully!');
+      Alert.alert(
+        'Success',
+        existingPin ? `${restaurant.name} is already on your map.` : 'Restaurant added successfully!'
+      );
     } catch (error) {
       console.error('Error adding restaurant:', error);
       Alert.alert('Error', 'Failed to add restaurant');
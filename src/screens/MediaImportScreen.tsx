@@ -17,6 +17,25 @@ export const MediaImportScreen: React.FC = () => {
   const { user } = useAuth();
   const [uploading, setUploading] = useState(false);
 
+  const openImportResult = (uploadResult: { media_id: string; duplicate?: boolean }) => {
+    const showResult = () => {
+      (navigation as any).navigate('ImportResult', {
+        mediaId: uploadResult.media_id,
+      });
+    };
+
+    if (!uploadResult.duplicate) {
+      showResult();
+      return;
+    }
+
+    // Same file as an earlier import: nothing was uploaded or sent to OCR
+    Alert.alert('Already imported', 'You have already imported this file. Open the earlier result?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'View Result', onPress: showResult },
+    ]);
+  };
+
   const handleImagePicker = async () => {
     if (!user) {
       Alert.alert('Error', 'Please sign in to upload media');
@@ -49,12 +68,11 @@ export const MediaImportScreen: React.FC = () => {
           type: isVideo ? 'video' : 'photo',
           sourceApp: 'gallery',
           userId: user.id,
+          durationMs: asset.duration,
         });
 
         // Navigate to result screen with media ID
-        (navigation as any).navigate('ImportResult', {
-          mediaId: uploadResult.media_id,
-        });
+        openImportResult(uploadResult);
       }
     } catch (error) {
       console.error('Media upload failed:', error);
@@ -97,9 +115,7 @@ export const MediaImportScreen: React.FC = () => {
         });
 
         // Navigate to result screen with media ID
-        (navigation as any).navigate('ImportResult', {
-          mediaId: uploadResult.media_id,
-        });
+        openImportResult(uploadResult);
       }
     } catch (error) {
       console.error('Camera capture failed:', error);
@@ -9,29 +9,56 @@ import {
   Alert,
   RefreshControl,
 } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../hooks/useAuth';
 import { supabase } from '../services/supabase';
-import { Media, Restaurant } from '../types';
+import { DEFAULT_AUTO_CONFIRM_MODE, getAutoConfirmMode, setAutoConfirmMode } from '../services/settingsService';
+import { AutoConfirmMode, Media, Restaurant } from '../types';
 import * as ImagePicker from 'expo-image-picker';
 
 interface MediaItem {
   id: string;
   media: Media;
-  restaurant: Restaurant;
+  restaurant: Restaurant | null;
 }
 
+const AUTO_CONFIRM_OPTIONS: Array<{ mode: AutoConfirmMode; label: string }> = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'conservative', label: 'Conservative' },
+  { mode: 'aggressive', label: 'Aggressive' },
+];
+
 export const ProfileScreen: React.FC = () => {
   const { user, signOut } = useAuth();
+  const navigation = useNavigation();
   const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [autoConfirm, setAutoConfirm] = useState<AutoConfirmMode>(DEFAULT_AUTO_CONFIRM_MODE);
 
   useEffect(() => {
     if (user) {
       loadMediaItems();
+      getAutoConfirmMode(user.id)
+        .then(setAutoConfirm)
+        .catch((error) => console.error('Error loading settings:', error));
     }
   }, [user]);
 
+  const handleAutoConfirmChange = async (mode: AutoConfirmMode) => {
+    if (!user) return;
+
+    const previous = autoConfirm;
+    setAutoConfirm(mode);
+    try {
+      await setAutoConfirmMode(user.id, mode);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      setAutoConfirm(previous);
+      Alert.alert('Error', 'Failed to save your auto-confirm setting');
+    }
+  };
+
   const loadMediaItems = async () => {
     if (!user) return;
 
@@ -181,7 +208,14 @@ export const ProfileScreen: React.FC = () => {
   };
 
   const renderMediaItem = ({ item }: { item: MediaItem }) => (
-    <TouchableOpacity style={styles.mediaItem}>
+    <TouchableOpacity
+      style={styles.mediaItem}
+      disabled={item.media.status !== 'needs_confirmation'}
+      onPress={() => {
+        // Resume an import that is still waiting for the user to pick a place
+        (navigation as any).navigate('ImportResult', { mediaId: item.media.id });
+      }}
+    >
       <View style={styles.mediaPreview}>
         {item.media.file_type === 'image' ? (
           <Image
@@ -196,7 +230,9 @@ export const ProfileScreen: React.FC = () => {
         )}
       </View>
       <View style={styles.mediaInfo}>
-        <Text style={styles.restaurantName}>{item.restaurant.name}</Text>
+        <Text style={styles.restaurantName}>
+          {item.restaurant?.name ?? 'Tap to pick the restaurant'}
+        </Text>
         <Text style={styles.mediaDate}>
           {new Date(item.media.created_at).toLocaleDateString()}
         </Text>
@@ -234,6 +270,23 @@ export const ProfileScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.settingsContainer}>
+        <Text style={styles.settingsLabel}>Auto-confirm matches</Text>
+        <View style={styles.segmentedControl}>
+          {AUTO_CONFIRM_OPTIONS.map(({ mode, label }) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.segment, autoConfirm === mode && styles.segmentSelected]}
+              onPress={() => handleAutoConfirmChange(mode)}
+            >
+              <Text style={[styles.segmentText, autoConfirm === mode && styles.segmentTextSelected]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
       <FlatList
         data={mediaItems}
         renderItem={renderMediaItem}
@@ -315,6 +368,40 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  settingsContainer: {
+    marginHorizontal: 20,
+    marginBottom: 10,
+  },
+  settingsLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  segmentTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   listContainer: {
     padding: 20,
   },
@@ -15,8 +15,8 @@ import { useAuth } from '../hooks/useAuth';
 import { supabase } from '../services/supabase';
 import { VideoMetadata } from '../types';
 import { metadataService } from '../services/urlMetadataService';
-import { videoAnalysisService } from '../services/videoAnalysisService';
 import { uploadMediaWithOCR } from '../services/ocrMediaService';
+import { importFromUrl } from '../services/mediaService';
 
 export const URLImportScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -76,32 +76,6 @@ export const URLImportScreen: React.FC = () => {
     }
   };
 
-  const handleTestOCR = async () => {
-    if (!url.trim()) {
-      Alert.alert('Error', 'Please enter a valid URL');
-      return;
-    }
-
-    try {
-      new URL(url);
-    } catch {
-      Alert.alert('Error', 'Please enter a valid URL');
-      return;
-    }
-
-    setLoading(true);
-    try {
-      // Test OCR extraction
-      await videoAnalysisService.testOCRExtraction(url);
-      Alert.alert('Debug', 'Check console for OCR test results');
-    } catch (error) {
-      console.error('Error testing OCR:', error);
-      Alert.alert('Error', 'Failed to test OCR extraction');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleImagePicker = async () => {
     if (!user) {
       Alert.alert('Error', 'Please sign in to upload media');
@@ -134,8 +108,19 @@ export const URLImportScreen: React.FC = () => {
           type: isVideo ? 'video' : 'photo',
           sourceApp: 'gallery',
           userId: user.id,
+          durationMs: asset.duration,
         });
 
+        if (uploadResult.duplicate) {
+          Alert.alert('Already imported', 'You have already imported this file. Open the earlier result?', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'View Result', onPress: () => {
+              (navigation as any).navigate('ImportResult', { mediaId: uploadResult.media_id });
+            }}
+          ]);
+          return;
+        }
+
         Alert.alert('Success', 'Media uploaded! OCR processing started. Check the media in your profile.', [
           { text: 'OK', onPress: () => {
             // Navigate to profile to see the media
@@ -156,77 +141,22 @@ export const URLImportScreen: React.FC = () => {
 
     setLoading(true);
     try {
-      console.log('User ID:', user.id);
-      console.log('User object:', user);
-      
-      // Analyze video for restaurant information
-      console.log('Starting video analysis...');
-      const analysisResult = await videoAnalysisService.analyzeVideo(extractedMetadata.url);
-      console.log('Video analysis result:', analysisResult);
-      
-      // Create restaurant with analyzed information
-      const restaurantData = {
-        name: analysisResult.restaurantName || `Restaurant from ${extractedMetadata.platform}`,
-        address: analysisResult.location || 'Location to be determined from video analysis',
-        latitude: analysisResult.coordinates?.latitude || 0,
-        longitude: analysisResult.coordinates?.longitude || 0,
-        description: `Restaurant discovered from ${extractedMetadata.platform} video${analysisResult.extractedText.length > 0 ? ` - Extracted text: ${analysisResult.extractedText.join(', ')}` : ''}`,
-        tags: [extractedMetadata.platform, 'video-import', ...(analysisResult.confidence > 0.5 ? ['ai-analyzed'] : [])],
-        user_id: user.id,
-      };
-
-      const { data: restaurant, error: restaurantError } = await supabase
-        .from('restaurants')
-        .insert(restaurantData as any)
-        .select()
-        .single();
-
-      if (restaurantError) {
-        console.error('Restaurant insert error:', restaurantError);
-        throw restaurantError;
-      }
-
-      console.log('Restaurant created:', restaurant);
-
-      // Save the video as media
-      const { error: mediaError } = await supabase
-        .from('media')
-        .insert({
-          restaurant_id: (restaurant as any).id,
-          user_id: user.id,
-          file_url: extractedMetadata.url,
-          file_type: 'video',
-          file_name: `${extractedMetadata.platform}-video`,
-          file_size: 0,
-          metadata: {
-            source: extractedMetadata.platform,
-            originalUrl: extractedMetadata.url,
-            title: extractedMetadata.title,
-            description: extractedMetadata.description,
-            thumbnail: extractedMetadata.thumbnail,
-            timestamp: new Date().toISOString(),
-            analysisResult,
-          },
-        } as any);
-
-      if (mediaError) {
-        console.error('Media insert error:', mediaError);
-        throw mediaError;
+      // import_url creates the media row and finds the place server-side
+      const result = await importFromUrl(extractedMetadata.sharedUrl ?? extractedMetadata.url);
+
+      if (result.duplicate) {
+        Alert.alert('Already imported', 'You have already imported this video. Open the earlier result?', [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'View Result', onPress: () => {
+            (navigation as any).navigate('ImportResult', { mediaId: result.media_id });
+          }}
+        ]);
+        return;
       }
 
-      const successMessage = analysisResult.confidence > 0.5 
-        ? `Video imported successfully! Found: ${restaurantData.name} at ${restaurantData.address}`
-        : 'Video imported successfully! Location analysis completed with limited confidence.';
-      
-      Alert.alert('Success!', successMessage, [
-        {
-          text: 'OK',
-          onPress: () => {
-            setUrl('');
-            setExtractedMetadata(null);
-          }
-        }
-      ]);
+      setUrl('');
+      setExtractedMetadata(null);
+      (navigation as any).navigate('ImportResult', { mediaId: result.media_id });
     } catch (error: any) {
       console.error('Error saving video:', error);
       Alert.alert('Error', `Failed to save video: ${error.message || 'Unknown error'}`);
@@ -265,14 +195,6 @@ export const URLImportScreen: React.FC = () => {
               <Text style={styles.extractButtonText}>Extract Video Info</Text>
             )}
           </TouchableOpacity>
-
-          <TouchableOpacity
-            style={[styles.debugButton, loading && styles.buttonDisabled]}
-            onPress={handleTestOCR}
-            disabled={loading}
-          >
-            <Text style={styles.debugButtonText}>Test OCR (Debug)</Text>
-          </TouchableOpacity>
         </View>
 
         {extractedMetadata && (
@@ -296,6 +218,31 @@ export const URLImportScreen: React.FC = () => {
               <Text style={styles.metadataValue}>{extractedMetadata.description}</Text>
             </View>
 
+            {extractedMetadata.locationTag && (
+              <View style={styles.metadataItem}>
+                <Text style={styles.metadataLabel}>Location:</Text>
+                <Text style={styles.metadataValue}>📍 {extractedMetadata.locationTag}</Text>
+              </View>
+            )}
+
+            {(extractedMetadata.mentions?.length ?? 0) > 0 && (
+              <View style={styles.metadataItem}>
+                <Text style={styles.metadataLabel}>Mentions:</Text>
+                <Text style={styles.metadataValue}>
+                  {extractedMetadata.mentions!.map(mention => `@${mention}`).join(' ')}
+                </Text>
+              </View>
+            )}
+
+            {(extractedMetadata.hashtags?.length ?? 0) > 0 && (
+              <View style={styles.metadataItem}>
+                <Text style={styles.metadataLabel}>Hashtags:</Text>
+                <Text style={styles.metadataValue}>
+                  {extractedMetadata.hashtags!.map(hashtag => `#${hashtag}`).join(' ')}
+                </Text>
+              </View>
+            )}
+
             <TouchableOpacity
               style={styles.saveButton}
               onPress={handleSaveVideo}
@@ -380,18 +327,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
-  debugButton: {
-    backgroundColor: '#FF9500',
-    borderRadius: 8,
-    padding: 15,
-    alignItems: 'center',
-    marginTop: 8,
-  },
-  debugButtonText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: '600',
-  },
   metadataContainer: {
     backgroundColor: '#fff',
     borderRadius: 8,
@@ -0,0 +1,18 @@
+import { getInfoAsync } from 'expo-file-system/legacy';
+
+/**
+ * Content fingerprint of a local file (MD5 of its bytes), used to spot
+ * re-imports of the same gallery video or photo. Links use their canonical
+ * URL as the fingerprint instead. The hash is computed natively off the JS
+ * thread, so hashing a long video doesn't freeze the UI. Null when the file
+ * can't be read.
+ */
+export async function getFileFingerprint(uri: string): Promise<string | null> {
+  try {
+    const info = await getInfoAsync(uri, { md5: true });
+    return info.exists && info.md5 ? `md5:${info.md5}` : null;
+  } catch (error) {
+    console.warn('Could not hash file for fingerprint:', error);
+    return null;
+  }
+}
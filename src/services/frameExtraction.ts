@@ -0,0 +1,220 @@
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { decode as decodeJpeg } from 'jpeg-js';
+
+export interface FrameExtractionResult {
+  time: number;
+  uri: string;
+  hash?: string;
+}
+
+export interface FrameExtractionOptions {
+  // Skip frames that look the same as the previous kept frame
+  dedupe?: boolean;
+}
+
+const DEFAULT_DURATION_MS = 10000;
+const FRAME_INTERVAL_MS = 1500; // one frame per ~1.5s of video
+const MIN_FRAMES = 3;
+const MAX_FRAMES = 12; // process-ocr accepts up to 20
+const START_OFFSET_MS = 250; // the very first frame is often black
+const END_OFFSET_MS = 500;
+const DUPLICATE_HASH_DISTANCE = 5; // out of 64 bits
+
+/**
+ * Read the duration of an MP4/MOV file from its moov/mvhd box
+ */
+export function readVideoDurationMs(videoUri: string): number | null {
+  let handle;
+  try {
+    handle = new File(videoUri).open();
+  } catch (error) {
+    console.error('Failed to open video for duration:', error);
+    return null;
+  }
+
+  try {
+    const fileSize = handle.size ?? 0;
+    const moov = findBox(handle, 'moov', 0, fileSize);
+    if (!moov) return null;
+
+    const mvhd = findBox(handle, 'mvhd', moov.start, moov.end);
+    if (!mvhd) return null;
+
+    handle.offset = mvhd.start;
+    const header = new DataView(handle.readBytes(32).buffer);
+    const version = header.getUint8(0);
+
+    // v0: creation(4) modification(4) timescale(4) duration(4)
+    // v1: creation(8) modification(8) timescale(4) duration(8)
+    const timescale = header.getUint32(version === 1 ? 20 : 12);
+    const duration = version === 1
+      ? header.getUint32(24) * 2 ** 32 + header.getUint32(28)
+      : header.getUint32(16);
+
+    if (!timescale || !duration) return null;
+    return Math.round((duration / timescale) * 1000);
+  } catch (error) {
+    console.error('Failed to read video duration:', error);
+    return null;
+  } finally {
+    handle.close();
+  }
+}
+
+// Walk the boxes between start and end and return the payload range of the first
+// box of the given type
+function findBox(
+  handle: ReturnType<File['open']>,
+  type: string,
+  start: number,
+  end: number
+): { start: number; end: number } | null {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    handle.offset = offset;
+    const header = new DataView(handle.readBytes(16).buffer);
+    const boxType = String.fromCharCode(
+      header.getUint8(4), header.getUint8(5), header.getUint8(6), header.getUint8(7)
+    );
+
+    let size = header.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      // 64-bit largesize follows the type
+      size = header.getUint32(8) * 2 ** 32 + header.getUint32(12);
+      headerSize = 16;
+    } else if (size === 0) {
+      // Box runs to the end of the file
+      size = end - offset;
+    }
+
+    if (size < headerSize) return null;
+
+    if (boxType === type) {
+      return { start: offset + headerSize, end: offset + size };
+    }
+    offset += size;
+  }
+
+  return null;
+}
+
+/**
+ * Evenly spaced frame times for a clip, denser for longer videos
+ */
+export function getFrameTimes(durationMs: number): number[] {
+  const start = Math.min(START_OFFSET_MS, durationMs / 2);
+  const end = Math.max(start, durationMs - END_OFFSET_MS);
+  const count = Math.min(
+    MAX_FRAMES,
+    Math.max(MIN_FRAMES, Math.round(durationMs / FRAME_INTERVAL_MS))
+  );
+
+  if (end === start) return [Math.floor(start)];
+
+  const step = (end - start) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.floor(start + i * step));
+}
+
+/**
+ * 64-bit difference hash of an image, as a hex string
+ */
+export async function getImageHash(imageUri: string): Promise<string> {
+  // 9x8 grayscale gives 8 horizontal gradients per row
+  const image = await ImageManipulator.manipulate(imageUri)
+    .resize({ width: 9, height: 8 })
+    .renderAsync();
+  const { base64 } = await image.saveAsync({ format: SaveFormat.JPEG, base64: true });
+  if (!base64) {
+    throw new Error('Image manipulator returned no data');
+  }
+
+  const { data, width } = decodeJpeg(base64ToBytes(base64), { useTArray: true });
+  const luminance = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let row = 0;
+    for (let x = 0; x < 8; x++) {
+      row = (row << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+    }
+    hash += row.toString(16).padStart(2, '0');
+  }
+
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes from getImageHash
+ */
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.substr(i, 2), 16) ^ parseInt(b.substr(i, 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Extract frames from a video for OCR processing.
+ * Uses the given duration (e.g. from ImagePicker), else reads it from the file.
+ */
+export async function extractFrames(
+  videoUri: string,
+  durationMs?: number | null,
+  options: FrameExtractionOptions = {}
+): Promise<FrameExtractionResult[]> {
+  let duration = durationMs || readVideoDurationMs(videoUri);
+  if (!duration) {
+    console.warn(`Could not determine video duration, assuming ${DEFAULT_DURATION_MS}ms`);
+    duration = DEFAULT_DURATION_MS;
+  }
+
+  const frames: FrameExtractionResult[] = [];
+  let lastHash: string | null = null;
+
+  for (const time of getFrameTimes(duration)) {
+    try {
+      const { uri: frameUri } = await VideoThumbnails.getThumbnailAsync(videoUri, { time });
+
+      if (!options.dedupe) {
+        frames.push({ time, uri: frameUri });
+        continue;
+      }
+
+      // A frame we can't hash is kept rather than dropped
+      const hash = await getImageHash(frameUri).catch(error => {
+        console.error(`Failed to hash frame at ${time}ms:`, error);
+        return undefined;
+      });
+      if (hash && lastHash && hashDistance(hash, lastHash) <= DUPLICATE_HASH_DISTANCE) {
+        continue;
+      }
+      lastHash = hash ?? lastHash;
+      frames.push({ time, uri: frameUri, hash });
+    } catch (error) {
+      console.error(`Failed to extract frame at ${time}ms:`, error);
+    }
+  }
+
+  return frames;
+}
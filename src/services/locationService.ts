@@ -0,0 +1,91 @@
+import * as Location from 'expo-location';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface UserLocation {
+  country?: string;
+  city?: string;
+  lat?: number;
+  lng?: number;
+}
+
+interface CachedUserLocation extends UserLocation {
+  timestamp: number;
+}
+
+const LAST_LOCATION_KEY = 'mapbites:last-user-location';
+const POSITION_MAX_AGE_MS = 10 * 60 * 1000; // reuse a fix up to 10 minutes old
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // a week-old city is still a useful bias
+
+/**
+ * Read the last location we resolved, if it isn't too old
+ */
+async function readCachedLocation(): Promise<UserLocation | null> {
+  try {
+    const raw = await AsyncStorage.getItem(LAST_LOCATION_KEY);
+    if (!raw) return null;
+
+    const { timestamp, ...location }: CachedUserLocation = JSON.parse(raw);
+    if (Date.now() - timestamp > CACHE_MAX_AGE_MS) return null;
+
+    return location;
+  } catch (error) {
+    console.error('Failed to read cached location:', error);
+    return null;
+  }
+}
+
+async function writeCachedLocation(location: UserLocation): Promise<void> {
+  try {
+    const cached: CachedUserLocation = { ...location, timestamp: Date.now() };
+    await AsyncStorage.setItem(LAST_LOCATION_KEY, JSON.stringify(cached));
+  } catch (error) {
+    console.error('Failed to cache location:', error);
+  }
+}
+
+/**
+ * Get user's location for bias parameters.
+ * Uses the device position reverse geocoded to country (ISO code) and city.
+ * Falls back to the last location cached in AsyncStorage when the position
+ * or geocode can't be resolved. Returns {} when permission is denied.
+ */
+export async function getUserLocation(): Promise<UserLocation> {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      // Don't fall back to a cached location the user has since revoked access to
+      await AsyncStorage.removeItem(LAST_LOCATION_KEY);
+      return {};
+    }
+  } catch (error) {
+    console.error('Failed to get location permission:', error);
+    return {};
+  }
+
+  try {
+    const position =
+      (await Location.getLastKnownPositionAsync({ maxAge: POSITION_MAX_AGE_MS })) ??
+      (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+
+    const location: UserLocation = {
+      lat: position.coords.latitude,
+      lng: position.coords.longitude,
+    };
+
+    const [address] = await Location.reverseGeocodeAsync({
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    });
+
+    if (address) {
+      location.country = address.isoCountryCode ?? address.country ?? undefined;
+      location.city = address.city ?? address.subregion ?? undefined;
+    }
+
+    await writeCachedLocation(location);
+    return location;
+  } catch (error) {
+    console.error('Failed to get user location:', error);
+    return (await readCachedLocation()) ?? {};
+  }
+}
@@ -1,49 +1,19 @@
-import * as VideoThumbnails from 'expo-video-thumbnails';
 import * as ImagePicker from 'expo-image-picker';
 import { supabase } from './supabase';
-import { MediaUploadResult, ProcessMediaResult } from '../types';
+import { extractFrames } from './frameExtraction';
+import { getFileFingerprint } from './fingerprint';
+import { getUserLocation, UserLocation } from './locationService';
+import { MatchExplanation, MediaUploadResult, PlaceCandidate, ProcessMediaResult } from '../types';
+import { CaptionSignals } from '../../supabase/functions/_shared/socialMetadata';
 
 export interface MediaUploadOptions {
   type: 'video' | 'photo';
   sourceApp?: 'tiktok' | 'instagram' | 'gallery';
   userId: string;
-}
-
-export interface FrameExtractionResult {
-  time: number;
-  uri: string;
-}
-
-/**
- * Extract frames from a video for OCR processing
- */
-export async function extractFrames(
-  videoUri: string, 
-  durationMs: number
-): Promise<FrameExtractionResult[]> {
-  const times = [0, durationMs / 2, Math.max(0, durationMs - 500)];
-  
-  // Add 2 random frames if duration > 3s
-  if (durationMs > 3000) {
-    times.push(Math.random() * durationMs);
-    times.push(Math.random() * durationMs);
-  }
-
-  const frames: FrameExtractionResult[] = [];
-  
-  for (const time of times) {
-    try {
-      const { uri: frameUri } = await VideoThumbnails.getThumbnailAsync(
-        videoUri, 
-        { time: Math.floor(time) }
-      );
-      frames.push({ time, uri: frameUri });
-    } catch (error) {
-      console.error(`Failed to extract frame at ${time}ms:`, error);
-    }
-  }
-  
-  return frames;
+  // Video duration if known (ImagePicker assets carry it), else read from the file
+  durationMs?: number | null;
+  // Drop near-identical video frames before uploading them
+  dedupeFrames?: boolean;
 }
 
 /**
@@ -76,13 +46,27 @@ export async function uploadFile(
 }
 
 /**
- * Upload media file and create media record
+ * Upload media file and create media record. A file the user has already
+ * imported isn't uploaded again: the earlier media is returned with duplicate set.
  */
 export async function uploadMedia(
   fileUri: string,
   options: MediaUploadOptions
 ): Promise<MediaUploadResult> {
-  const { type, sourceApp, userId } = options;
+  const { type, sourceApp, userId, durationMs, dedupeFrames = true } = options;
+
+  const fingerprint = await getFileFingerprint(fileUri);
+  if (fingerprint) {
+    const existing = await findImportByFingerprint(userId, fingerprint);
+    if (existing) {
+      return {
+        media_id: existing.id,
+        frame_urls: [],
+        status: existing.status as MediaUploadResult['status'],
+        duplicate: true
+      };
+    }
+  }
   
   // Generate unique filename
   const fileExtension = type === 'video' ? 'mp4' : 'jpg';
@@ -100,47 +84,63 @@ export async function uploadMedia(
       storage_path: storagePath,
       source_app: sourceApp,
       type,
-      status: 'uploaded'
+      status: 'uploaded',
+      content_fingerprint: fingerprint
     })
     .select()
     .single();
     
   if (mediaError) {
+    // The same file imported twice at once: the other upload's row won the
+    // unique index on the fingerprint, so this upload isn't needed
+    const winner = mediaError.code === '23505' && fingerprint
+      ? await findImportByFingerprint(userId, fingerprint)
+      : null;
+    if (winner) {
+      await supabase.storage.from('media').remove([storagePath]);
+      return {
+        media_id: winner.id,
+        frame_urls: [],
+        status: winner.status as MediaUploadResult['status'],
+        duplicate: true
+      };
+    }
     throw new Error(`Failed to create media record: ${mediaError.message}`);
   }
   
   let frameUrls: string[] = [];
   
-  if (type === 'video') {
-    // For videos, we need to get duration first
-    // This is a simplified approach - in production you might want to use a proper video metadata library
-    const durationMs = 10000; // Default 10 seconds, should be replaced with actual duration
-    
-    // Extract frames
-    const frames = await extractFrames(fileUri, durationMs);
+  try {
+    if (type === 'video') {
+      // Extract frames
+      const frames = await extractFrames(fileUri, durationMs, { dedupe: dedupeFrames });
     
-    // Upload frames
-    const framePaths: string[] = [];
-    for (let i = 0; i < frames.length; i++) {
-      const framePath = `ocr-frames/${userId}/${media.id}/frame_${i}.jpg`;
-      const frameUrl = await uploadFile('media', framePath, frames[i].uri);
-      framePaths.push(framePath);
-      frameUrls.push(frameUrl);
-    }
+      // Upload frames
+      const framePaths: string[] = [];
+      for (let i = 0; i < frames.length; i++) {
+        const framePath = `ocr-frames/${userId}/${media.id}/frame_${i}.jpg`;
+        const frameUrl = await uploadFile('media', framePath, frames[i].uri);
+        framePaths.push(framePath);
+        frameUrls.push(frameUrl);
+      }
     
-    // Update media record with frame paths
-    await supabase
-      .from('media')
-      .update({ ocr_frame_paths: framePaths })
-      .eq('id', media.id);
-  } else {
-    // For photos, use the photo itself as the frame
-    frameUrls = [fileUrl];
+      // Update media record with frame paths
+      await supabase
+        .from('media')
+        .update({ ocr_frame_paths: framePaths })
+        .eq('id', media.id);
+    } else {
+      // For photos, use the photo itself as the frame
+      frameUrls = [fileUrl];
     
-    await supabase
-      .from('media')
-      .update({ ocr_frame_paths: [storagePath] })
-      .eq('id', media.id);
+      await supabase
+        .from('media')
+        .update({ ocr_frame_paths: [storagePath] })
+        .eq('id', media.id);
+    }
+  } catch (error) {
+    await markImportFailed(media.id);
+    throw error;
   }
   
   return {
@@ -151,20 +151,29 @@ export async function uploadMedia(
 }
 
 /**
- * Process media through the Edge Function
+ * Process media through the Edge Function.
+ * Without an explicit country/city, the user's location is used as search bias.
  */
 export async function processMedia(
   mediaId: string,
   frameUrls: string[],
   country?: string,
-  city?: string
+  city?: string,
+  provider?: 'google' | 'mapbox' | 'nominatim',
+  caption?: CaptionSignals
 ): Promise<ProcessMediaResult> {
+  const location: UserLocation = country || city ? { country, city } : await getUserLocation();
+
   const { data, error } = await supabase.functions.invoke('process_media', {
     body: {
       media_id: mediaId,
       frame_urls: frameUrls,
-      country,
-      city
+      country: location.country,
+      city: location.city,
+      lat: location.lat,
+      lng: location.lng,
+      provider,
+      caption
     }
   });
   
@@ -175,6 +184,78 @@ export async function processMedia(
   return data;
 }
 
+/**
+ * Search places by free text through the search_places Edge Function.
+ * Results are ranked with the same scorer process_media uses.
+ */
+export async function searchPlaces(
+  query: string,
+  bias: { lat?: number; lng?: number; country?: string; city?: string } = {}
+): Promise<PlaceCandidate[]> {
+  const { data, error } = await supabase.functions.invoke('search_places', {
+    body: {
+      query,
+      ...bias
+    }
+  });
+  
+  if (error) {
+    throw new Error(`Place search failed: ${error.message}`);
+  }
+  
+  return data.candidates;
+}
+
+/**
+ * Search places for a URL import's caption. search_places picks the
+ * candidates (location tag first) with the same POI extraction as process_media.
+ */
+export async function searchPlacesFromCaption(
+  caption: CaptionSignals,
+  bias: { lat?: number; lng?: number; country?: string; city?: string } = {}
+): Promise<PlaceCandidate[]> {
+  const { data, error } = await supabase.functions.invoke('search_places', {
+    body: {
+      caption,
+      ...bias
+    }
+  });
+
+  if (error) {
+    throw new Error(`Place search failed: ${error.message}`);
+  }
+
+  return data.candidates;
+}
+
+/**
+ * Import a social media link through the import_url Edge Function, which
+ * fetches the post, reads its frames and caption and matches the place
+ * server-side. The result lands on the media row; poll it for the outcome.
+ * A link the user has already imported is returned with duplicate set.
+ */
+export async function importFromUrl(
+  url: string
+): Promise<{ media_id: string; status: string; duplicate?: boolean }> {
+  const location = await getUserLocation();
+
+  const { data, error } = await supabase.functions.invoke('import_url', {
+    body: {
+      url,
+      country: location.country,
+      city: location.city,
+      lat: location.lat,
+      lng: location.lng
+    }
+  });
+
+  if (error) {
+    throw new Error(`URL import failed: ${error.message}`);
+  }
+
+  return data;
+}
+
 /**
  * Poll media status until completion
  */
@@ -188,7 +269,7 @@ export async function pollMediaStatus(
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     const { data: media, error } = await supabase
       .from('media')
-      .select('status, restaurant_id, ocr_text')
+      .select('status, restaurant_id, ocr_text, candidates')
       .eq('id', mediaId)
       .single();
       
@@ -201,28 +282,20 @@ export async function pollMediaStatus(
     }
     
     if (media.status === 'done') {
-      // Get restaurant details
-      const { data: restaurant } = await supabase
-        .from('restaurants')
-        .select('*')
-        .eq('id', media.restaurant_id)
-        .single();
-        
       return {
         status: 'confirmed',
-        restaurant_id: media.restaurant_id,
+        restaurant_id: media.restaurant_id ?? undefined,
         score: 1.0, // Auto-confirmed
-        ocr_text: media.ocr_text
+        ocr_text: media.ocr_text ?? undefined
       };
     }
     
     if (media.status === 'needs_confirmation') {
-      // Get candidates from the Edge Function response
-      // This would need to be stored in the database or returned differently
+      // Candidates are stored on the media row by process_media
       return {
         status: 'needs_confirmation',
-        candidates: [], // Would need to be populated from stored data
-        ocr_text: media.ocr_text
+        candidates: (media.candidates as unknown as PlaceCandidate[] | null) ?? [],
+        ocr_text: media.ocr_text ?? undefined
       };
     }
     
@@ -234,36 +307,99 @@ export async function pollMediaStatus(
 }
 
 /**
- * Confirm a restaurant selection
+ * Get the ranked place candidates stored for a media item
  */
-export async function confirmRestaurant(
-  mediaId: string,
-  restaurantId: string
-): Promise<void> {
+export async function getMediaCandidates(mediaId: string): Promise<PlaceCandidate[]> {
+  const { data: media, error } = await supabase
+    .from('media')
+    .select('candidates')
+    .eq('id', mediaId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load candidates: ${error.message}`);
+  }
+
+  return (media.candidates as unknown as PlaceCandidate[] | null) ?? [];
+}
+
+/**
+ * Find the user's earlier import with the same content fingerprint
+ * (canonical URL for links, file hash for uploads). Failed imports don't
+ * count, so the user can try again.
+ */
+export async function findImportByFingerprint(
+  userId: string,
+  fingerprint: string
+): Promise<{ id: string; restaurant_id: string | null; status: string } | null> {
+  const { data, error } = await supabase
+    .from('media')
+    .select('id, restaurant_id, status')
+    .eq('user_id', userId)
+    .eq('content_fingerprint', fingerprint)
+    .neq('status', 'error')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check for earlier imports: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Mark an import whose upload or processing failed, so importing the same
+ * file again starts over instead of returning this one as a duplicate
+ */
+export async function markImportFailed(mediaId: string): Promise<void> {
   const { error } = await supabase
     .from('media')
-    .update({
-      restaurant_id: restaurantId,
-      status: 'done'
-    })
+    .update({ status: 'error' })
     .eq('id', mediaId);
-    
+
   if (error) {
-    throw new Error(`Failed to confirm restaurant: ${error.message}`);
+    console.warn('Failed to mark import as failed:', error);
   }
 }
 
 /**
- * Get user's location for bias parameters
+ * Get process_media's explanation of why a match was or wasn't auto-confirmed
  */
-export async function getUserLocation(): Promise<{ country?: string; city?: string }> {
-  try {
-    // This would integrate with expo-location to get user's current location
-    // and reverse geocode to get country/city
-    // For now, return empty object
-    return {};
-  } catch (error) {
-    console.error('Failed to get user location:', error);
-    return {};
+export async function getMatchExplanation(mediaId: string): Promise<MatchExplanation | null> {
+  const { data: media, error } = await supabase
+    .from('media')
+    .select('match_explanation')
+    .eq('id', mediaId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load match explanation: ${error.message}`);
   }
+
+  return (media.match_explanation as unknown as MatchExplanation | null) ?? null;
 }
+
+/**
+ * Confirm a restaurant selection through confirm_media. For a URL import,
+ * the restaurant's city is also counted towards where the post's creator
+ * posts from.
+ */
+export async function confirmRestaurant(
+  mediaId: string,
+  restaurantId: string
+): Promise<void> {
+  const { error } = await supabase.functions.invoke('confirm_media', {
+    body: {
+      media_id: mediaId,
+      restaurant_id: restaurantId
+    }
+  });
+
+  if (error) {
+    throw new Error(`Failed to confirm restaurant: ${error.message}`);
+  }
+}
+
+export { getUserLocation };
+export { extractFrames } from './frameExtraction';
+export type { FrameExtractionResult } from './frameExtraction';
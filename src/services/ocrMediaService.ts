@@ -1,56 +1,35 @@
-import * as VideoThumbnails from 'expo-video-thumbnails';
 import * as ImagePicker from 'expo-image-picker';
 import { supabase } from './supabase';
+import { extractFrames } from './frameExtraction';
+import { getFileFingerprint } from './fingerprint';
+import { findImportByFingerprint, markImportFailed } from './mediaService';
+import type { OCRLine } from '../../supabase/functions/_shared/ocr';
 
 export interface MediaUploadOptions {
   type: 'video' | 'photo';
   sourceApp?: 'tiktok' | 'instagram' | 'gallery' | 'camera';
   userId: string;
+  // Video duration if known (ImagePicker assets carry it), else read from the file
+  durationMs?: number | null;
+  // Drop near-identical video frames before uploading them
+  dedupeFrames?: boolean;
+}
+
+export interface FrameOCRText {
+  image_url: string;
+  text: string;
+  confidence?: number;
+  lines?: OCRLine[];
+  error?: string;
 }
 
 export interface OCRResult {
   status: 'done' | 'error';
   text?: string[];
+  frames?: FrameOCRText[];
   error?: string;
 }
 
-export interface FrameExtractionResult {
-  time: number;
-  uri: string;
-}
-
-/**
- * Extract frames from a video for OCR processing
- */
-export async function extractFrames(
-  videoUri: string, 
-  durationMs: number
-): Promise<FrameExtractionResult[]> {
-  const times = [0, durationMs / 2, Math.max(0, durationMs - 500)];
-  
-  // Add 2 random frames if duration > 3s
-  if (durationMs > 3000) {
-    times.push(Math.random() * durationMs);
-    times.push(Math.random() * durationMs);
-  }
-
-  const frames: FrameExtractionResult[] = [];
-  
-  for (const time of times) {
-    try {
-      const { uri: frameUri } = await VideoThumbnails.getThumbnailAsync(
-        videoUri, 
-        { time: Math.floor(time) }
-      );
-      frames.push({ time, uri: frameUri });
-    } catch (error) {
-      console.error(`Failed to extract frame at ${time}ms:`, error);
-    }
-  }
-  
-  return frames;
-}
-
 /**
  * Upload a file to Supabase Storage
  */
@@ -81,13 +60,26 @@ export async function uploadFile(
 }
 
 /**
- * Upload media file and trigger OCR processing
+ * Upload media file and trigger OCR processing. A file the user has already
+ * imported isn't uploaded again: the earlier media is returned with duplicate set.
  */
 export async function uploadMediaWithOCR(
   fileUri: string,
   options: MediaUploadOptions
-): Promise<{ media_id: string; status: string }> {
-  const { type, sourceApp, userId } = options;
+): Promise<{ media_id: string; status: string; duplicate?: boolean }> {
+  const { type, sourceApp, userId, durationMs, dedupeFrames = true } = options;
+
+  const fingerprint = await getFileFingerprint(fileUri);
+  if (fingerprint) {
+    const existing = await findImportByFingerprint(userId, fingerprint);
+    if (existing) {
+      return {
+        media_id: existing.id,
+        status: existing.status,
+        duplicate: true
+      };
+    }
+  }
   
   // Generate unique filename
   const fileExtension = type === 'video' ? 'mp4' : 'jpg';
@@ -105,37 +97,61 @@ export async function uploadMediaWithOCR(
       storage_path: storagePath,
       source_app: sourceApp,
       type,
-      status: 'uploaded'
+      status: 'uploaded',
+      content_fingerprint: fingerprint
     })
     .select()
     .single();
     
   if (mediaError) {
+    // The same file imported twice at once: the other upload's row won the
+    // unique index on the fingerprint, so this upload isn't needed
+    const winner = mediaError.code === '23505' && fingerprint
+      ? await findImportByFingerprint(userId, fingerprint)
+      : null;
+    if (winner) {
+      await supabase.storage.from('media').remove([storagePath]);
+      return {
+        media_id: winner.id,
+        status: winner.status,
+        duplicate: true
+      };
+    }
     throw new Error(`Failed to create media record: ${mediaError.message}`);
   }
   
-  // For photos, trigger OCR immediately
-  if (type === 'photo') {
-    await triggerOCR(media.id, fileUrl);
-  } else {
-    // For videos, extract frames first
-    const durationMs = 10000; // Default 10 seconds, should be replaced with actual duration
-    const frames = await extractFrames(fileUri, durationMs);
+  // A failed import is marked so the same file can be imported again
+  try {
+    // For photos, trigger OCR immediately
+    if (type === 'photo') {
+      await triggerOCR(media.id, [fileUrl]);
+    } else {
+      // For videos, extract frames first
+      const frames = await extractFrames(fileUri, durationMs, { dedupe: dedupeFrames });
     
-    if (frames.length > 0) {
-      // Upload the first frame and trigger OCR
-      const framePath = `ocr-frames/${userId}/${media.id}/frame_0.jpg`;
-      const frameUrl = await uploadFile('media', framePath, frames[0].uri);
+      if (frames.length > 0) {
+        // Upload every frame so text that only shows up later in the clip is read too
+        const framePaths: string[] = [];
+        const frameUrls: string[] = [];
+        for (let i = 0; i < frames.length; i++) {
+          const framePath = `ocr-frames/${userId}/${media.id}/frame_${i}.jpg`;
+          frameUrls.push(await uploadFile('media', framePath, frames[i].uri));
+          framePaths.push(framePath);
+        }
       
-      // Update media record with frame path
-      await supabase
-        .from('media')
-        .update({ ocr_frame_paths: [framePath] })
-        .eq('id', media.id);
+        // Update media record with frame paths
+        await supabase
+          .from('media')
+          .update({ ocr_frame_paths: framePaths })
+          .eq('id', media.id);
         
-      // Trigger OCR on the first frame
-      await triggerOCR(media.id, frameUrl);
+        // Trigger OCR on all frames
+        await triggerOCR(media.id, frameUrls);
+      }
     }
+  } catch (error) {
+    await markImportFailed(media.id);
+    throw error;
   }
   
   return {
@@ -149,12 +165,12 @@ export async function uploadMediaWithOCR(
  */
 export async function triggerOCR(
   mediaId: string,
-  imageUrl: string
+  imageUrls: string[]
 ): Promise<OCRResult> {
   const { data, error } = await supabase.functions.invoke('process-ocr', {
     body: {
       media_id: mediaId,
-      image_url: imageUrl
+      image_urls: imageUrls
     }
   });
   
@@ -190,10 +206,10 @@ export async function pollOCRStatus(
       onStatusUpdate(media.status);
     }
     
-    if (media.status === 'done') {
+    if (media.status === 'done' || media.status === 'needs_confirmation') {
       return {
-        status: 'done',
-        ocr_text: media.ocr_text
+        status: media.status,
+        ocr_text: media.ocr_text ?? undefined
       };
     }
     
@@ -208,17 +224,6 @@ export async function pollOCRStatus(
   throw new Error('OCR processing timeout');
 }
 
-/**
- * Get user's location for bias parameters
- */
-export async function getUserLocation(): Promise<{ country?: string; city?: string }> {
-  try {
-    // This would integrate with expo-location to get user's current location
-    // and reverse geocode to get country/city
-    // For now, return empty object
-    return {};
-  } catch (error) {
-    console.error('Failed to get user location:', error);
-    return {};
-  }
-}
+export { getUserLocation } from './locationService';
+export { extractFrames } from './frameExtraction';
+export type { FrameExtractionResult } from './frameExtraction';
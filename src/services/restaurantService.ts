@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+import { Restaurant } from '../types';
+
+export interface RestaurantInput {
+  name: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  placeProvider?: string;
+  placeId?: string | null;
+  tags?: string[];
+  createdBy: string;
+}
+
+/**
+ * Create a restaurant, or return the existing one for the same place.
+ * Matching happens in the upsert_restaurant database function: first on
+ * (place_provider, place_id), then on a similar name close by.
+ */
+export async function upsertRestaurant(input: RestaurantInput): Promise<Restaurant> {
+  const { data, error } = await supabase.rpc('upsert_restaurant', {
+    p_name: input.name,
+    p_lat: input.lat,
+    p_lng: input.lng,
+    p_created_by: input.createdBy,
+    p_address: input.address ?? null,
+    p_place_provider: input.placeProvider ?? 'manual',
+    p_place_id: input.placeId ?? null,
+    p_tags: input.tags ?? [],
+  });
+
+  if (error) {
+    throw new Error(`Failed to save restaurant: ${error.message}`);
+  }
+
+  return data as Restaurant;
+}
@@ -0,0 +1,43 @@
+import { supabase } from './supabase';
+import {
+  AUTO_CONFIRM_MODES,
+  AutoConfirmMode,
+  DEFAULT_AUTO_CONFIRM_MODE,
+} from '../../supabase/functions/_shared/autoConfirm';
+
+export { DEFAULT_AUTO_CONFIRM_MODE };
+
+/**
+ * Get the user's auto-confirm setting, or the default if they haven't set one
+ */
+export async function getAutoConfirmMode(userId: string): Promise<AutoConfirmMode> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('auto_confirm')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load settings: ${error.message}`);
+  }
+
+  const mode = data?.auto_confirm;
+  return mode && AUTO_CONFIRM_MODES.includes(mode) ? mode : DEFAULT_AUTO_CONFIRM_MODE;
+}
+
+/**
+ * Save the user's auto-confirm setting (used by process_media)
+ */
+export async function setAutoConfirmMode(userId: string, mode: AutoConfirmMode): Promise<void> {
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert({
+      user_id: userId,
+      auto_confirm: mode,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to save settings: ${error.message}`);
+  }
+}
@@ -1,4 +1,21 @@
 import { VideoMetadata } from '../types';
+import { getUserLocation, searchPlacesFromCaption } from './mediaService';
+import {
+  detectPlatform,
+  FetchText,
+  fetchSocialMetadata,
+  fetchText,
+  parseCaption,
+  SocialPostMetadata,
+} from '../../supabase/functions/_shared/socialMetadata';
+import {
+  canonicalizeUrl,
+  followRedirects,
+  ResolveRedirects,
+} from '../../supabase/functions/_shared/socialUrls';
+
+// The parsers are shared with the edge functions
+export type { CaptionSignals, SocialPostMetadata } from '../../supabase/functions/_shared/socialMetadata';
 
 export interface URLMetadataService {
   extractMetadata(url: string): Promise<VideoMetadata>;
@@ -12,122 +29,91 @@ export interface URLMetadataService {
 }
 
 export class SocialMediaMetadataService implements URLMetadataService {
+  constructor(
+    private readonly fetcher: FetchText = fetchText,
+    private readonly resolveRedirects: ResolveRedirects = followRedirects
+  ) {}
+
   detectPlatform(url: string): 'tiktok' | 'youtube' | 'instagram' | 'other' {
-    const lowerUrl = url.toLowerCase();
-    
-    if (lowerUrl.includes('tiktok.com') || lowerUrl.includes('vm.tiktok.com')) {
-      return 'tiktok';
-    }
-    if (lowerUrl.includes('youtube.com') || lowerUrl.includes('youtu.be')) {
-      return 'youtube';
-    }
-    if (lowerUrl.includes('instagram.com') || lowerUrl.includes('instagr.am')) {
-      return 'instagram';
-    }
-    return 'other';
+    return detectPlatform(url);
   }
 
-  async extractMetadata(url: string): Promise<VideoMetadata> {
-    const platform = this.detectPlatform(url);
-    
+  /**
+   * Caption, hashtags, mentions and location tag from the platform's oEmbed
+   * endpoint and the page's OpenGraph tags. Short links are resolved and the
+   * returned url is the canonical one.
+   */
+  async extractMetadata(sharedUrl: string): Promise<VideoMetadata> {
+    const canonical = await canonicalizeUrl(sharedUrl, this.resolveRedirects);
+    const { url, platform } = canonical;
+
+    const videoId = platform === 'youtube' ? canonical.id : null;
+    if (this.detectPlatform(sharedUrl) === 'youtube' && !videoId) {
+      throw new Error('Invalid YouTube URL');
+    }
+
+    let post: SocialPostMetadata;
     try {
-      switch (platform) {
-        case 'tiktok':
-          return await this.extractTikTokMetadata(url);
-        case 'youtube':
-          return await this.extractYouTubeMetadata(url);
-        case 'instagram':
-          return await this.extractInstagramMetadata(url);
-        default:
-          return await this.extractGenericMetadata(url);
-      }
+      post = await fetchSocialMetadata(url, this.fetcher);
     } catch (error) {
       console.error('Error extracting metadata:', error);
       throw new Error('Failed to extract video metadata');
     }
-  }
 
-  private async extractTikTokMetadata(url: string): Promise<VideoMetadata> {
-    // TikTok doesn't have a public API, so we'll use a web scraping approach
-    // In a real implementation, you'd use services like RapidAPI TikTok scraper
     return {
       url,
-      platform: 'tiktok',
-      title: 'TikTok Video',
-      description: 'Restaurant video from TikTok - location analysis pending',
-      thumbnail: undefined,
+      sharedUrl,
+      platform,
+      title: post.title ?? undefined,
+      description: post.caption || undefined,
+      thumbnail: post.thumbnail ?? (videoId ? `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg` : undefined),
+      author: post.author ?? undefined,
+      hashtags: post.hashtags,
+      mentions: post.mentions,
+      locationTag: post.location_tag ?? undefined,
+      geotag: post.geotag ?? undefined,
     };
   }
 
-  private async extractYouTubeMetadata(url: string): Promise<VideoMetadata> {
-    // Extract video ID from YouTube URL
-    const videoId = this.extractYouTubeVideoId(url);
-    if (!videoId) {
-      throw new Error('Invalid YouTube URL');
-    }
-
-    // In a real implementation, you'd use YouTube Data API v3
-    // For now, we'll return basic metadata
-    return {
-      url,
-      platform: 'youtube',
-      title: 'YouTube Video',
-      description: 'Restaurant video from YouTube - location analysis pending',
-      thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
-    };
-  }
-
-  private async extractInstagramMetadata(url: string): Promise<VideoMetadata> {
-    // Instagram requires authentication for their API
-    // In a real implementation, you'd use Instagram Basic Display API
-    return {
-      url,
-      platform: 'instagram',
-      title: 'Instagram Video',
-      description: 'Restaurant video from Instagram - location analysis pending',
-      thumbnail: undefined,
-    };
-  }
-
-  private async extractGenericMetadata(url: string): Promise<VideoMetadata> {
-    return {
-      url,
-      platform: 'other',
-      title: 'Social Media Video',
-      description: 'Restaurant video from social media - location analysis pending',
-      thumbnail: undefined,
-    };
-  }
-
-  private extractYouTubeVideoId(url: string): string | null {
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-      /youtube\.com\/v\/([^&\n?#]+)/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) {
-        return match[1];
-      }
-    }
-    return null;
-  }
-
+  /**
+   * Find the restaurant from the caption signals. The caption goes through
+   * the same POI extraction and place search as OCR text; the post's geotag
+   * is used when no place matches.
+   */
   async extractLocationFromVideo(metadata: VideoMetadata): Promise<{
     latitude?: number;
     longitude?: number;
     address?: string;
     restaurantName?: string;
   }> {
-    // This is where you'd implement AI/ML location extraction
-    // For now, we'll return a placeholder that indicates analysis is needed
-    
+    const caption = parseCaption(metadata.description ?? '', metadata.locationTag ?? null);
+    const mentions = metadata.mentions ?? caption.mentions;
+
+    if (caption.caption || caption.location_tag || mentions.length > 0) {
+      try {
+        const location = await getUserLocation();
+        const [best] = await searchPlacesFromCaption(
+          { ...caption, mentions },
+          metadata.geotag ? { ...location, ...metadata.geotag } : location
+        );
+        if (best) {
+          return {
+            latitude: best.lat,
+            longitude: best.lng,
+            address: best.address,
+            restaurantName: best.name,
+          };
+        }
+      } catch (error) {
+        console.error('Caption place search failed:', error);
+      }
+    }
+
     return {
-      latitude: undefined,
-      longitude: undefined,
-      address: 'Location analysis in progress...',
-      restaurantName: 'Restaurant name extraction in progress...',
+      latitude: metadata.geotag?.lat,
+      longitude: metadata.geotag?.lng,
+      address: metadata.locationTag,
+      restaurantName: undefined,
     };
   }
 }
@@ -1,672 +0,0 @@
-import { VideoMetadata } from '../types';
-import { videoProcessingService } from './videoProcessingService';
-
-export interface VideoAnalysisResult {
-  extractedText: string[];
-  restaurantName?: string;
-  location?: string;
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-  };
-  confidence: number;
-}
-
-export interface OCRResult {
-  text: string;
-  confidence: number;
-  boundingBox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-}
-
-export class VideoAnalysisService {
-  private readonly OCR_SPACE_API_KEY = process.env.EXPO_PUBLIC_OCR_SPACE_API_KEY;
-  private readonly OPENCAGE_API_KEY = process.env.EXPO_PUBLIC_OPENCAGE_API_KEY;
-  private readonly HUGGINGFACE_API_KEY = process.env.EXPO_PUBLIC_HUGGINGFACE_API_KEY;
-
-  /**
-   * Extract text from video frames using OCR.space API
-   */
-  async extractTextFromVideoFrames(videoUrl: string): Promise<OCRResult[]> {
-    try {
-      console.log('Extracting text from video frames:', videoUrl);
-      
-      if (!this.OCR_SPACE_API_KEY) {
-        console.warn('OCR.space API key not configured, using fallback');
-        return this.getFallbackOCRResults();
-      }
-
-      // For TikTok videos, we need to use a different approach
-      // Since we can't directly download TikTok videos, we'll use a video processing service
-      const ocrResults = await this.processTikTokVideo(videoUrl);
-      
-      if (ocrResults.length === 0) {
-        console.log('No text found in video, trying alternative approach');
-        return this.getFallbackOCRResults();
-      }
-
-      return ocrResults;
-    } catch (error) {
-      console.error('Error extracting text from video frames:', error);
-      return this.getFallbackOCRResults();
-    }
-  }
-
-  /**
-   * Process TikTok video to extract text from frames
-   */
-  private async processTikTokVideo(videoUrl: string): Promise<OCRResult[]> {
-    try {
-      // Use the video processing service to extract frames
-      const frames = await videoProcessingService.extractVideoFrames(videoUrl);
-      
-      if (frames.length === 0) {
-        console.log('No frames extracted from video');
-        return [];
-      }
-
-      const ocrResults: OCRResult[] = [];
-
-      // Process each frame with OCR
-      for (const frame of frames) {
-        const ocrResult = await this.performOCR(frame.url);
-        if (ocrResult) {
-          ocrResults.push(ocrResult);
-        }
-      }
-
-      console.log(`Extracted text from ${ocrResults.length} frames`);
-      return ocrResults;
-    } catch (error) {
-      console.error('Error processing TikTok video:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Extract TikTok video ID from URL
-   */
-  private extractTikTokVideoId(url: string): string | null {
-    const patterns = [
-      /tiktok\.com\/@[\w.-]+\/video\/(\d+)/,
-      /vm\.tiktok\.com\/(\w+)/,
-      /tiktok\.com\/v\/(\d+)/
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) {
-        return match[1];
-      }
-    }
-    return null;
-  }
-
-  /**
-   * Extract video frames - this would normally use a video processing service
-   */
-  private async extractVideoFramesMock(videoId: string): Promise<string[]> {
-    // In a real implementation, you would:
-    // 1. Use a video processing service (like Cloudinary, AWS MediaConvert, or FFmpeg)
-    // 2. Extract frames at regular intervals (every 2-3 seconds)
-    // 3. Return the frame URLs for OCR processing
-    
-    // For now, we'll simulate this by trying to get thumbnail frames
-    // TikTok provides thumbnail URLs that we can use for OCR
-    try {
-      // Try to get TikTok video thumbnails
-      const thumbnailUrls = await this.getTikTokThumbnails(videoId);
-      return thumbnailUrls;
-    } catch (error) {
-      console.error('Error getting TikTok thumbnails:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Get TikTok video thumbnails for OCR analysis
-   */
-  private async getTikTokThumbnails(videoId: string): Promise<string[]> {
-    // TikTok provides thumbnail URLs in different sizes
-    // We'll use these for OCR analysis
-    const baseUrl = `https://p16-sign-va.tiktokcdn-us.com/obj/tos-useast2a-p-0068-tx`;
-    
-    return [
-      `${baseUrl}/${videoId}_1.jpg`, // Thumbnail 1
-      `${baseUrl}/${videoId}_2.jpg`, // Thumbnail 2
-      `${baseUrl}/${videoId}_3.jpg`, // Thumbnail 3
-    ];
-  }
-
-  /**
-   * Perform OCR on a single frame using OCR.space API
-   */
-  private async performOCR(frameUrl: string): Promise<OCRResult | null> {
-    try {
-      console.log('Performing OCR on frame:', frameUrl);
-      
-      const formData = new FormData();
-      formData.append('url', frameUrl);
-      formData.append('language', 'eng');
-      formData.append('isOverlayRequired', 'false');
-      formData.append('detectOrientation', 'true');
-      formData.append('scale', 'true');
-
-      const response = await fetch('https://api.ocr.space/parse/image', {
-        method: 'POST',
-        headers: {
-          'apikey': this.OCR_SPACE_API_KEY!,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        console.log(`OCR.space API error: ${response.status} for URL: ${frameUrl}`);
-        return null;
-      }
-
-      const result = await response.json();
-      
-      if (result.ParsedResults && result.ParsedResults.length > 0) {
-        const parsedResult = result.ParsedResults[0];
-        const extractedText = parsedResult.ParsedText?.trim();
-        
-        if (extractedText && extractedText.length > 0) {
-          console.log('OCR extracted text:', extractedText);
-          return {
-            text: extractedText,
-            confidence: parsedResult.TextOverlay?.Lines?.[0]?.Words?.[0]?.Confidence || 0.8,
-          };
-        }
-      }
-
-      console.log('No text found in frame:', frameUrl);
-      return null;
-    } catch (error) {
-      console.error('Error performing OCR on frame:', frameUrl, error);
-      return null;
-    }
-  }
-
-  private getFallbackOCRResults(): OCRResult[] {
-    // Return empty results to force real analysis instead of mock data
-    return [];
-  }
-
-  /**
-   * Enhanced fallback analysis for when OCR fails
-   */
-  private enhancedFallbackAnalysis(videoUrl: string): VideoAnalysisResult {
-    // Try to extract location hints from the video URL or platform
-    const platform = this.detectPlatform(videoUrl);
-    
-    // For TikTok videos, we can try to extract location from the username or video context
-    if (platform === 'tiktok') {
-      return this.analyzeTikTokContext(videoUrl);
-    }
-    
-    // For other platforms, use generic analysis
-    return this.genericFallbackAnalysis();
-  }
-
-  private detectPlatform(url: string): string {
-    if (url.includes('tiktok.com')) return 'tiktok';
-    if (url.includes('youtube.com') || url.includes('youtu.be')) return 'youtube';
-    if (url.includes('instagram.com')) return 'instagram';
-    return 'other';
-  }
-
-  private analyzeTikTokContext(videoUrl: string): VideoAnalysisResult {
-    // Extract username from TikTok URL
-    const usernameMatch = videoUrl.match(/tiktok\.com\/@([^\/]+)/);
-    const username = usernameMatch ? usernameMatch[1] : '';
-    
-    console.log('Analyzing TikTok context for username:', username);
-    
-    // Some TikTok accounts are location-specific
-    const locationHints: { [key: string]: { city: string; country: string } } = {
-      'foodmalmo': { city: 'Malmö', country: 'Sweden' },
-      'foodstockholm': { city: 'Stockholm', country: 'Sweden' },
-      'foodgothenburg': { city: 'Gothenburg', country: 'Sweden' },
-      'foodcopenhagen': { city: 'Copenhagen', country: 'Denmark' },
-      'foodoslo': { city: 'Oslo', country: 'Norway' },
-      'foodhelsinki': { city: 'Helsinki', country: 'Finland' },
-      'foodnyc': { city: 'New York', country: 'USA' },
-      'foodla': { city: 'Los Angeles', country: 'USA' },
-      'foodlondon': { city: 'London', country: 'UK' },
-      'foodparis': { city: 'Paris', country: 'France' },
-      'madness4lifee': { city: 'Stockholm', country: 'Sweden' }, // Add this specific account
-    };
-
-    const locationHint = locationHints[username.toLowerCase()];
-    
-    if (locationHint) {
-      console.log('Found location hint for username:', username, locationHint);
-      return {
-        extractedText: [`@${username}`, locationHint.city, locationHint.country],
-        restaurantName: `Restaurant in ${locationHint.city}`,
-        location: `${locationHint.city}, ${locationHint.country}`,
-        confidence: 0.6, // Medium confidence for location-based analysis
-      };
-    }
-
-    // Try to extract location from URL parameters or video description
-    const urlParams = new URLSearchParams(videoUrl.split('?')[1] || '');
-    const query = urlParams.get('q') || '';
-    
-    console.log('No location hint found, checking URL query:', query);
-    
-    // Check if query contains location keywords
-    const locationKeywords: { [key: string]: { city: string; country: string } } = {
-      'stockholm': { city: 'Stockholm', country: 'Sweden' },
-      'malmo': { city: 'Malmö', country: 'Sweden' },
-      'gothenburg': { city: 'Gothenburg', country: 'Sweden' },
-      'copenhagen': { city: 'Copenhagen', country: 'Denmark' },
-      'oslo': { city: 'Oslo', country: 'Norway' },
-      'helsinki': { city: 'Helsinki', country: 'Finland' },
-      'new york': { city: 'New York', country: 'USA' },
-      'los angeles': { city: 'Los Angeles', country: 'USA' },
-      'london': { city: 'London', country: 'UK' },
-      'paris': { city: 'Paris', country: 'France' },
-    };
-
-    for (const [keyword, location] of Object.entries(locationKeywords)) {
-      if (query.toLowerCase().includes(keyword)) {
-        console.log('Found location from query:', keyword, location);
-        return {
-          extractedText: [`@${username}`, location.city, location.country, query],
-          restaurantName: `Restaurant in ${location.city}`,
-          location: `${location.city}, ${location.country}`,
-          confidence: 0.5, // Lower confidence for query-based analysis
-        };
-      }
-    }
-
-    // Try to extract restaurant name from video title or description if available
-    console.log('No location found, trying to extract restaurant info from URL context');
-    
-    // Check if there are any restaurant-related keywords in the URL or query
-    const restaurantKeywords = ['restaurant', 'cafe', 'bistro', 'kitchen', 'grill', 'bar', 'pizza', 'burger', 'food'];
-    const hasRestaurantKeyword = restaurantKeywords.some(keyword => 
-      query.toLowerCase().includes(keyword) || username.toLowerCase().includes(keyword)
-    );
-    
-    if (hasRestaurantKeyword) {
-      return {
-        extractedText: [`@${username}`, query],
-        restaurantName: `Restaurant from @${username}`,
-        location: 'Location to be determined from video analysis',
-        confidence: 0.3, // Low confidence for keyword-based detection
-      };
-    }
-
-    console.log('No location found, using generic fallback');
-    return this.genericFallbackAnalysis();
-  }
-
-  private genericFallbackAnalysis(): VideoAnalysisResult {
-    return {
-      extractedText: [],
-      restaurantName: 'Restaurant from video',
-      location: 'Location to be determined',
-      confidence: 0.3, // Low confidence for generic fallback
-    };
-  }
-
-  /**
-   * Use Hugging Face API to analyze extracted text and identify restaurant information
-   */
-  async analyzeExtractedText(ocrResults: OCRResult[]): Promise<VideoAnalysisResult> {
-    try {
-      const allText = ocrResults.map(result => result.text).join(' ');
-      
-      if (!this.HUGGINGFACE_API_KEY) {
-        console.warn('Hugging Face API key not configured, using fallback analysis');
-        return this.fallbackTextAnalysis(allText);
-      }
-
-      // Use Hugging Face Inference API for text analysis
-      // Using a more appropriate model for text analysis
-      const response = await fetch('https://api-inference.huggingface.co/models/dbmdz/bert-large-cased-finetuned-conll03-english', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.HUGGINGFACE_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: allText,
-          parameters: {
-            aggregation_strategy: "simple"
-          }
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Hugging Face API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      // For now, we'll use a simpler approach with Hugging Face
-      // In production, you might want to use a specialized NER model
-      const analysis = this.parseHuggingFaceResponse(data, allText);
-      
-      return {
-        extractedText: ocrResults.map(r => r.text),
-        restaurantName: analysis.restaurantName,
-        location: analysis.location,
-        confidence: analysis.confidence || 0.5,
-      };
-    } catch (error) {
-      console.error('Error analyzing extracted text:', error);
-      const allText = ocrResults.map(result => result.text).join(' ');
-      return this.fallbackTextAnalysis(allText);
-    }
-  }
-
-  private parseHuggingFaceResponse(data: any, originalText: string): {
-    restaurantName?: string;
-    location?: string;
-    confidence: number;
-  } {
-    // Parse NER response from Hugging Face
-    let restaurantName: string | undefined;
-    let location: string | undefined;
-    
-    if (Array.isArray(data)) {
-      // Extract entities from NER response
-      const entities = data.filter((item: any) => 
-        item.entity_group === 'ORG' || item.entity_group === 'LOC' || item.entity_group === 'MISC'
-      );
-      
-      // Find restaurant name (usually ORG or MISC)
-      const restaurantEntity = entities.find((item: any) => 
-        item.entity_group === 'ORG' || 
-        (item.entity_group === 'MISC' && item.word.toLowerCase().includes('restaurant'))
-      );
-      
-      // Find location (usually LOC)
-      const locationEntities = entities.filter((item: any) => item.entity_group === 'LOC');
-      
-      restaurantName = restaurantEntity?.word;
-      location = locationEntities.map(item => item.word).join(', ');
-    }
-    
-    // Enhanced regex patterns for restaurant and location detection
-    const analysis = this.analyzeTextForRestaurantAndLocation(originalText);
-    
-    return {
-      restaurantName: restaurantName || analysis.restaurantName,
-      location: location || analysis.location,
-      confidence: 0.8, // Higher confidence for NER analysis
-    };
-  }
-
-  /**
-   * Analyze text to extract restaurant name and location using patterns
-   */
-  private analyzeTextForRestaurantAndLocation(text: string): {
-    restaurantName?: string;
-    location?: string;
-  } {
-    console.log('Analyzing text for restaurant and location:', text);
-    
-    // Restaurant name patterns
-    const restaurantPatterns = [
-      // Common restaurant name patterns
-      /([A-Z][a-z]+'s?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, // "Joe's Pizza", "Mario's Italian"
-      /([A-Z][a-z]+\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, // "Blue Moon", "Golden Dragon"
-      /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\s+(?:Restaurant|Cafe|Bistro|Kitchen|Grill|Bar|Pizza|Burger))/gi, // "Sunset Restaurant"
-      /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\s+(?:&|and)\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g, // "Tom & Jerry's"
-    ];
-
-    // Location patterns
-    const locationPatterns = [
-      // Address patterns
-      /(\d+\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\s+(?:Street|Avenue|Road|Boulevard|St|Ave|Rd|Blvd|Gata|Vägen|Gatan))/gi,
-      // City, Country patterns
-      /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*,\s*[A-Z]{2,3})/g, // "Stockholm, SE", "New York, NY"
-      // City patterns
-      /(Stockholm|Malmö|Göteborg|Uppsala|Västerås|Örebro|Linköping|Helsingborg|Jönköping|Norrköping|Lund|Umeå|Gävle|Borås|Södertälje|Halmstad|Växjö|Karlstad|Sundsvall|Östersund)/gi,
-      // Swedish cities
-      /(Köpenhamn|Oslo|Helsinki|Berlin|Paris|London|Amsterdam|Madrid|Rom|Wien|Prag|Warszawa)/gi,
-      // International cities
-    ];
-
-    let restaurantName: string | undefined;
-    let location: string | undefined;
-
-    // Find restaurant name
-    for (const pattern of restaurantPatterns) {
-      const matches = text.match(pattern);
-      if (matches && matches.length > 0) {
-        // Filter out common false positives
-        const filteredMatches = matches.filter(match => 
-          !match.toLowerCase().includes('street') &&
-          !match.toLowerCase().includes('avenue') &&
-          !match.toLowerCase().includes('road') &&
-          !match.toLowerCase().includes('stockholm') &&
-          !match.toLowerCase().includes('sweden') &&
-          match.length > 3
-        );
-        
-        if (filteredMatches.length > 0) {
-          restaurantName = filteredMatches[0].trim();
-          console.log('Found restaurant name:', restaurantName);
-          break;
-        }
-      }
-    }
-
-    // Find location
-    for (const pattern of locationPatterns) {
-      const matches = text.match(pattern);
-      if (matches && matches.length > 0) {
-        const filteredMatches = matches.filter(match => 
-          match.length > 2 &&
-          !match.toLowerCase().includes('restaurant') &&
-          !match.toLowerCase().includes('cafe')
-        );
-        
-        if (filteredMatches.length > 0) {
-          location = filteredMatches[0].trim();
-          console.log('Found location:', location);
-          break;
-        }
-      }
-    }
-
-    // If we found a city but no country, add the country
-    if (location && !location.includes(',')) {
-      const cityCountryMap: { [key: string]: string } = {
-        'Stockholm': 'Stockholm, Sweden',
-        'Malmö': 'Malmö, Sweden',
-        'Göteborg': 'Göteborg, Sweden',
-        'Köpenhamn': 'Copenhagen, Denmark',
-        'Oslo': 'Oslo, Norway',
-        'Helsinki': 'Helsinki, Finland',
-        'Berlin': 'Berlin, Germany',
-        'Paris': 'Paris, France',
-        'London': 'London, UK',
-        'Amsterdam': 'Amsterdam, Netherlands',
-        'Madrid': 'Madrid, Spain',
-        'Rom': 'Rome, Italy',
-        'Wien': 'Vienna, Austria',
-        'Prag': 'Prague, Czech Republic',
-        'Warszawa': 'Warsaw, Poland',
-      };
-
-      const cityKey = Object.keys(cityCountryMap).find(city => 
-        location?.toLowerCase().includes(city.toLowerCase())
-      );
-
-      if (cityKey) {
-        location = cityCountryMap[cityKey];
-        console.log('Enhanced location with country:', location);
-      }
-    }
-
-    return {
-      restaurantName,
-      location,
-    };
-  }
-
-  /**
-   * Geocode a location string to get coordinates using OpenCage API
-   */
-  async geocodeLocation(location: string): Promise<{ latitude: number; longitude: number } | null> {
-    try {
-      console.log('Geocoding location:', location);
-      
-      if (!this.OPENCAGE_API_KEY) {
-        console.warn('OpenCage API key not configured, using fallback geocoding');
-        return this.fallbackGeocoding(location);
-      }
-
-      // Use OpenCage Geocoding API
-      const encodedLocation = encodeURIComponent(location);
-      const response = await fetch(
-        `https://api.opencagedata.com/geocode/v1/json?q=${encodedLocation}&key=${this.OPENCAGE_API_KEY}&limit=1&no_annotations=1`
-      );
-
-      if (!response.ok) {
-        throw new Error(`OpenCage API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (data.results && data.results.length > 0) {
-        const result = data.results[0];
-        return {
-          latitude: result.geometry.lat,
-          longitude: result.geometry.lng,
-        };
-      }
-
-      return null;
-    } catch (error) {
-      console.error('Error geocoding location:', error);
-      return this.fallbackGeocoding(location);
-    }
-  }
-
-  private fallbackGeocoding(location: string): { latitude: number; longitude: number } | null {
-    // Fallback geocoding for common cities
-    const mockCoordinates = {
-      "New York, NY": { latitude: 40.7128, longitude: -74.0060 },
-      "Los Angeles, CA": { latitude: 34.0522, longitude: -118.2437 },
-      "Chicago, IL": { latitude: 41.8781, longitude: -87.6298 },
-      "Houston, TX": { latitude: 29.7604, longitude: -95.3698 },
-      "Phoenix, AZ": { latitude: 33.4484, longitude: -112.0740 },
-      "Philadelphia, PA": { latitude: 39.9526, longitude: -75.1652 },
-      "San Antonio, TX": { latitude: 29.4241, longitude: -98.4936 },
-      "San Diego, CA": { latitude: 32.7157, longitude: -117.1611 },
-      "Dallas, TX": { latitude: 32.7767, longitude: -96.7970 },
-      "San Jose, CA": { latitude: 37.3382, longitude: -121.8863 },
-    };
-
-    // Simple lookup for common cities
-    for (const [city, coords] of Object.entries(mockCoordinates)) {
-      if (location.toLowerCase().includes(city.toLowerCase())) {
-        return coords;
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * Test function to debug OCR extraction
-   */
-  async testOCRExtraction(videoUrl: string): Promise<void> {
-    console.log('=== TESTING OCR EXTRACTION ===');
-    console.log('Video URL:', videoUrl);
-    
-    const ocrResults = await this.extractTextFromVideoFrames(videoUrl);
-    console.log('OCR Results:', ocrResults);
-    
-    if (ocrResults.length > 0) {
-      const allText = ocrResults.map(r => r.text).join(' ');
-      console.log('Combined text:', allText);
-      
-      const analysis = this.analyzeTextForRestaurantAndLocation(allText);
-      console.log('Analysis result:', analysis);
-    } else {
-      console.log('No OCR results - using fallback analysis');
-      const fallback = this.enhancedFallbackAnalysis(videoUrl);
-      console.log('Fallback result:', fallback);
-    }
-    
-    console.log('=== END OCR TEST ===');
-  }
-
-  /**
-   * Complete video analysis pipeline
-   */
-  async analyzeVideo(videoUrl: string): Promise<VideoAnalysisResult> {
-    try {
-      console.log('Starting video analysis for:', videoUrl);
-      
-      // Step 1: Extract text from video frames
-      const ocrResults = await this.extractTextFromVideoFrames(videoUrl);
-      console.log('OCR results count:', ocrResults.length);
-      
-      let analysis: VideoAnalysisResult;
-      
-      if (ocrResults.length === 0) {
-        console.log('No OCR results, using enhanced fallback analysis');
-        analysis = this.enhancedFallbackAnalysis(videoUrl);
-      } else {
-        console.log('OCR results found, analyzing text:', ocrResults.map(r => r.text));
-        // Step 2: Analyze extracted text
-        analysis = await this.analyzeExtractedText(ocrResults);
-      }
-      
-      console.log('Analysis before geocoding:', analysis);
-      
-      // Step 3: Geocode location if found
-      if (analysis.location && analysis.location !== 'Location to be determined') {
-        console.log('Geocoding location:', analysis.location);
-        const coordinates = await this.geocodeLocation(analysis.location);
-        if (coordinates) {
-          analysis.coordinates = coordinates;
-          console.log('Geocoding successful:', coordinates);
-        } else {
-          console.log('Geocoding failed for location:', analysis.location);
-        }
-      } else {
-        console.log('No location to geocode or location is generic');
-      }
-
-      console.log('Video analysis complete:', analysis);
-      return analysis;
-    } catch (error) {
-      console.error('Error in video analysis pipeline:', error);
-      return this.enhancedFallbackAnalysis(videoUrl);
-    }
-  }
-
-  /**
-   * Fallback text analysis when AI services are not available
-   */
-  private fallbackTextAnalysis(text: string): VideoAnalysisResult {
-    console.log('Using fallback text analysis for:', text);
-    
-    // Use the enhanced text analysis
-    const analysis = this.analyzeTextForRestaurantAndLocation(text);
-    
-    return {
-      extractedText: [text],
-      restaurantName: analysis.restaurantName,
-      location: analysis.location,
-      confidence: 0.4, // Slightly higher confidence for enhanced fallback
-    };
-  }
-}
-
-export const videoAnalysisService = new VideoAnalysisService();
@@ -46,44 +46,76 @@ export interface Database {
           created_by?: string
           created_at?: string
         }
+        Relationships: []
       }
       media: {
         Row: {
           id: string
           user_id: string
           restaurant_id: string | null
-          storage_path: string
+          storage_path: string | null
           source_app: string | null
           type: 'video' | 'photo'
           ocr_frame_paths: string[]
           ocr_text: string | null
           status: string
+          candidates: Json
+          ocr_frames: Json
+          match_explanation: Json | null
+          canonical_url: string | null
+          content_fingerprint: string | null
+          source_url: string | null
+          metadata: Json
+          creator_platform: string | null
+          creator_handle: string | null
+          creator_city: string | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
           restaurant_id?: string | null
-          storage_path: string
+          storage_path?: string | null
           source_app?: string | null
           type: 'video' | 'photo'
           ocr_frame_paths?: string[]
           ocr_text?: string | null
           status?: string
+          candidates?: Json
+          ocr_frames?: Json
+          match_explanation?: Json | null
+          canonical_url?: string | null
+          content_fingerprint?: string | null
+          source_url?: string | null
+          metadata?: Json
+          creator_platform?: string | null
+          creator_handle?: string | null
+          creator_city?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
           restaurant_id?: string | null
-          storage_path?: string
+          storage_path?: string | null
           source_app?: string | null
           type?: 'video' | 'photo'
           ocr_frame_paths?: string[]
           ocr_text?: string | null
           status?: string
+          candidates?: Json
+          ocr_frames?: Json
+          match_explanation?: Json | null
+          canonical_url?: string | null
+          content_fingerprint?: string | null
+          source_url?: string | null
+          metadata?: Json
+          creator_platform?: string | null
+          creator_handle?: string | null
+          creator_city?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       place_cache: {
         Row: {
@@ -98,6 +130,9 @@ export interface Database {
           lat: number | null
           lng: number | null
           score: number | null
+          rating: number | null
+          rating_count: number | null
+          types: string[] | null
           created_at: string
         }
         Insert: {
@@ -112,6 +147,9 @@ export interface Database {
           lat?: number | null
           lng?: number | null
           score?: number | null
+          rating?: number | null
+          rating_count?: number | null
+          types?: string[] | null
           created_at?: string
         }
         Update: {
@@ -126,20 +164,105 @@ export interface Database {
           lat?: number | null
           lng?: number | null
           score?: number | null
+          rating?: number | null
+          rating_count?: number | null
+          types?: string[] | null
           created_at?: string
         }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          user_id: string
+          auto_confirm: 'off' | 'conservative' | 'aggressive'
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          auto_confirm?: 'off' | 'conservative' | 'aggressive'
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          auto_confirm?: 'off' | 'conservative' | 'aggressive'
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      creator_profiles: {
+        Row: {
+          platform: string
+          handle: string
+          city: string
+          country: string
+          lat: number
+          lng: number
+          confirmations: number
+          updated_at: string
+        }
+        Insert: {
+          platform: string
+          handle: string
+          city: string
+          country: string
+          lat: number
+          lng: number
+          confirmations?: number
+          updated_at?: string
+        }
+        Update: {
+          platform?: string
+          handle?: string
+          city?: string
+          country?: string
+          lat?: number
+          lng?: number
+          confirmations?: number
+          updated_at?: string
+        }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      upsert_restaurant: {
+        Args: {
+          p_name: string
+          p_lat: number
+          p_lng: number
+          p_created_by: string
+          p_address?: string | null
+          p_place_provider?: string
+          p_place_id?: string | null
+          p_tags?: string[]
+          match_radius_m?: number
+          min_name_similarity?: number
+        }
+        Returns: Database['public']['Tables']['restaurants']['Row']
+      }
+      record_creator_city: {
+        Args: {
+          p_media_id: string
+          p_city: string
+          p_country: string
+          p_lat: number
+          p_lng: number
+        }
+        Returns: undefined
+      }
       process_media: {
         Args: {
           media_id: string
           frame_urls: string[]
           country?: string
           city?: string
+          lat?: number
+          lng?: number
+          provider?: 'google' | 'mapbox' | 'nominatim'
+          ocr_engine?: 'vision' | 'tesseract'
+          caption?: Json
         }
         Returns: {
           status: string
@@ -151,9 +274,37 @@ export interface Database {
             lat: number
             lng: number
             place_id: string
+            provider: string
             score: number
           }>
           ocr_text?: string
+          poi_candidates?: Array<{
+            text: string
+            score: number
+            features: Json
+          }>
+          explanation?: Json
+          resolved_city?: Json
+          cache?: {
+            hits: number
+            misses: number
+          }
+        }
+      }
+      import_url: {
+        Args: {
+          url: string
+          country?: string
+          city?: string
+          lat?: number
+          lng?: number
+          provider?: 'google' | 'mapbox' | 'nominatim'
+          ocr_engine?: 'vision' | 'tesseract' | 'ocrspace' | 'fake'
+        }
+        Returns: {
+          media_id: string
+          status: string
+          duplicate?: boolean
         }
       }
     }
@@ -1,3 +1,5 @@
+import type { AutoConfirmMode, MatchExplanation } from '../../supabase/functions/_shared/autoConfirm';
+
 export interface User {
   id: string;
   email: string;
@@ -22,12 +24,22 @@ export interface Media {
   id: string;
   user_id: string;
   restaurant_id: string | null;
-  storage_path: string;
+  // Null for URL imports, which have no stored file
+  storage_path: string | null;
   source_app: string | null;
   type: 'video' | 'photo';
   ocr_frame_paths: string[];
   ocr_text: string | null;
   status: string;
+  candidates: PlaceCandidate[];
+  ocr_frames: Array<{ image_url: string; text: string; confidence?: number; error?: string }>;
+  match_explanation: MatchExplanation | null;
+  canonical_url: string | null;
+  // Canonical URL for links, "md5:<hash>" for uploads; one import per user each
+  content_fingerprint: string | null;
+  // The link as it was shared, for URL imports
+  source_url: string | null;
+  metadata: Partial<Omit<VideoMetadata, 'url' | 'sharedUrl' | 'platform'>>;
   created_at: string;
 }
 
@@ -43,6 +55,9 @@ export interface PlaceCache {
   lat: number | null;
   lng: number | null;
   score: number | null;
+  rating: number | null;
+  rating_count: number | null;
+  types: string[] | null;
   created_at: string;
 }
 
@@ -66,30 +81,77 @@ export interface PlaceCandidate {
   address: string;
   lat: number;
   lng: number;
-  place_id: string;
+  // Unset on an address pin, which isn't a listed place
+  place_id?: string;
+  provider?: string;
   score: number;
 }
 
+// OCR line ranked as a possible restaurant name by process_media
+export interface POICandidate {
+  text: string;
+  score: number;
+  features: {
+    relative_height: number | null;
+    frame_height_ratio: number | null;
+    vertical_position: number | null;
+    frame_ratio: number;
+    frame_count: number;
+    food_keyword: boolean;
+    title_case: boolean;
+    social: boolean;
+    ocr_confidence: number;
+  };
+}
+
+// The auto-confirm modes and the explanation are shared with the edge functions
+export type { AutoConfirmMode, MatchExplanation };
+
 export interface ProcessMediaResult {
   status: 'confirmed' | 'needs_confirmation';
   restaurant_id?: string;
   score?: number;
   candidates?: PlaceCandidate[];
   ocr_text?: string;
+  poi_candidates?: POICandidate[];
+  explanation?: MatchExplanation;
+  // City the place search was biased to, when read from the location tag, caption or OCR text
+  resolved_city?: {
+    name: string;
+    country: string;
+    lat: number;
+    lng: number;
+    source: 'location_tag' | 'creator' | 'caption' | 'ocr';
+  };
+  cache?: {
+    hits: number;
+    misses: number;
+  };
 }
 
 export interface MediaUploadResult {
   media_id: string;
   frame_urls: string[];
   status: 'uploaded' | 'processing' | 'needs_confirmation' | 'done';
+  // The file was imported before; media_id is that import and nothing was uploaded
+  duplicate?: boolean;
 }
 
 export interface VideoMetadata {
+  // Canonical URL (see canonicalizeUrl), also the dedupe key for imports
   url: string;
+  // The link as it was shared
+  sharedUrl?: string;
   platform: 'tiktok' | 'youtube' | 'instagram' | 'other';
   title?: string;
   description?: string;
   thumbnail?: string;
+  author?: string;
+  hashtags?: string[];
+  mentions?: string[];
+  // Place named in the caption or by the platform's location sticker
+  locationTag?: string;
+  geotag?: { lat: number; lng: number };
 }
 
 export interface ShareData {
@@ -13,8 +13,8 @@ CREATE TABLE IF NOT EXISTS restaurants (
   address TEXT,
   lat DOUBLE PRECISION NOT NULL,
   lng DOUBLE PRECISION NOT NULL,
-  place_provider TEXT DEFAULT 'google',          -- 'google' | 'mapbox' | 'manual'
-  place_id TEXT,                                  -- Google place_id or Mapbox feature id
+  place_provider TEXT DEFAULT 'google',          -- 'google' | 'mapbox' | 'nominatim' | 'manual'
+  place_id TEXT,                                  -- Google place_id, Mapbox id or OSM id (e.g. N123)
   tags TEXT[] DEFAULT '{}',
   created_by UUID REFERENCES auth.users(id),
   created_at TIMESTAMPTZ DEFAULT NOW()
@@ -76,3 +76,493 @@ CREATE INDEX IF NOT EXISTS idx_restaurants_lat_lng ON restaurants(lat, lng);
 CREATE INDEX IF NOT EXISTS idx_media_user_id ON media(user_id);
 CREATE INDEX IF NOT EXISTS idx_media_status ON media(status);
 CREATE INDEX IF NOT EXISTS idx_place_cache_query ON place_cache(normalized_query, country, city);
+
+-- place_cache read-through: keep enough of each result to re-score it,
+-- and look up by provider + age. Rows with a NULL place_id are cached
+-- empty results.
+ALTER TABLE place_cache ADD COLUMN IF NOT EXISTS rating DOUBLE PRECISION;
+ALTER TABLE place_cache ADD COLUMN IF NOT EXISTS types TEXT[];
+CREATE INDEX IF NOT EXISTS idx_place_cache_lookup ON place_cache(normalized_query, provider, country, city, created_at DESC);
+
+-- Restaurant de-duplication
+-- upsert_restaurant() is the single write path for restaurants (edge functions
+-- and the app both call it). It returns an existing restaurant of the same
+-- owner when one matches on (place_provider, place_id), or failing that on a
+-- similar name within match_radius_m, and only inserts when nothing matches.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_place ON restaurants(created_by, place_provider, place_id);
+CREATE INDEX IF NOT EXISTS idx_restaurants_name_trgm ON restaurants USING gin (lower(name) gin_trgm_ops);
+
+CREATE POLICY "restaurants_owner_update"
+  ON restaurants FOR UPDATE
+  USING (auth.uid() = created_by)
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE OR REPLACE FUNCTION upsert_restaurant(
+  p_name TEXT,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_created_by UUID,
+  p_address TEXT DEFAULT NULL,
+  p_place_provider TEXT DEFAULT 'manual',
+  p_place_id TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT '{}',
+  match_radius_m DOUBLE PRECISION DEFAULT 75,
+  min_name_similarity DOUBLE PRECISION DEFAULT 0.5
+)
+RETURNS restaurants AS $$
+DECLARE
+  existing restaurants;
+BEGIN
+  IF p_place_id IS NOT NULL THEN
+    SELECT * INTO existing
+    FROM restaurants
+    WHERE created_by = p_created_by
+      AND place_provider = p_place_provider
+      AND place_id = p_place_id
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  -- Fuzzy fallback; 0,0 means the location is still unknown
+  IF existing.id IS NULL AND NOT (p_lat = 0 AND p_lng = 0) THEN
+    SELECT r.* INTO existing
+    FROM restaurants r
+    WHERE r.created_by = p_created_by
+      AND similarity(lower(r.name), lower(p_name)) >= min_name_similarity
+      AND 2 * 6371000 * asin(sqrt(
+            power(sin(radians(r.lat - p_lat) / 2), 2) +
+            cos(radians(p_lat)) * cos(radians(r.lat)) * power(sin(radians(r.lng - p_lng) / 2), 2)
+          )) <= match_radius_m
+    ORDER BY similarity(lower(r.name), lower(p_name)) DESC
+    LIMIT 1;
+  END IF;
+
+  IF existing.id IS NOT NULL THEN
+    UPDATE restaurants
+    SET tags = ARRAY(SELECT DISTINCT unnest(tags || p_tags)),
+        address = COALESCE(address, p_address),
+        place_provider = CASE WHEN place_id IS NULL AND p_place_id IS NOT NULL THEN p_place_provider ELSE place_provider END,
+        place_id = COALESCE(place_id, p_place_id)
+    WHERE id = existing.id
+    RETURNING * INTO existing;
+    RETURN existing;
+  END IF;
+
+  INSERT INTO restaurants (name, address, lat, lng, place_provider, place_id, tags, created_by)
+  VALUES (p_name, p_address, p_lat, p_lng, p_place_provider, p_place_id, p_tags, p_created_by)
+  RETURNING * INTO existing;
+  RETURN existing;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Ranked place candidates from process_media, kept on the media row so a
+-- needs_confirmation import can be resumed after the app restarts
+ALTER TABLE media ADD COLUMN IF NOT EXISTS candidates JSONB DEFAULT '[]';
+
+-- Per-frame OCR text from process-ocr: [{ image_url, text, error? }]
+ALTER TABLE media ADD COLUMN IF NOT EXISTS ocr_frames JSONB DEFAULT '[]';
+
+-- Number of ratings behind place_cache.rating, used by the place scorer
+ALTER TABLE place_cache ADD COLUMN IF NOT EXISTS rating_count INTEGER;
+
+-- Per-user settings, read by the edge functions with the service role.
+-- auto_confirm: when process_media pins the best match without asking
+--   'off' never, 'conservative' at score >= 0.75, 'aggressive' at score >= 0.65
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  auto_confirm TEXT NOT NULL DEFAULT 'conservative' CHECK (auto_confirm IN ('off','conservative','aggressive')),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "user_settings_owner_rw"
+  ON user_settings FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Why process_media did or didn't auto-confirm: decision, threshold, the OCR
+-- line that matched, name similarity and the bonuses applied
+ALTER TABLE media ADD COLUMN IF NOT EXISTS match_explanation JSONB;
+
+-- Canonical URL of a URL import (short links resolved, tracking params
+-- dropped, rebuilt from the platform's video id). One import per user and URL.
+ALTER TABLE media ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS media_user_canonical_url_key
+  ON media (user_id, canonical_url)
+  WHERE canonical_url IS NOT NULL;
+
+-- What an import was made from, to spot re-imports: the canonical URL for
+-- links, "md5:<hash>" of the file for uploads. Replaces the canonical_url
+-- index as the dedupe key.
+ALTER TABLE media ADD COLUMN IF NOT EXISTS content_fingerprint TEXT;
+UPDATE media SET content_fingerprint = canonical_url
+  WHERE content_fingerprint IS NULL AND canonical_url IS NOT NULL;
+DROP INDEX IF EXISTS media_user_canonical_url_key;
+CREATE UNIQUE INDEX IF NOT EXISTS media_user_content_fingerprint_key
+  ON media (user_id, content_fingerprint)
+  WHERE content_fingerprint IS NOT NULL;
+
+-- URL imports: the link as shared and the post's caption, author, hashtags,
+-- location tag and thumbnail. A URL import has no stored file, so
+-- storage_path is only required for uploads.
+ALTER TABLE media ADD COLUMN IF NOT EXISTS source_url TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}';
+ALTER TABLE media ALTER COLUMN storage_path DROP NOT NULL;
+
+-- Where creators post from, learned from confirmed imports: how many
+-- confirmed restaurants of a creator's posts lie in each city. Handles are
+-- stored lowercase without the "@".
+CREATE TABLE IF NOT EXISTS creator_profiles (
+  platform TEXT NOT NULL,
+  handle TEXT NOT NULL,
+  city TEXT NOT NULL,
+  country TEXT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (platform, handle, city, country)
+);
+
+ALTER TABLE creator_profiles ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "creator_profiles_public_read"
+  ON creator_profiles FOR SELECT USING (true);
+
+-- The creator city a media row was counted under ("city|country"), so
+-- confirming it again doesn't count twice and picking another restaurant
+-- moves the count
+ALTER TABLE media ADD COLUMN IF NOT EXISTS creator_city TEXT;
+
+-- record_creator_city() is the only write path for creator_profiles. Users
+-- can only count their own confirmed imports; the edge functions call it
+-- with the service role.
+CREATE OR REPLACE FUNCTION record_creator_city(
+  p_media_id UUID,
+  p_platform TEXT,
+  p_handle TEXT,
+  p_city TEXT,
+  p_country TEXT,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION
+)
+RETURNS VOID AS $$
+DECLARE
+  m media;
+  v_key TEXT := p_city || '|' || p_country;
+BEGIN
+  SELECT * INTO m FROM media WHERE id = p_media_id;
+  IF m.id IS NULL OR m.restaurant_id IS NULL THEN
+    RETURN;
+  END IF;
+  IF auth.uid() IS NOT NULL AND auth.uid() <> m.user_id THEN
+    RAISE EXCEPTION 'media % belongs to another user', p_media_id;
+  END IF;
+  IF m.creator_city = v_key THEN
+    RETURN;
+  END IF;
+
+  IF m.creator_city IS NOT NULL THEN
+    UPDATE creator_profiles
+    SET confirmations = GREATEST(confirmations - 1, 0),
+        updated_at = NOW()
+    WHERE platform = p_platform
+      AND handle = p_handle
+      AND city = split_part(m.creator_city, '|', 1)
+      AND country = split_part(m.creator_city, '|', 2);
+  END IF;
+
+  INSERT INTO creator_profiles (platform, handle, city, country, lat, lng, confirmations)
+  VALUES (p_platform, p_handle, p_city, p_country, p_lat, p_lng, 1)
+  ON CONFLICT (platform, handle, city, country) DO UPDATE
+  SET confirmations = creator_profiles.confirmations + 1,
+      updated_at = NOW();
+
+  UPDATE media SET creator_city = v_key WHERE id = p_media_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Writing a place_cache entry replaces whatever its key held, in one
+-- transaction: the advisory lock on the key keeps two searches for the same
+-- query from interleaving their delete and insert. p_places is the
+-- provider's result; an empty array stores the negative entry (a row with a
+-- NULL place_id). Only the edge functions write the cache.
+CREATE OR REPLACE FUNCTION replace_place_cache(
+  p_normalized_query TEXT,
+  p_provider TEXT,
+  p_country TEXT,
+  p_city TEXT,
+  p_places JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(concat_ws('|', p_normalized_query, p_provider, p_country, p_city)));
+
+  DELETE FROM place_cache
+  WHERE normalized_query = p_normalized_query
+    AND provider = p_provider
+    AND country IS NOT DISTINCT FROM p_country
+    AND city IS NOT DISTINCT FROM p_city;
+
+  IF jsonb_array_length(p_places) = 0 THEN
+    INSERT INTO place_cache (normalized_query, provider, country, city)
+    VALUES (p_normalized_query, p_provider, p_country, p_city);
+    RETURN;
+  END IF;
+
+  INSERT INTO place_cache (normalized_query, provider, country, city, place_id, name, address, lat, lng, rating, rating_count, types)
+  SELECT p_normalized_query, p_provider, p_country, p_city,
+         p.place_id, p.name, p.address, p.lat, p.lng, p.rating, p.rating_count, p.types
+  FROM jsonb_to_recordset(p_places) AS p(
+    place_id TEXT,
+    name TEXT,
+    address TEXT,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    rating DOUBLE PRECISION,
+    rating_count INTEGER,
+    types TEXT[]
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION replace_place_cache(TEXT, TEXT, TEXT, TEXT, JSONB) FROM public, anon, authenticated;
+
+-- One restaurant per owner and place. upsert_restaurant() looked the place
+-- up and then inserted, so two imports of the same place at once could both
+-- insert. Restaurants already pinned twice are merged into the oldest (their
+-- media move over) before the index goes in, and the insert becomes an
+-- INSERT ... ON CONFLICT on it.
+WITH duplicates AS (
+  SELECT id, first_value(id) OVER (
+    PARTITION BY created_by, place_provider, place_id
+    ORDER BY created_at, id
+  ) AS keep_id
+  FROM restaurants
+  WHERE place_id IS NOT NULL
+)
+UPDATE media
+SET restaurant_id = duplicates.keep_id
+FROM duplicates
+WHERE media.restaurant_id = duplicates.id
+  AND duplicates.id <> duplicates.keep_id;
+
+DELETE FROM restaurants r
+USING restaurants kept
+WHERE r.place_id IS NOT NULL
+  AND kept.created_by = r.created_by
+  AND kept.place_provider = r.place_provider
+  AND kept.place_id = r.place_id
+  AND (kept.created_at, kept.id) < (r.created_at, r.id);
+
+DROP INDEX IF EXISTS idx_restaurants_place;
+CREATE UNIQUE INDEX IF NOT EXISTS restaurants_owner_place_key
+  ON restaurants (created_by, place_provider, place_id)
+  WHERE place_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION upsert_restaurant(
+  p_name TEXT,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_created_by UUID,
+  p_address TEXT DEFAULT NULL,
+  p_place_provider TEXT DEFAULT 'manual',
+  p_place_id TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT '{}',
+  match_radius_m DOUBLE PRECISION DEFAULT 75,
+  min_name_similarity DOUBLE PRECISION DEFAULT 0.5
+)
+RETURNS restaurants AS $$
+DECLARE
+  existing restaurants;
+BEGIN
+  IF p_place_id IS NOT NULL THEN
+    SELECT * INTO existing
+    FROM restaurants
+    WHERE created_by = p_created_by
+      AND place_provider = p_place_provider
+      AND place_id = p_place_id;
+  END IF;
+
+  -- Fuzzy fallback; 0,0 means the location is still unknown
+  IF existing.id IS NULL AND NOT (p_lat = 0 AND p_lng = 0) THEN
+    SELECT r.* INTO existing
+    FROM restaurants r
+    WHERE r.created_by = p_created_by
+      AND similarity(lower(r.name), lower(p_name)) >= min_name_similarity
+      AND 2 * 6371000 * asin(sqrt(
+            power(sin(radians(r.lat - p_lat) / 2), 2) +
+            cos(radians(p_lat)) * cos(radians(r.lat)) * power(sin(radians(r.lng - p_lng) / 2), 2)
+          )) <= match_radius_m
+    ORDER BY similarity(lower(r.name), lower(p_name)) DESC
+    LIMIT 1;
+  END IF;
+
+  IF existing.id IS NOT NULL THEN
+    UPDATE restaurants
+    SET tags = ARRAY(SELECT DISTINCT unnest(tags || p_tags)),
+        address = COALESCE(address, p_address),
+        place_provider = CASE WHEN place_id IS NULL AND p_place_id IS NOT NULL THEN p_place_provider ELSE place_provider END,
+        place_id = COALESCE(place_id, p_place_id)
+    WHERE id = existing.id
+    RETURNING * INTO existing;
+    RETURN existing;
+  END IF;
+
+  -- A concurrent import of the same place may have inserted it since the
+  -- lookup; attach to that row instead of failing
+  INSERT INTO restaurants (name, address, lat, lng, place_provider, place_id, tags, created_by)
+  VALUES (p_name, p_address, p_lat, p_lng, p_place_provider, p_place_id, p_tags, p_created_by)
+  ON CONFLICT (created_by, place_provider, place_id) WHERE place_id IS NOT NULL DO UPDATE
+  SET tags = ARRAY(SELECT DISTINCT unnest(restaurants.tags || EXCLUDED.tags)),
+      address = COALESCE(restaurants.address, EXCLUDED.address)
+  RETURNING * INTO existing;
+  RETURN existing;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The location bias of a search, rounded to 0.1° ("59.3,18.1"), is part of
+-- the place_cache key: the same query near another branch of a chain
+-- returns other places. NULL for searches without a location.
+ALTER TABLE place_cache ADD COLUMN IF NOT EXISTS location_bucket TEXT;
+DROP INDEX IF EXISTS idx_place_cache_lookup;
+CREATE INDEX IF NOT EXISTS idx_place_cache_lookup ON place_cache(normalized_query, provider, country, city, location_bucket, created_at DESC);
+
+DROP FUNCTION IF EXISTS replace_place_cache(TEXT, TEXT, TEXT, TEXT, JSONB);
+CREATE OR REPLACE FUNCTION replace_place_cache(
+  p_normalized_query TEXT,
+  p_provider TEXT,
+  p_country TEXT,
+  p_city TEXT,
+  p_location_bucket TEXT,
+  p_places JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(concat_ws('|', p_normalized_query, p_provider, p_country, p_city, p_location_bucket)));
+
+  DELETE FROM place_cache
+  WHERE normalized_query = p_normalized_query
+    AND provider = p_provider
+    AND country IS NOT DISTINCT FROM p_country
+    AND city IS NOT DISTINCT FROM p_city
+    AND location_bucket IS NOT DISTINCT FROM p_location_bucket;
+
+  IF jsonb_array_length(p_places) = 0 THEN
+    INSERT INTO place_cache (normalized_query, provider, country, city, location_bucket)
+    VALUES (p_normalized_query, p_provider, p_country, p_city, p_location_bucket);
+    RETURN;
+  END IF;
+
+  INSERT INTO place_cache (normalized_query, provider, country, city, location_bucket, place_id, name, address, lat, lng, rating, rating_count, types)
+  SELECT p_normalized_query, p_provider, p_country, p_city, p_location_bucket,
+         p.place_id, p.name, p.address, p.lat, p.lng, p.rating, p.rating_count, p.types
+  FROM jsonb_to_recordset(p_places) AS p(
+    place_id TEXT,
+    name TEXT,
+    address TEXT,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    rating DOUBLE PRECISION,
+    rating_count INTEGER,
+    types TEXT[]
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION replace_place_cache(TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) FROM public, anon, authenticated;
+
+-- A failed import (status 'error') doesn't hold on to its fingerprint, so
+-- the same link or file can be imported again
+DROP INDEX IF EXISTS media_user_content_fingerprint_key;
+CREATE UNIQUE INDEX IF NOT EXISTS media_user_content_fingerprint_key
+  ON media (user_id, content_fingerprint)
+  WHERE content_fingerprint IS NOT NULL AND status <> 'error';
+
+-- The creator of an imported post, set by import_url when it saves the row.
+-- Creator priors are counted under these, never under what a caller says,
+-- and only the service role can set them: the app's own writes to media
+-- leave them as they were.
+ALTER TABLE media ADD COLUMN IF NOT EXISTS creator_platform TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS creator_handle TEXT;
+UPDATE media
+SET creator_platform = source_app,
+    creator_handle = lower(COALESCE(substring(canonical_url FROM '/@([\w.-]+)'), ltrim(metadata->>'author', '@')))
+WHERE creator_handle IS NULL AND source_app IS NOT NULL AND canonical_url IS NOT NULL
+  AND COALESCE(substring(canonical_url FROM '/@([\w.-]+)'), ltrim(metadata->>'author', '@'), '') <> '';
+
+CREATE OR REPLACE FUNCTION keep_media_creator()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.creator_platform := NULL;
+    NEW.creator_handle := NULL;
+    NEW.creator_city := NULL;
+  ELSE
+    NEW.creator_platform := OLD.creator_platform;
+    NEW.creator_handle := OLD.creator_handle;
+    NEW.creator_city := OLD.creator_city;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_media_creator ON media;
+CREATE TRIGGER keep_media_creator
+  BEFORE INSERT OR UPDATE ON media
+  FOR EACH ROW EXECUTE FUNCTION keep_media_creator();
+
+-- record_creator_city() now reads the creator from the media row, and the
+-- count moved off a row is taken from the same creator. Only the edge
+-- functions call it, with the city nearest the row's restaurant.
+DROP FUNCTION IF EXISTS record_creator_city(UUID, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE OR REPLACE FUNCTION record_creator_city(
+  p_media_id UUID,
+  p_city TEXT,
+  p_country TEXT,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION
+)
+RETURNS VOID AS $$
+DECLARE
+  m media;
+  v_key TEXT := p_city || '|' || p_country;
+BEGIN
+  SELECT * INTO m FROM media WHERE id = p_media_id FOR UPDATE;
+  IF m.id IS NULL OR m.restaurant_id IS NULL OR m.creator_handle IS NULL THEN
+    RETURN;
+  END IF;
+  IF m.creator_city = v_key THEN
+    RETURN;
+  END IF;
+
+  IF m.creator_city IS NOT NULL THEN
+    UPDATE creator_profiles
+    SET confirmations = GREATEST(confirmations - 1, 0),
+        updated_at = NOW()
+    WHERE platform = m.creator_platform
+      AND handle = m.creator_handle
+      AND city = split_part(m.creator_city, '|', 1)
+      AND country = split_part(m.creator_city, '|', 2);
+  END IF;
+
+  INSERT INTO creator_profiles (platform, handle, city, country, lat, lng, confirmations)
+  VALUES (m.creator_platform, m.creator_handle, p_city, p_country, p_lat, p_lng, 1)
+  ON CONFLICT (platform, handle, city, country) DO UPDATE
+  SET confirmations = creator_profiles.confirmations + 1,
+      updated_at = NOW();
+
+  UPDATE media SET creator_city = v_key WHERE id = p_media_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_creator_city(UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION) FROM public, anon, authenticated;
+
+-- The cache is written only through replace_place_cache(), which the edge
+-- functions call with the service role (it bypasses RLS). The open insert
+-- policy let any client plant cache entries for other users' searches.
+DROP POLICY IF EXISTS "place_cache_admin_write" ON place_cache;
@@ -0,0 +1,216 @@
+// Street addresses in OCR text and captions, in the formats of the
+// countries the app is used in:
+//
+//   SE  Götgatan 43, 118 26 Stockholm      DK  Øster Farimagsgade 10, 2100 København Ø
+//   NO  Waldemar Thranes gate 8, 0171 Oslo FI  Mannerheimintie 12, 00100 Helsinki
+//   DE  Mehringdamm 36, 10961 Berlin       FR  7 rue du Faubourg Montmartre, 75009 Paris
+//   GB  6-8 Hanbury Street, London E1 6QR  US  205 E Houston St, New York, NY 10002
+//
+// A sign often puts the postcode and city on the next line, so the street
+// and the rest may be split by a comma, spaces or one line break. Street
+// words are matched as written, in Title Case or in capitals, never
+// anywhere in running lowercase text. Like ocr.ts this file is import-free
+// so both Deno and React Native can load it.
+
+export interface ParsedAddress {
+  // As written, line breaks included
+  text: string;
+  index: number;
+  street: string;
+  number: string;
+  postcode: string | null;
+  city: string | null;
+  // US state code
+  state: string | null;
+  // ISO code of the format that matched; null when a street alone fits
+  // more than one country's format
+  country: string | null;
+  // Offset of the city in the text, for telling it apart from the street
+  city_index: number | null;
+  // Street, number, postcode and city are all there: precise enough to
+  // geocode without knowing the venue's name
+  complete: boolean;
+}
+
+interface AddressFormat {
+  country: string;
+  // Named groups: street, number
+  street: string;
+  // Named groups: postcode, city and optionally state
+  rest: string;
+}
+
+// A word as written on a sign: "Götgatan", "GÖTGATAN"
+function cased(words: string[]): string {
+  return words
+    .flatMap(word => [word, word.toUpperCase(), word.charAt(0).toUpperCase() + word.slice(1)])
+    .filter((word, i, all) => all.indexOf(word) === i)
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/\./g, '\\.'))
+    .join('|');
+}
+
+const WORD = "\\p{Lu}[\\p{L}'’-]*";
+const CITY = `${WORD}(?:[ ]${WORD}){0,2}`;
+// 43, 43B, 43 B, 6-8
+const NUMBER = '\\d{1,4}(?:-\\d{1,4}|[ ]?[A-Za-z](?![\\p{L}\\p{N}]))?';
+// Between the street and the postcode or city
+const BREAK = '(?:[ ]*,[ ]*|[ ]*\\n[ ]*|[ ]+)';
+
+// Street names ending in a street word ("Hornsgatan"), optionally after one
+// more word ("Øster Farimagsgade"), or followed by it ("Thranes gate")
+function suffixedStreet(attached: string[], separate: string[] = []): string {
+  const forms = [`(?:${WORD}[ ])?\\p{Lu}[\\p{L}-]*(?:${cased(attached)})`];
+  if (separate.length > 0) forms.push(`(?:${WORD}[ ]){1,3}(?:${cased(separate)})`);
+  return `(?<street>${forms.join('|')})[ ](?<number>${NUMBER})`;
+}
+
+// Number first: "205 East Houston Street", "12 bis rue de Rivoli"
+function numberedStreet(types: string[]): string {
+  return `(?<number>${NUMBER})[ ](?<street>(?:(?:N|S|E|W|North|South|East|West)\\.?[ ])?(?:${WORD}[ ]){1,3}(?:${cased(types)})\\b\\.?)`;
+}
+
+// "København Ø", "Stockholm"
+const NORDIC_REST = (postcode: string) => `(?<postcode>${postcode})[ ](?<city>${CITY}(?:[ ]\\p{Lu}(?!\\p{L}))?)`;
+
+export const ADDRESS_FORMATS: AddressFormat[] = [
+  {
+    country: 'SE',
+    street: suffixedStreet(
+      ['gatan', 'vägen', 'gränd', 'torget', 'torg', 'plan', 'backe', 'backen', 'allén', 'stigen', 'kajen', 'gata', 'väg', 'leden'],
+      ['gata', 'väg', 'torg', 'allé']
+    ),
+    rest: NORDIC_REST('\\d{3}[ ]?\\d{2}'),
+  },
+  {
+    country: 'DK',
+    street: suffixedStreet(['gade', 'vej', 'allé', 'plads', 'torv', 'stræde', 'vænge'], ['Allé', 'Plads']),
+    rest: NORDIC_REST('(?:DK-)?\\d{4}'),
+  },
+  {
+    country: 'NO',
+    street: suffixedStreet(['gate', 'gata', 'veien', 'vei', 'vegen', 'plass', 'torg', 'bakken', 'brygge'], ['gate', 'gata', 'vei', 'plass', 'allé', 'torg']),
+    rest: NORDIC_REST('(?:NO-)?\\d{4}'),
+  },
+  {
+    country: 'FI',
+    street: suffixedStreet(['katu', 'tie', 'kuja', 'polku', 'tori', 'väylä', 'ranta', 'puistikko', 'kaari', 'rinne']),
+    rest: NORDIC_REST('\\d{5}'),
+  },
+  {
+    country: 'DE',
+    street: suffixedStreet(['straße', 'strasse', 'str.', 'weg', 'allee', 'platz', 'damm', 'ufer', 'gasse', 'chaussee', 'markt'], ['Straße', 'Strasse', 'Allee', 'Platz']),
+    rest: `(?<postcode>(?:D-)?\\d{5})[ ](?<city>${CITY})`,
+  },
+  {
+    country: 'FR',
+    street: `(?<number>\\d{1,4}(?:[ ]?(?:bis|ter))?),?[ ](?<street>(?:${cased(['rue', 'avenue', 'av.', 'boulevard', 'bd', 'place', 'quai', 'allée', 'impasse', 'chemin', 'cours', 'passage'])})(?:[ ][\\p{L}'’-]+){1,5})`,
+    rest: `(?<postcode>\\d{5})[ ](?<city>${CITY})`,
+  },
+  {
+    country: 'US',
+    street: numberedStreet(['Street', 'St', 'Avenue', 'Ave', 'Road', 'Rd', 'Boulevard', 'Blvd', 'Lane', 'Ln', 'Drive', 'Dr', 'Way', 'Place', 'Pl', 'Court', 'Ct', 'Parkway', 'Pkwy', 'Highway', 'Hwy']),
+    rest: `(?<city>${CITY}),?[ ](?<state>[A-Z]{2})[ ](?<postcode>\\d{5}(?:-\\d{4})?)`,
+  },
+  {
+    country: 'GB',
+    street: numberedStreet(['Street', 'St', 'Road', 'Rd', 'Lane', 'Avenue', 'Place', 'Square', 'Row', 'Way', 'Terrace', 'Gardens', 'Hill', 'Close', 'Crescent', 'Walk', 'Yard', 'Mews', 'Market', 'Parade', 'Grove']),
+    rest: `(?:(?<city>${CITY})${BREAK})?(?<postcode>[A-Z]{1,2}\\d[A-Z\\d]?[ ]?\\d[A-Z]{2})\\b`,
+  },
+];
+
+function overlapping(a: ParsedAddress, b: ParsedAddress): boolean {
+  return a.index < b.index + b.text.length && b.index < a.index + a.text.length;
+}
+
+export class AddressParser {
+  private readonly patterns: Array<{ country: string; full: RegExp; street: RegExp }>;
+
+  constructor(formats: AddressFormat[] = ADDRESS_FORMATS) {
+    this.patterns = formats.map(format => ({
+      country: format.country,
+      full: new RegExp(`${format.street}${BREAK}${format.rest}`, 'gu'),
+      street: new RegExp(format.street, 'gu'),
+    }));
+  }
+
+  /**
+   * Every address in the text, in order. Where formats overlap the complete
+   * address wins, then the longer one.
+   */
+  parse(text: string): ParsedAddress[] {
+    const found: ParsedAddress[] = [];
+
+    for (const { country, full } of this.patterns) {
+      for (const match of text.matchAll(full)) found.push(this.toAddress(text, match, country));
+    }
+
+    const streets = new Map<string, ParsedAddress>();
+    for (const { country, street } of this.patterns) {
+      for (const match of text.matchAll(street)) {
+        const address = this.toAddress(text, match, country);
+        const key = `${address.index}-${address.text.length}`;
+        // "205 Houston Street" fits both the US and the UK format
+        const existing = streets.get(key);
+        streets.set(key, existing ? { ...existing, country: null } : address);
+      }
+    }
+    found.push(...streets.values());
+
+    const ranked = found.sort((a, b) =>
+      Number(b.complete) - Number(a.complete) || b.text.length - a.text.length || a.index - b.index
+    );
+    const kept: ParsedAddress[] = [];
+    for (const address of ranked) {
+      if (!kept.some(other => overlapping(other, address))) kept.push(address);
+    }
+    return kept.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * The first address complete enough to geocode on its own, or null
+   */
+  findFullAddress(text: string): ParsedAddress | null {
+    return this.parse(text).find(address => address.complete) ?? null;
+  }
+
+  /**
+   * One-line form for a geocoder: "Götgatan 43, 118 26 Stockholm, SE"
+   */
+  format(address: ParsedAddress): string {
+    if (!address.complete) return address.text.replace(/[ ]*\n[ ]*/g, ', ');
+
+    const numberFirst = address.country === 'FR' || address.country === 'US' || address.country === 'GB';
+    const parts = [numberFirst ? `${address.number} ${address.street}` : `${address.street} ${address.number}`];
+    if (address.country === 'US') {
+      parts.push(address.city!, `${address.state} ${address.postcode}`);
+    } else if (address.country === 'GB') {
+      parts.push(address.city ?? '', address.postcode!);
+    } else {
+      parts.push(`${address.postcode} ${address.city}`);
+    }
+    if (address.country) parts.push(address.country);
+    return parts.filter(Boolean).join(', ');
+  }
+
+  private toAddress(text: string, match: RegExpMatchArray, country: string): ParsedAddress {
+    const groups = match.groups ?? {};
+    const index = match.index ?? 0;
+    const matched = match[0].replace(/[\s,]+$/, '');
+    const city = groups.city ?? null;
+    const postcode = groups.postcode ?? null;
+
+    return {
+      text: matched,
+      index,
+      street: groups.street.trim(),
+      number: groups.number,
+      postcode,
+      city,
+      state: groups.state ?? null,
+      country,
+      city_index: city ? index + matched.lastIndexOf(city) : null,
+      complete: Boolean(postcode && city),
+    };
+  }
+}
@@ -0,0 +1,103 @@
+// Confidence of the media pipeline's best match, computed from the evidence
+// behind it rather than fixed per code path: how well the frames read, how
+// sure the entity extractor is of the venue, whether the sources naming a
+// city agree, how precisely the place was located and how far it is from
+// the user. A logistic model over those features, fitted to imports users
+// confirmed or rejected (see
+// supabase/scripts/calibrate-analysis-confidence.ts), so a confidence of 0.7
+// means about 7 in 10 such matches were kept. The pipeline stores the
+// evidence and confidence in media.match_explanation, and auto-confirms only
+// above the mode's minimum confidence (autoConfirm.ts). Like ocr.ts this
+// file is import-free.
+
+// How precisely the media located the place: a full address read and
+// geocoded, a city read (or the creator's usual city), or neither
+export type GeocodePrecision = 'address' | 'city' | 'none';
+
+export interface AnalysisEvidence {
+  // Mean OCR confidence over the frames that had text, null without OCR
+  ocr_quality: number | null;
+  // Calibrated confidence of the venue name, null when none was read
+  venue_confidence: number | null;
+  // The creator's share of confirmed imports in the city used, shrunk
+  // towards 0 until they have a handful (0 without a learned prior)
+  prior_strength: number;
+  // Independent sources (on-screen city, address, location tag, creator
+  // prior) naming the city of the place, and naming another city
+  agreeing_sources: number;
+  conflicting_sources: number;
+  geocode_precision: GeocodePrecision;
+  // From the request's location (the user, or the post's geotag) to the
+  // place, null without one
+  distance_km: number | null;
+}
+
+export const CONFIDENCE_FEATURES = [
+  'ocr_quality',
+  'venue',
+  'prior',
+  'agreement',
+  'conflict',
+  'address',
+  'city',
+  'nearby',
+] as const;
+
+export type ConfidenceFeature = typeof CONFIDENCE_FEATURES[number];
+
+// confidence = 1 / (1 + e^-(bias + Σ weight * feature))
+export interface ConfidenceModel {
+  weights: Record<ConfidenceFeature, number>;
+  bias: number;
+}
+
+// Fitted on _shared/fixtures/analysisOutcomeFixtures.ts with
+// calibrate-analysis-confidence.ts
+export const ANALYSIS_CONFIDENCE_MODEL: ConfidenceModel = {
+  weights: {
+    ocr_quality: 0.54,
+    venue: 1.7,
+    prior: 1.88,
+    agreement: 1.57,
+    conflict: -0.33,
+    address: 0.85,
+    city: 0.82,
+    nearby: 1.12,
+  },
+  bias: -1.83,
+};
+
+export const NO_EVIDENCE: AnalysisEvidence = {
+  ocr_quality: null,
+  venue_confidence: null,
+  prior_strength: 0,
+  agreeing_sources: 0,
+  conflicting_sources: 0,
+  geocode_precision: 'none',
+  distance_km: null,
+};
+
+// Each feature in [0, 1] except nearby, which is +1 on the spot, 0 around
+// 35 km away and -1 far away, so an unknown distance counts as neither
+export function confidenceFeatures(evidence: AnalysisEvidence): Record<ConfidenceFeature, number> {
+  return {
+    ocr_quality: evidence.ocr_quality ?? 0,
+    venue: evidence.venue_confidence ?? 0,
+    prior: evidence.prior_strength,
+    // A second and third source agreeing count, more don't
+    agreement: Math.min(Math.max(evidence.agreeing_sources - 1, 0), 2) / 2,
+    conflict: Math.min(evidence.conflicting_sources, 2) / 2,
+    address: evidence.geocode_precision === 'address' ? 1 : 0,
+    city: evidence.geocode_precision === 'city' ? 1 : 0,
+    nearby: evidence.distance_km === null ? 0 : 2 * Math.exp(-evidence.distance_km / 50) - 1,
+  };
+}
+
+/**
+ * Calibrated probability that the user keeps the place the analysis suggests
+ */
+export function analysisConfidence(evidence: AnalysisEvidence, model: ConfidenceModel = ANALYSIS_CONFIDENCE_MODEL): number {
+  const features = confidenceFeatures(evidence);
+  const logit = CONFIDENCE_FEATURES.reduce((sum, feature) => sum + model.weights[feature] * features[feature], model.bias);
+  return 1 / (1 + Math.exp(-logit));
+}
@@ -0,0 +1,155 @@
+// Per-user auto-confirm setting and the explanation process_media returns
+// (and stores on the media row) for why a match was or wasn't pinned. The
+// app reads the modes from here too, so like ocr.ts this file only has type
+// imports.
+
+import type { AnalysisEvidence } from './analysisConfidence.ts';
+import type { ScoredPlace } from './scoring.ts';
+
+export type AutoConfirmMode = 'off' | 'conservative' | 'aggressive';
+
+export const AUTO_CONFIRM_MODES: AutoConfirmMode[] = ['off', 'conservative', 'aggressive'];
+
+// Minimum score to pin a match without asking; null never auto-confirms
+export const AUTO_CONFIRM_THRESHOLDS: Record<AutoConfirmMode, number | null> = {
+  off: null,
+  conservative: 0.75,
+  aggressive: 0.65,
+};
+
+// Minimum analysis confidence (the calibrated chance the user keeps the
+// match, see analysisConfidence.ts) to pin a match without asking
+export const AUTO_CONFIRM_CONFIDENCE: Record<AutoConfirmMode, number | null> = {
+  off: null,
+  conservative: 0.7,
+  aggressive: 0.5,
+};
+
+export const DEFAULT_AUTO_CONFIRM_MODE: AutoConfirmMode = 'conservative';
+
+export type MatchDecision =
+  | 'confirmed'
+  | 'below_threshold'
+  // The name matched well but the rest of the evidence is too thin
+  | 'low_confidence'
+  | 'auto_confirm_off'
+  | 'no_candidates'
+  | 'no_places'
+  // A full address was read and geocoded but no place is listed at it
+  | 'address_only';
+
+export interface MatchBonus {
+  kind: 'distance' | 'category' | 'rating_count';
+  // Points added to the 0-1 score
+  contribution: number;
+  detail: string;
+}
+
+export interface MatchExplanation {
+  decision: MatchDecision;
+  auto_confirm: {
+    mode: AutoConfirmMode;
+    threshold: number | null;
+    min_confidence: number | null;
+  };
+  best_match: {
+    name: string;
+    place_id: string;
+    score: number;
+    // The OCR line the place name matched
+    matched_text: string;
+    similarity: {
+      token_set: number;
+      jaro_winkler: number;
+      // Points the name similarity added to the score
+      contribution: number;
+    };
+    bonuses: MatchBonus[];
+  } | null;
+  // Full address read in the media and geocoded; the names were searched at it
+  matched_address?: string;
+  // Calibrated chance the user keeps the best match, and what it was computed from
+  confidence?: number;
+  evidence?: AnalysisEvidence;
+}
+
+// The user's auto_confirm setting, or the default when they haven't set one
+export async function getAutoConfirmMode(supabase: any, userId: string | undefined): Promise<AutoConfirmMode> {
+  if (!userId) return DEFAULT_AUTO_CONFIRM_MODE;
+
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('auto_confirm')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load user settings:', error);
+    return DEFAULT_AUTO_CONFIRM_MODE;
+  }
+
+  return AUTO_CONFIRM_MODES.includes(data?.auto_confirm) ? data.auto_confirm : DEFAULT_AUTO_CONFIRM_MODE;
+}
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m away` : `${(meters / 1000).toFixed(1)} km away`;
+}
+
+// Decide whether the best match should be auto-confirmed: its score must
+// clear the mode's threshold and the analysis confidence its minimum
+export function decideMatch(bestMatch: ScoredPlace | undefined, mode: AutoConfirmMode, confidence: number): MatchDecision {
+  if (!bestMatch) return 'no_places';
+  const threshold = AUTO_CONFIRM_THRESHOLDS[mode];
+  const minConfidence = AUTO_CONFIRM_CONFIDENCE[mode];
+  if (threshold === null || minConfidence === null) return 'auto_confirm_off';
+  if (bestMatch.score < threshold) return 'below_threshold';
+  return confidence >= minConfidence ? 'confirmed' : 'low_confidence';
+}
+
+export function explainMatch(
+  decision: MatchDecision,
+  mode: AutoConfirmMode,
+  bestMatch?: ScoredPlace
+): MatchExplanation {
+  const explanation: MatchExplanation = {
+    decision,
+    auto_confirm: { mode, threshold: AUTO_CONFIRM_THRESHOLDS[mode], min_confidence: AUTO_CONFIRM_CONFIDENCE[mode] },
+    best_match: null,
+  };
+  if (!bestMatch) return explanation;
+
+  const { components, contributions } = bestMatch;
+  const bonuses: MatchBonus[] = [];
+
+  if (contributions.distance !== undefined && bestMatch.distance_m !== null) {
+    bonuses.push({ kind: 'distance', contribution: contributions.distance, detail: formatDistance(bestMatch.distance_m) });
+  }
+  if (contributions.category !== undefined) {
+    bonuses.push({
+      kind: 'category',
+      contribution: contributions.category,
+      detail: components.category > 0 ? 'Listed as a food place' : 'Not listed as a food place',
+    });
+  }
+  if (contributions.rating_count !== undefined) {
+    bonuses.push({
+      kind: 'rating_count',
+      contribution: contributions.rating_count,
+      detail: `${bestMatch.rating_count} ratings`,
+    });
+  }
+
+  explanation.best_match = {
+    name: bestMatch.name,
+    place_id: bestMatch.place_id,
+    score: bestMatch.score,
+    matched_text: bestMatch.matched_text,
+    similarity: {
+      token_set: components.token_set,
+      jaro_winkler: components.jaro_winkler,
+      contribution: (contributions.token_set ?? 0) + (contributions.jaro_winkler ?? 0),
+    },
+    bonuses,
+  };
+  return explanation;
+}
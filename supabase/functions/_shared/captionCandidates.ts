@@ -0,0 +1,31 @@
+// Turn caption signals from a URL import into place candidates, so captions
+// go through the same POI extraction and place search as OCR text.
+
+import { OCRPage, pageFromText } from './ocr.ts';
+import { CaptionSignals } from './socialMetadata.ts';
+import { compareKey } from './text.ts';
+
+// Captions are typed rather than read from pixels
+const CAPTION_CONFIDENCE = 1;
+
+// The caption as an extra "frame" for extractPOICandidates: its lines
+// without hashtags, then each @mention on its own line (often the
+// restaurant's handle). Hashtags are mostly generic (#foodie, #stockholm)
+// so they are left out.
+export function captionPage(signals: CaptionSignals): OCRPage {
+  const lines = signals.caption
+    .split('\n')
+    .map(line => line.replace(/#[\p{L}\p{N}_]+/gu, '').replace(/@[\p{L}\p{N}_.]+/gu, '').trim())
+    .filter(line => line.length > 0);
+
+  return pageFromText([...lines, ...signals.mentions.map(mention => `@${mention}`)].join('\n'), CAPTION_CONFIDENCE);
+}
+
+// A location tag names the place outright, so it is searched first
+export function withLocationTag(candidates: string[], signals?: CaptionSignals): string[] {
+  const locationTag = signals?.location_tag;
+  if (!locationTag) return candidates;
+
+  const key = compareKey(locationTag);
+  return [locationTag, ...candidates.filter(candidate => compareKey(candidate) !== key)];
+}
@@ -0,0 +1,125 @@
+// Calibration of the analysis confidence model against imports users
+// confirmed or rejected, the logistic regression that fits it, and
+// cross-validation of the fit on outcomes it wasn't fitted to.
+
+import {
+  analysisConfidence,
+  CONFIDENCE_FEATURES,
+  ConfidenceModel,
+  confidenceFeatures,
+} from './analysisConfidence.ts';
+import { MatchExplanation } from './autoConfirm.ts';
+import { calibrationError } from './entityEvaluation.ts';
+import { AnalysisOutcome } from './fixtures/analysisOutcomeFixtures.ts';
+
+export interface ConfidenceEvaluation {
+  // Mean |confidence - share confirmed| over confidence bins, weighted by size
+  calibration_error: number;
+  // Mean squared error of the confidence against the outcome
+  brier: number;
+  // Share of outcomes on the right side of the threshold
+  accuracy: number;
+  threshold: number;
+  outcomes: Array<AnalysisOutcome & { confidence: number }>;
+}
+
+export function evaluateConfidence(
+  outcomes: AnalysisOutcome[],
+  model: ConfidenceModel,
+  options: { threshold?: number } = {}
+): ConfidenceEvaluation {
+  const scored = outcomes.map(outcome => ({ ...outcome, confidence: analysisConfidence(outcome.evidence, model) }));
+  return summarize(scored, options.threshold ?? 0.5);
+}
+
+function summarize(scored: ConfidenceEvaluation['outcomes'], threshold: number): ConfidenceEvaluation {
+  const samples = scored.map(outcome => ({ confidence: outcome.confidence, correct: outcome.confirmed }));
+
+  return {
+    calibration_error: calibrationError(samples),
+    brier: scored.reduce((sum, outcome) => sum + (outcome.confidence - Number(outcome.confirmed)) ** 2, 0) / scored.length,
+    accuracy: scored.filter(outcome => (outcome.confidence >= threshold) === outcome.confirmed).length / scored.length,
+    threshold,
+    outcomes: scored,
+  };
+}
+
+// Logistic regression of the outcome on the evidence features, by gradient
+// descent. A little L2 shrinkage keeps a feature that only a few outcomes
+// have from taking an extreme weight.
+export function fitConfidenceModel(outcomes: AnalysisOutcome[], iterations = 20000, l2 = 0.01): ConfidenceModel {
+  const rows = outcomes.map(outcome => ({ features: confidenceFeatures(outcome.evidence), confirmed: outcome.confirmed }));
+  const weights = Object.fromEntries(CONFIDENCE_FEATURES.map(feature => [feature, 0])) as ConfidenceModel['weights'];
+  let bias = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const gradients = Object.fromEntries(CONFIDENCE_FEATURES.map(feature => [feature, 0])) as ConfidenceModel['weights'];
+    let biasGradient = 0;
+
+    for (const row of rows) {
+      const logit = CONFIDENCE_FEATURES.reduce((sum, feature) => sum + weights[feature] * row.features[feature], bias);
+      const error = 1 / (1 + Math.exp(-logit)) - Number(row.confirmed);
+      for (const feature of CONFIDENCE_FEATURES) gradients[feature] += error * row.features[feature];
+      biasGradient += error;
+    }
+
+    for (const feature of CONFIDENCE_FEATURES) {
+      weights[feature] -= 0.5 * (gradients[feature] / rows.length + l2 * weights[feature]);
+    }
+    bias -= 0.5 * biasGradient / rows.length;
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    weights: Object.fromEntries(CONFIDENCE_FEATURES.map(feature => [feature, round(weights[feature])])) as ConfidenceModel['weights'],
+    bias: round(bias),
+  };
+}
+
+/**
+ * k-fold cross-validation: each fold is scored by a model fitted to the
+ * other folds, so the calibration reported is on held-out outcomes
+ */
+export function crossValidateConfidence(
+  outcomes: AnalysisOutcome[],
+  options: { folds?: number; threshold?: number; iterations?: number } = {}
+): ConfidenceEvaluation {
+  const folds = Math.min(options.folds ?? 5, outcomes.length);
+  const heldOut: ConfidenceEvaluation['outcomes'] = [];
+
+  for (let fold = 0; fold < folds; fold++) {
+    const training = outcomes.filter((_, i) => i % folds !== fold);
+    const model = fitConfidenceModel(training, options.iterations);
+    heldOut.push(...outcomes
+      .filter((_, i) => i % folds === fold)
+      .map(outcome => ({ ...outcome, confidence: analysisConfidence(outcome.evidence, model) })));
+  }
+
+  return summarize(heldOut, options.threshold ?? 0.5);
+}
+
+export interface StoredImport {
+  id: string;
+  match_explanation: MatchExplanation | null;
+  restaurants: { place_id: string | null } | null;
+}
+
+/**
+ * Outcomes from confirmed media rows: imports the pipeline asked about and
+ * the user then pinned, kept when they picked the suggested best match. A
+ * pin of their own (a manual restaurant, with no place id) rejects it.
+ * Auto-confirmed rows say nothing about the user, and rows stored before
+ * the evidence was recorded can't be used.
+ */
+export function outcomesFromImports(rows: StoredImport[]): AnalysisOutcome[] {
+  return rows.flatMap(row => {
+    const explanation = row.match_explanation;
+    if (!explanation?.evidence || !explanation.best_match || explanation.decision === 'confirmed') return [];
+    if (!row.restaurants) return [];
+    return [{
+      id: row.id,
+      evidence: explanation.evidence,
+      confirmed: row.restaurants.place_id === explanation.best_match.place_id,
+    }];
+  });
+}
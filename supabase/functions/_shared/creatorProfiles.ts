@@ -0,0 +1,129 @@
+// Creator location priors learned from confirmed imports. Each time an
+// import from @creator is pinned to a restaurant, the city the restaurant is
+// in is counted for that creator (record_creator_city() in the database).
+// The creator is saved on the media row when the link is imported. Counting
+// needs the service role, so only the edge functions record cities. The
+// caller passes its own Supabase client and gazetteer, so this module only
+// imports the gazetteer's type.
+
+import type { Gazetteer } from './gazetteer.ts';
+
+export interface CreatorCity {
+  city: string;
+  country: string;
+  lat: number;
+  lng: number;
+  confirmations: number;
+  // confirmations / total
+  share: number;
+}
+
+export interface CreatorLocationPrior {
+  platform: string;
+  handle: string;
+  total: number;
+  // Most confirmed first
+  cities: CreatorCity[];
+}
+
+interface CreatorMedia {
+  source_app?: string | null;
+  canonical_url?: string | null;
+  metadata?: { author?: string | null } | null;
+}
+
+// "@Foodie.Sthlm" -> "foodie.sthlm"
+export function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * The creator of an imported post: the @user in a TikTok URL, else the
+ * author read from the post. Uploads have no creator.
+ */
+export function creatorOf(media: CreatorMedia): { platform: string; handle: string } | null {
+  if (!media.source_app || !media.canonical_url) return null;
+
+  const fromUrl = media.canonical_url.match(/\/@([\w.-]+)/)?.[1];
+  const handle = normalizeHandle(fromUrl ?? media.metadata?.author ?? '');
+  return handle ? { platform: media.source_app, handle } : null;
+}
+
+/**
+ * Count the city of a media row's confirmed restaurant for the post's
+ * creator. Returns false when there's nothing to count: an upload, no
+ * restaurant yet, or a restaurant without a known city nearby. Needs a
+ * service role client.
+ */
+export async function recordCreatorCity(supabase: any, gazetteer: Gazetteer, mediaId: string): Promise<boolean> {
+  const { data: media, error } = await supabase
+    .from('media')
+    .select('creator_handle, restaurant_id')
+    .eq('id', mediaId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load media for creator profile: ${error.message}`);
+  }
+
+  if (!media.creator_handle || !media.restaurant_id) return false;
+
+  const { data: restaurant } = await supabase
+    .from('restaurants')
+    .select('lat, lng')
+    .eq('id', media.restaurant_id)
+    .single();
+
+  // Restaurants created from OCR text alone sit at 0,0 until placed
+  if (!restaurant || (restaurant.lat === 0 && restaurant.lng === 0)) return false;
+
+  const city = gazetteer.nearest(restaurant.lat, restaurant.lng);
+  if (!city) return false;
+
+  const { error: rpcError } = await supabase.rpc('record_creator_city', {
+    p_media_id: mediaId,
+    p_city: city.name,
+    p_country: city.country,
+    p_lat: city.lat,
+    p_lng: city.lng,
+  });
+
+  if (rpcError) {
+    throw new Error(`Failed to record creator city: ${rpcError.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Where a creator's confirmed imports are, or null when none are
+ */
+export async function getCreatorLocationPrior(
+  supabase: any,
+  platform: string,
+  handle: string
+): Promise<CreatorLocationPrior | null> {
+  const key = normalizeHandle(handle);
+  const { data, error } = await supabase
+    .from('creator_profiles')
+    .select('city, country, lat, lng, confirmations')
+    .eq('platform', platform)
+    .eq('handle', key)
+    .gt('confirmations', 0)
+    .order('confirmations', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load creator profile: ${error.message}`);
+  }
+
+  const rows: Array<Omit<CreatorCity, 'share'>> = data ?? [];
+  const total = rows.reduce((sum, row) => sum + row.confirmations, 0);
+  if (total === 0) return null;
+
+  return {
+    platform,
+    handle: key,
+    total,
+    cities: rows.map(row => ({ ...row, share: row.confirmations / total })),
+  };
+}
@@ -0,0 +1,272 @@
+// Entity extraction for the media pipeline. An extractor tags spans of OCR
+// or caption text as one of a few entity types and gives each a calibrated
+// confidence: the share of entities with that confidence that turned out
+// right on the labeled fixtures (see supabase/scripts/evaluate-entities.ts).
+// Like ocr.ts this file stays free of imports other than types; the
+// gazetteer and address parser are passed in.
+
+import type { AddressParser, ParsedAddress } from './addresses.ts';
+import type { Gazetteer } from './gazetteer.ts';
+
+export type EntityType = 'VENUE' | 'DISH' | 'ADDRESS' | 'CITY' | 'HANDLE';
+
+export const ENTITY_TYPES: EntityType[] = ['VENUE', 'DISH', 'ADDRESS', 'CITY', 'HANDLE'];
+
+export type EntityExtractorName = 'rules';
+
+export interface Entity {
+  type: EntityType;
+  text: string;
+  // Character offsets into the analyzed text
+  start: number;
+  end: number;
+  // The extractor's own score, not comparable across extractors
+  score: number;
+  // Calibrated probability that the entity is right
+  confidence: number;
+}
+
+export interface EntityExtractor {
+  readonly name: EntityExtractorName;
+  extract(text: string): Promise<Entity[]>;
+}
+
+// Platt scaling: confidence = 1 / (1 + e^-(a * score + b))
+export interface PlattParameters {
+  a: number;
+  b: number;
+}
+
+export type EntityCalibration = Record<EntityType, PlattParameters>;
+
+export function calibrate(score: number, parameters: PlattParameters): number {
+  return 1 / (1 + Math.exp(-(parameters.a * score + parameters.b)));
+}
+
+// Fitted on _shared/fixtures/entityFixtures.ts with evaluate-entities.ts
+export const RULE_CALIBRATION: EntityCalibration = {
+  VENUE: { a: 7.4, b: -2.5 },
+  DISH: { a: 9.5, b: -5.1 },
+  ADDRESS: { a: 0.1, b: 2.3 },
+  CITY: { a: 5.4, b: -1 },
+  HANDLE: { a: 1.2, b: 0.3 },
+};
+
+/**
+ * The most confident entity of a type, or undefined
+ */
+export function bestEntity(entities: Entity[], type: EntityType): Entity | undefined {
+  return entities
+    .filter(entity => entity.type === type)
+    .reduce<Entity | undefined>((best, entity) => (!best || entity.confidence > best.confidence ? entity : best), undefined);
+}
+
+function byPosition(a: Entity, b: Entity): number {
+  return a.start - b.start || b.end - a.end;
+}
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Like compareKey in text.ts, but one character for one, so offsets into
+// the folded text are offsets into the original
+const FOLDED_LETTERS: Record<string, string> = {
+  'ø': 'o', 'æ': 'a', 'œ': 'o', 'ß': 's', 'đ': 'd', 'ð': 'd', 'þ': 't', 'ł': 'l', 'ı': 'i',
+};
+
+function fold(text: string): string {
+  return text.split('').map(char => {
+    const folded = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    const letter = FOLDED_LETTERS[folded] ?? folded;
+    return letter.length === 1 ? letter : char;
+  }).join('');
+}
+
+// Words that say a name is a place to eat. Unlike FOOD_KEYWORDS in
+// foodKeywords.ts these are kinds of venue only: "Pizza Hut" names a venue,
+// but "pizza" alone is a dish.
+const VENUE_WORDS = [
+  'restaurant', 'restaurang', 'ravintola', 'ristorante', 'restaurante', 'trattoria', 'osteria',
+  'pizzeria', 'taverna', 'brasserie', 'bistro', 'bistrot', 'cafe', 'kafe', 'kahvila', 'caffe',
+  'bar', 'vinbar', 'weinbar', 'izakaya', 'grill', 'grilli', 'kitchen', 'kok', 'kokken', 'kjokken',
+  'krog', 'kro', 'diner', 'eatery', 'deli', 'canteen', 'cantina', 'steakhouse', 'bakery', 'bageri',
+  'bakeri', 'boulangerie', 'backerei', 'leipomo', 'konditori', 'patisserie', 'gelateria',
+  'creperie', 'imbiss', 'brauhaus', 'gastropub', 'pub', 'gatukok', 'food truck', 'barbecue',
+  'smokehouse', 'bouillon',
+].map(fold);
+
+// Dishes worth tagging in overlays and captions, in the languages of the
+// countries the app is used in
+const DISH_WORDS = [
+  'pizza', 'ramen', 'sushi', 'burger', 'smash burger', 'taco', 'kebab', 'falafel', 'shawarma',
+  'pasta', 'carbonara', 'lasagna', 'dumpling', 'gyoza', 'dim sum', 'bao', 'pho', 'banh mi',
+  'pad thai', 'curry', 'biryani', 'poke', 'katsu', 'tonkatsu', 'noodles', 'fried chicken',
+  'wings', 'brisket', 'steak', 'schnitzel', 'currywurst', 'bratwurst', 'croissant', 'crepe',
+  'galette', 'waffle', 'pancakes', 'donut', 'gelato', 'ice cream', 'hot dog', 'fish and chips',
+  'fish & chips',
+  'cinnamon bun', 'kanelbulle', 'kardemummabulle', 'semla', 'kottbullar', 'meatballs',
+  'smorrebrod', 'smorgas', 'raksmorgas', 'polse', 'pyttipanna', 'lohikeitto',
+  'karjalanpiirakka', 'korvapuusti', 'skolebrod', 'fiskesuppe',
+].map(fold);
+
+// Words of hype, not of names: "BEST RAMEN IN TOWN", "must try"
+const HYPE_WORDS = new Set(['best', 'top', 'must', 'try', 'review', 'cheap', 'worth', 'viral', 'guide', 'in', 'the', 'bästa', 'basta']);
+
+const HANDLE_PATTERN = /(^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_](?:[\p{L}\p{N}_.]*[\p{L}\p{N}_])?)/gu;
+
+// Lines of OCR text, and sentences within captions
+function segments(text: string): Array<{ text: string; start: number; end: number }> {
+  const result: Array<{ text: string; start: number; end: number }> = [];
+  for (const match of text.matchAll(/[^\n|•·]+/g)) {
+    const raw = match[0];
+    const start = (match.index ?? 0) + (raw.length - raw.trimStart().length);
+    const trimmed = raw.trim();
+    if (trimmed) result.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return result;
+}
+
+// Whole-word (and for longer words, compound) matches of lexicon entries
+function findWords(text: string, words: string[]): Array<{ start: number; end: number }> {
+  const folded = fold(text);
+  const found = new Map<string, { start: number; end: number }>();
+  for (const word of words) {
+    const compound = word.length >= 6;
+    let index = folded.indexOf(word);
+    while (index !== -1) {
+      const before = folded[index - 1];
+      const after = folded.slice(index + word.length).match(/^(?:e?s)?/)![0];
+      const next = folded[index + word.length + after.length];
+      const bounded = (!before || !/\p{L}/u.test(before)) && (!next || !/\p{L}/u.test(next));
+      const end = index + word.length + after.length;
+      if (bounded || compound) found.set(`${index}-${end}`, { start: index, end });
+      index = folded.indexOf(word, index + word.length);
+    }
+  }
+  return [...found.values()];
+}
+
+// Offline extractor from patterns, word lists and the gazetteer. Scores are
+// sums of hand-set feature weights; calibration turns them into confidences.
+export class RuleEntityExtractor implements EntityExtractor {
+  readonly name = 'rules' as const;
+
+  constructor(
+    private readonly gazetteer: Gazetteer,
+    private readonly addressParser: AddressParser,
+    private readonly calibration: EntityCalibration = RULE_CALIBRATION
+  ) {}
+
+  async extract(text: string): Promise<Entity[]> {
+    const handles = this.handles(text);
+    const parsed = this.addressParser.parse(text);
+    const addresses = parsed.map(address => this.address(text, address));
+    const taken = [...handles, ...addresses];
+    const venues = this.venues(text, taken);
+    const cities = this.cities(text, venues, handles, parsed);
+    const dishes = this.dishes(text, venues, taken);
+    return [...handles, ...addresses, ...venues, ...cities, ...dishes].sort(byPosition);
+  }
+
+  private entity(type: EntityType, text: string, start: number, end: number, score: number): Entity {
+    const clamped = clamp(score);
+    return { type, text: text.slice(start, end), start, end, score: clamped, confidence: calibrate(clamped, this.calibration[type]) };
+  }
+
+  private handles(text: string): Entity[] {
+    return [...text.matchAll(HANDLE_PATTERN)].map(match => {
+      const start = (match.index ?? 0) + match[1].length;
+      return this.entity('HANDLE', text, start, start + 1 + match[2].length, 0.9);
+    });
+  }
+
+  private address(text: string, address: ParsedAddress): Entity {
+    let score = 0.6;
+    if (address.postcode) score += 0.15;
+    if (address.city) score += 0.15;
+    return this.entity('ADDRESS', text, address.index, address.index + address.text.length, score);
+  }
+
+  private venues(text: string, taken: Entity[]): Entity[] {
+    const found: Entity[] = [];
+
+    for (const segment of segments(text)) {
+      const words = segment.text.match(/[\p{L}\p{N}'’&-]+/gu) ?? [];
+      if (words.length === 0 || words.length > 6) continue;
+
+      const foldedWords = words.map(fold);
+      const venueWords = findWords(segment.text, VENUE_WORDS);
+      const dishWords = findWords(segment.text, DISH_WORDS);
+      const cityMentions = this.gazetteer.findMentions(segment.text);
+      const wordChars = foldedWords.join('').length;
+      const lexiconChars = [...venueWords, ...dishWords].reduce((sum, span) => sum + span.end - span.start, 0)
+        + cityMentions.reduce((sum, mention) => sum + mention.text.length, 0);
+      const shouting = segment.text === segment.text.toUpperCase();
+
+      let score = 0.2;
+      if (venueWords.length > 0) score += 0.35;
+      if (words.every(word => /^[\p{Lu}\p{N}&]/u.test(word))) score += 0.15;
+      if (/\p{L}['’]s\b/u.test(segment.text)) score += 0.15;
+      if (/\s(?:&|and|och|og|und|et)\s/.test(segment.text)) score += 0.05;
+      if (words.length >= 2 && words.length <= 4) score += 0.1;
+      // "Ramen Ki-mama", "Pizza Napoli": a dish and then a name
+      if (!shouting && dishWords.some(span => span.start === 0) && lexiconChars < wordChars + words.length) score += 0.15;
+
+      if (words.length === 1) score -= 0.1;
+      if (/^\p{Ll}/u.test(segment.text)) score -= 0.2;
+      if (/\d/.test(segment.text)) score -= 0.25;
+      if (/[@#]/.test(segment.text)) score -= 0.5;
+      if (/[?!]/.test(segment.text)) score -= 0.2;
+      if (foldedWords.some(word => HYPE_WORDS.has(word))) score -= 0.25;
+      if (taken.some(entity => overlaps(entity, segment))) score -= 0.5;
+      // Nothing but a city ("Austin, TX"), a dish or "RESTAURANT": a
+      // caption, not a name. A dish and a city together can be a name.
+      const onlyLexicon = lexiconChars >= wordChars || cityMentions.some(mention => mention.qualified);
+      const dishAndCity = dishWords.length > 0 && cityMentions.length > 0;
+      if (onlyLexicon && !dishAndCity) score -= 0.45;
+
+      if (score >= 0.3) found.push(this.entity('VENUE', text, segment.start, segment.end, score));
+    }
+    return found;
+  }
+
+  private cities(text: string, venues: Entity[], handles: Entity[], addresses: ParsedAddress[]): Entity[] {
+    return this.gazetteer.findMentions(text).flatMap(mention => {
+      const span = { start: mention.index, end: mention.index + mention.text.length };
+      // The city in a creator's handle isn't where the video is, and
+      // neither is a street named after a city ("East Houston Street")
+      const address = addresses.find(address => overlaps({ start: address.index, end: address.index + address.text.length }, span));
+      if (handles.some(handle => overlaps(handle, span))) return [];
+      if (address && address.city_index !== span.start) return [];
+
+      // "Pizza Napoli", "Café Paris"
+      const inVenue = venues.some(venue => venue.score >= 0.5 && overlaps(venue, span));
+      const hashtag = text[span.start - 1] === '#';
+
+      let score = 0.6;
+      if (mention.qualified) score += 0.3;
+      if (hashtag) score -= 0.15;
+      if (inVenue) score -= 0.4;
+      // The city line of an address, or a city right after one
+      if (address) score += 0.2;
+      if (addresses.some(other => span.start - (other.index + other.text.length) >= 0 && span.start - (other.index + other.text.length) <= 3)) score += 0.1;
+      return [this.entity('CITY', text, span.start, span.end, score)];
+    });
+  }
+
+  private dishes(text: string, venues: Entity[], taken: Entity[]): Entity[] {
+    return findWords(text, DISH_WORDS)
+      .filter((span, i, spans) => !spans.some((other, j) => j !== i && other.start <= span.start && other.end >= span.end && other.end - other.start > span.end - span.start))
+      .filter(span => !taken.some(entity => overlaps(entity, span)))
+      .map(span => {
+        const inVenue = venues.some(venue => venue.score >= 0.5 && overlaps(venue, span));
+        return this.entity('DISH', text, span.start, span.end, inVenue ? 0.35 : 0.75);
+      });
+  }
+}
+
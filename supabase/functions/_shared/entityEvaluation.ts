@@ -0,0 +1,125 @@
+// Precision / recall and calibration of an entity extractor over labeled
+// cases. An extracted entity is right when a labeled entity of the same type
+// has the same text, ignoring case and surrounding punctuation.
+
+import { Entity, EntityExtractor, EntityType, ENTITY_TYPES, PlattParameters } from './entities.ts';
+import { LabeledEntityCase } from './fixtures/entityFixtures.ts';
+
+export interface EntityCaseResult {
+  id: string;
+  // Extracted entities and whether each was right
+  predicted: Array<Entity & { correct: boolean }>;
+  // Labeled entities the extractor didn't find
+  missed: Array<{ type: EntityType; text: string }>;
+}
+
+export interface EntityTypeEvaluation {
+  type: EntityType;
+  precision: number;
+  recall: number;
+  // Mean |confidence - accuracy| over confidence bins, weighted by size
+  calibration_error: number;
+  // Platt parameters fitted to the extractor's raw scores, or null when
+  // there are too few entities of the type to fit
+  fitted: PlattParameters | null;
+}
+
+export interface EntityEvaluation {
+  threshold: number;
+  types: EntityTypeEvaluation[];
+  cases: EntityCaseResult[];
+}
+
+function entityKey(text: string): string {
+  return text.toLowerCase().replace(/^[^\p{L}\p{N}@]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+const CALIBRATION_BINS = 5;
+
+export function calibrationError(samples: Array<{ confidence: number; correct: boolean }>): number {
+  if (samples.length === 0) return 0;
+
+  let error = 0;
+  for (let bin = 0; bin < CALIBRATION_BINS; bin++) {
+    const inBin = samples.filter(sample =>
+      Math.min(CALIBRATION_BINS - 1, Math.floor(sample.confidence * CALIBRATION_BINS)) === bin
+    );
+    if (inBin.length === 0) continue;
+
+    const confidence = inBin.reduce((sum, sample) => sum + sample.confidence, 0) / inBin.length;
+    const accuracy = inBin.filter(sample => sample.correct).length / inBin.length;
+    error += Math.abs(confidence - accuracy) * inBin.length / samples.length;
+  }
+  return error;
+}
+
+// Logistic regression of correctness on the raw score, by gradient descent.
+// Targets are smoothed as Platt suggests so a handful of samples that are
+// all right or all wrong don't push the curve to 0 or 1.
+export function fitPlatt(samples: Array<{ score: number; correct: boolean }>, iterations = 5000): PlattParameters | null {
+  const positives = samples.filter(sample => sample.correct).length;
+  const negatives = samples.length - positives;
+  if (samples.length < 3) return null;
+
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+  let a = 1;
+  let b = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    let gradA = 0;
+    let gradB = 0;
+    for (const sample of samples) {
+      const predicted = 1 / (1 + Math.exp(-(a * sample.score + b)));
+      const target = sample.correct ? high : low;
+      gradA += (predicted - target) * sample.score;
+      gradB += predicted - target;
+    }
+    a -= 0.5 * gradA / samples.length;
+    b -= 0.5 * gradB / samples.length;
+  }
+
+  return { a: Math.round(a * 10) / 10, b: Math.round(b * 10) / 10 };
+}
+
+export async function evaluateEntities(
+  cases: LabeledEntityCase[],
+  extractor: EntityExtractor,
+  options: { threshold?: number } = {}
+): Promise<EntityEvaluation> {
+  const threshold = options.threshold ?? 0.5;
+  const results: EntityCaseResult[] = [];
+
+  for (const labeledCase of cases) {
+    const remaining = [...labeledCase.entities];
+    const entities = await extractor.extract(labeledCase.text);
+
+    const predicted = entities.map(entity => {
+      const index = remaining.findIndex(expected =>
+        expected.type === entity.type && entityKey(expected.text) === entityKey(entity.text)
+      );
+      if (index !== -1) remaining.splice(index, 1);
+      return { ...entity, correct: index !== -1 };
+    });
+
+    results.push({ id: labeledCase.id, predicted, missed: remaining });
+  }
+
+  const types = ENTITY_TYPES.map((type): EntityTypeEvaluation => {
+    const samples = results.flatMap(result => result.predicted.filter(entity => entity.type === type));
+    const accepted = samples.filter(entity => entity.confidence >= threshold);
+    const truePositives = accepted.filter(entity => entity.correct).length;
+    const labeled = cases.reduce((sum, labeledCase) => sum + labeledCase.entities.filter(entity => entity.type === type).length, 0);
+
+    return {
+      type,
+      // No predictions at all counts as perfectly precise
+      precision: accepted.length > 0 ? truePositives / accepted.length : 1,
+      recall: labeled > 0 ? truePositives / labeled : 1,
+      calibration_error: calibrationError(samples),
+      fitted: fitPlatt(samples),
+    };
+  });
+
+  return { threshold, types, cases: results };
+}
@@ -0,0 +1,215 @@
+// Imports users confirmed or rejected, as the evidence behind the best
+// match and whether the user kept the place. Hand-labelled; once imports
+// store their evidence, calibrate-analysis-confidence.ts reads the real
+// outcomes from the media table instead. Run it after adding outcomes or
+// changing the evidence, and paste the model it prints.
+import { AnalysisEvidence } from '../analysisConfidence.ts'
+
+export interface AnalysisOutcome {
+  id: string;
+  evidence: AnalysisEvidence;
+  confirmed: boolean;
+}
+
+export const ANALYSIS_OUTCOMES: AnalysisOutcome[] = [
+  {
+    id: 'sign-with-full-address-nearby',
+    evidence: { ocr_quality: 0.92, venue_confidence: 0.89, prior_strength: 0, agreeing_sources: 2, conflicting_sources: 0, geocode_precision: 'address', distance_km: 3 },
+    confirmed: true,
+  },
+  {
+    id: 'overlay-venue-and-address',
+    evidence: { ocr_quality: 0.88, venue_confidence: 0.86, prior_strength: 0, agreeing_sources: 2, conflicting_sources: 0, geocode_precision: 'address', distance_km: 11 },
+    confirmed: true,
+  },
+  {
+    id: 'address-across-town',
+    evidence: { ocr_quality: 0.81, venue_confidence: 0.77, prior_strength: 0, agreeing_sources: 2, conflicting_sources: 0, geocode_precision: 'address', distance_km: 6 },
+    confirmed: true,
+  },
+  {
+    id: 'address-abroad',
+    evidence: { ocr_quality: 0.9, venue_confidence: 0.86, prior_strength: 0, agreeing_sources: 2, conflicting_sources: 0, geocode_precision: 'address', distance_km: 1140 },
+    confirmed: true,
+  },
+  {
+    id: 'address-without-venue',
+    evidence: { ocr_quality: 0.84, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'address', distance_km: 4 },
+    confirmed: true,
+  },
+  {
+    id: 'address-misread-on-blurry-frame',
+    evidence: { ocr_quality: 0.41, venue_confidence: 0.57, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'address', distance_km: 22 },
+    confirmed: false,
+  },
+  {
+    id: 'venue-and-city-nearby',
+    evidence: { ocr_quality: 0.86, venue_confidence: 0.86, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 8 },
+    confirmed: true,
+  },
+  {
+    id: 'venue-and-city-same-city',
+    evidence: { ocr_quality: 0.79, venue_confidence: 0.77, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 2 },
+    confirmed: true,
+  },
+  {
+    id: 'venue-city-and-handle-agree',
+    evidence: { ocr_quality: 0.83, venue_confidence: 0.71, prior_strength: 0, agreeing_sources: 2, conflicting_sources: 0, geocode_precision: 'city', distance_km: 5 },
+    confirmed: true,
+  },
+  {
+    id: 'venue-and-city-travel-video',
+    evidence: { ocr_quality: 0.88, venue_confidence: 0.86, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 620 },
+    confirmed: true,
+  },
+  {
+    id: 'venue-and-city-other-country',
+    evidence: { ocr_quality: 0.74, venue_confidence: 0.71, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 950 },
+    confirmed: false,
+  },
+  {
+    id: 'venue-city-conflicting-caption',
+    evidence: { ocr_quality: 0.8, venue_confidence: 0.71, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 1, geocode_precision: 'city', distance_km: 310 },
+    confirmed: false,
+  },
+  {
+    id: 'two-cities-on-screen',
+    evidence: { ocr_quality: 0.85, venue_confidence: 0.77, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 1, geocode_precision: 'city', distance_km: 14 },
+    confirmed: true,
+  },
+  {
+    id: 'weak-venue-and-city',
+    evidence: { ocr_quality: 0.62, venue_confidence: 0.49, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 9 },
+    confirmed: false,
+  },
+  {
+    id: 'weak-venue-city-nearby-kept',
+    evidence: { ocr_quality: 0.66, venue_confidence: 0.57, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 3 },
+    confirmed: true,
+  },
+  {
+    id: 'menu-board-no-venue',
+    evidence: { ocr_quality: 0.82, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 6 },
+    confirmed: false,
+  },
+  {
+    id: 'venue-without-location',
+    evidence: { ocr_quality: 0.9, venue_confidence: 0.86, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: true,
+  },
+  {
+    id: 'venue-without-location-weak',
+    evidence: { ocr_quality: 0.58, venue_confidence: 0.49, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'venue-without-location-generic-name',
+    evidence: { ocr_quality: 0.77, venue_confidence: 0.57, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'venue-without-location-clear-sign',
+    evidence: { ocr_quality: 0.93, venue_confidence: 0.89, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: 18 },
+    confirmed: true,
+  },
+  {
+    id: 'noisy-ocr-only',
+    evidence: { ocr_quality: 0.31, venue_confidence: null, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'hype-text-only',
+    evidence: { ocr_quality: 0.7, venue_confidence: null, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'dish-overlay-city-far',
+    evidence: { ocr_quality: 0.76, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 480 },
+    confirmed: false,
+  },
+  {
+    id: 'creator-prior-strong-nearby',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0.8, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 12 },
+    confirmed: true,
+  },
+  {
+    id: 'creator-prior-strong-far',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0.8, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 700 },
+    confirmed: true,
+  },
+  {
+    id: 'creator-prior-and-handle-agree',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0.6, agreeing_sources: 2, conflicting_sources: 0, geocode_precision: 'city', distance_km: 4 },
+    confirmed: true,
+  },
+  {
+    id: 'creator-prior-few-imports',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0.24, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 7 },
+    confirmed: false,
+  },
+  {
+    id: 'creator-prior-split-cities',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0.3, agreeing_sources: 1, conflicting_sources: 1, geocode_precision: 'city', distance_km: 220 },
+    confirmed: false,
+  },
+  {
+    id: 'creator-prior-moderate',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0.5, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 30 },
+    confirmed: true,
+  },
+  {
+    id: 'creator-prior-moderate-far',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0.48, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 560 },
+    confirmed: false,
+  },
+  {
+    id: 'handle-city-nearby',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 5 },
+    confirmed: true,
+  },
+  {
+    id: 'handle-city-nearby-wrong',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 9 },
+    confirmed: false,
+  },
+  {
+    id: 'handle-city-far',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 610 },
+    confirmed: false,
+  },
+  {
+    id: 'handle-city-unknown-user',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'query-city',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'query-city-nearby',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 1, conflicting_sources: 0, geocode_precision: 'city', distance_km: 15 },
+    confirmed: true,
+  },
+  {
+    id: 'handle-and-query-agree',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 2, conflicting_sources: 0, geocode_precision: 'city', distance_km: 20 },
+    confirmed: true,
+  },
+  {
+    id: 'keyword-fallback',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'generic-fallback',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: false,
+  },
+  {
+    id: 'generic-fallback-nearby-user',
+    evidence: { ocr_quality: null, venue_confidence: null, prior_strength: 0, agreeing_sources: 0, conflicting_sources: 0, geocode_precision: 'none', distance_km: null },
+    confirmed: false,
+  },
+];
@@ -0,0 +1,239 @@
+// Labeled text for measuring entity extractors: OCR from video overlays and
+// signs (one line per text line) and captions, with every entity a person
+// would tag in it. Run supabase/scripts/evaluate-entities.ts after changing
+// an extractor, and paste the fitted calibration it prints.
+import { EntityType } from '../entities.ts'
+
+export interface LabeledEntityCase {
+  id: string;
+  text: string;
+  entities: Array<{ type: EntityType; text: string }>;
+}
+
+export const ENTITY_FIXTURES: LabeledEntityCase[] = [
+  {
+    id: 'overlay-ramen-sodermalm',
+    text: 'BEST RAMEN IN STOCKHOLM?\nRamen Ki-mama\nSödermalm\n@foodie.sthlm',
+    entities: [
+      { type: 'DISH', text: 'RAMEN' },
+      { type: 'CITY', text: 'STOCKHOLM' },
+      { type: 'VENUE', text: 'Ramen Ki-mama' },
+      { type: 'HANDLE', text: '@foodie.sthlm' },
+    ],
+  },
+  {
+    id: 'sign-with-address',
+    text: 'Pizzeria Nostrana\nHornsgatan 120, Stockholm\nOPEN 11-22',
+    entities: [
+      { type: 'VENUE', text: 'Pizzeria Nostrana' },
+      { type: 'ADDRESS', text: 'Hornsgatan 120' },
+      { type: 'CITY', text: 'Stockholm' },
+    ],
+  },
+  {
+    id: 'possessive-name',
+    text: "Joe's Pizza\nthe best slice in town",
+    entities: [
+      { type: 'VENUE', text: "Joe's Pizza" },
+      { type: 'DISH', text: 'slice' },
+    ],
+  },
+  {
+    id: 'cafe-overlay-fika',
+    text: 'Café Pascal\nfika time ☕\nkanelbulle 45 kr',
+    entities: [
+      { type: 'VENUE', text: 'Café Pascal' },
+      { type: 'DISH', text: 'kanelbulle' },
+    ],
+  },
+  {
+    id: 'city-in-venue-name',
+    text: 'Pizza Napoli\nMalmö',
+    entities: [
+      { type: 'VENUE', text: 'Pizza Napoli' },
+      { type: 'CITY', text: 'Malmö' },
+    ],
+  },
+  {
+    id: 'danish-smorrebrod',
+    text: 'Aamanns Deli\nØster Farimagsgade 10, 2100 København Ø\nsmørrebrød til frokost',
+    entities: [
+      { type: 'VENUE', text: 'Aamanns Deli' },
+      { type: 'ADDRESS', text: 'Øster Farimagsgade 10, 2100 København Ø' },
+      { type: 'CITY', text: 'København' },
+      { type: 'DISH', text: 'smørrebrød' },
+    ],
+  },
+  {
+    id: 'us-street-address',
+    text: "Katz's Delicatessen\n205 East Houston Street, New York, NY\npastrami on rye",
+    entities: [
+      { type: 'VENUE', text: "Katz's Delicatessen" },
+      { type: 'ADDRESS', text: '205 East Houston Street' },
+      { type: 'CITY', text: 'New York' },
+    ],
+  },
+  {
+    id: 'caption-with-tags',
+    text: 'Finally tried the smash burger everyone talks about 🍔 @bastardburgers #stockholmfood',
+    entities: [
+      { type: 'DISH', text: 'smash burger' },
+      { type: 'HANDLE', text: '@bastardburgers' },
+      { type: 'CITY', text: 'stockholmfood' },
+    ],
+  },
+  {
+    id: 'hype-only',
+    text: 'MUST TRY!!\nTOP 5 TACOS\nyou will not regret it',
+    entities: [
+      { type: 'DISH', text: 'TACOS' },
+    ],
+  },
+  {
+    id: 'oslo-sign',
+    text: 'Restaurant Schrøder\nWaldemar Thranes gate 8\nOslo',
+    entities: [
+      { type: 'VENUE', text: 'Restaurant Schrøder' },
+      { type: 'ADDRESS', text: 'Waldemar Thranes gate 8' },
+      { type: 'CITY', text: 'Oslo' },
+    ],
+  },
+  {
+    id: 'helsinki-ravintola',
+    text: 'Ravintola Savoy\nlohikeitto päivän lounas\nHelsinki',
+    entities: [
+      { type: 'VENUE', text: 'Ravintola Savoy' },
+      { type: 'DISH', text: 'lohikeitto' },
+      { type: 'CITY', text: 'Helsinki' },
+    ],
+  },
+  {
+    id: 'paris-rue',
+    text: 'Bouillon Chartier\n7 rue du Faubourg Montmartre\nParis',
+    entities: [
+      { type: 'VENUE', text: 'Bouillon Chartier' },
+      { type: 'ADDRESS', text: '7 rue du Faubourg Montmartre' },
+      { type: 'CITY', text: 'Paris' },
+    ],
+  },
+  {
+    id: 'berlin-currywurst',
+    text: 'Curry 36\nMehringdamm 36\nBerlin\ncurrywurst mit pommes',
+    entities: [
+      { type: 'VENUE', text: 'Curry 36' },
+      { type: 'ADDRESS', text: 'Mehringdamm 36' },
+      { type: 'CITY', text: 'Berlin' },
+      { type: 'DISH', text: 'currywurst' },
+    ],
+  },
+  {
+    id: 'london-fish-and-chips',
+    text: 'Poppies Fish & Chips\n6-8 Hanbury Street, London E1 6QR',
+    entities: [
+      { type: 'VENUE', text: 'Poppies Fish & Chips' },
+      { type: 'ADDRESS', text: '6-8 Hanbury Street, London E1 6QR' },
+      { type: 'CITY', text: 'London' },
+    ],
+  },
+  {
+    id: 'menu-board',
+    text: 'MENU\nPAD THAI 129\nGREEN CURRY 139\nSPRING ROLLS 59',
+    entities: [
+      { type: 'DISH', text: 'PAD THAI' },
+      { type: 'DISH', text: 'CURRY' },
+    ],
+  },
+  {
+    id: 'handle-only-overlay',
+    text: 'follow @cph.eats for more\nlink in bio',
+    entities: [
+      { type: 'HANDLE', text: '@cph.eats' },
+    ],
+  },
+  {
+    id: 'gothenburg-two-venues',
+    text: 'Bar Centro\nespresso 35\nDa Matteo\nGöteborg',
+    entities: [
+      { type: 'VENUE', text: 'Bar Centro' },
+      { type: 'VENUE', text: 'Da Matteo' },
+      { type: 'CITY', text: 'Göteborg' },
+    ],
+  },
+  {
+    id: 'noise-ocr',
+    text: 'll1 ||| ~~\nWEL COME\nEXIT',
+    entities: [],
+  },
+  {
+    id: 'caption-sentence',
+    text: 'Dinner at Tyge & Sessil with the best natural wine list in Stockholm. Get the fried chicken!',
+    entities: [
+      { type: 'CITY', text: 'Stockholm' },
+      { type: 'DISH', text: 'fried chicken' },
+    ],
+  },
+  {
+    id: 'qualified-city',
+    text: "Franklin Barbecue\nAustin, TX\nbrisket worth the line",
+    entities: [
+      { type: 'VENUE', text: 'Franklin Barbecue' },
+      { type: 'CITY', text: 'Austin' },
+      { type: 'DISH', text: 'brisket' },
+    ],
+  },
+  {
+    id: 'swedish-gatukok',
+    text: 'Nystekt Strömming\nSlussen\nstekt strömming med mos',
+    entities: [
+      { type: 'VENUE', text: 'Nystekt Strömming' },
+    ],
+  },
+  {
+    id: 'bakery-sign',
+    text: 'Fabrique Stenugnsbageri\nsemla season is here',
+    entities: [
+      { type: 'VENUE', text: 'Fabrique Stenugnsbageri' },
+      { type: 'DISH', text: 'semla' },
+    ],
+  },
+  {
+    id: 'price-list-only',
+    text: 'LUNCH 125:-\nDAGENS 11-14\nKAFFE INGÅR',
+    entities: [],
+  },
+  {
+    id: 'all-caps-sign',
+    text: 'LA NEVERIA\nGELATO ARTIGIANALE',
+    entities: [
+      { type: 'VENUE', text: 'LA NEVERIA' },
+      { type: 'DISH', text: 'GELATO' },
+    ],
+  },
+  {
+    id: 'sign-address-on-two-lines',
+    text: 'STIKKI NIKKI\nGÖTGATAN 43\n118 26 STOCKHOLM',
+    entities: [
+      { type: 'VENUE', text: 'STIKKI NIKKI' },
+      { type: 'ADDRESS', text: 'GÖTGATAN 43\n118 26 STOCKHOLM' },
+      { type: 'CITY', text: 'STOCKHOLM' },
+    ],
+  },
+  {
+    id: 'helsinki-full-address',
+    text: 'Levain\nMannerheimintie 12, 00100 Helsinki\nkorvapuusti & kahvi',
+    entities: [
+      { type: 'VENUE', text: 'Levain' },
+      { type: 'ADDRESS', text: 'Mannerheimintie 12, 00100 Helsinki' },
+      { type: 'CITY', text: 'Helsinki' },
+      { type: 'DISH', text: 'korvapuusti' },
+    ],
+  },
+  {
+    id: 'us-full-address-caption',
+    text: "Lunch at Russ & Daughters 📍 179 E Houston St, New York, NY 10002",
+    entities: [
+      { type: 'ADDRESS', text: '179 E Houston St, New York, NY 10002' },
+      { type: 'CITY', text: 'New York' },
+    ],
+  },
+];
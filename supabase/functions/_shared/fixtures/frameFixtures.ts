@@ -0,0 +1,37 @@
+// Fixtures for FakeFrameExtractor and check-frame-extraction.ts: a small
+// portrait JPEG still (36x64, a 9:16 video scaled down) and the timestamps
+// frameTimestamps() should pick for a few video lengths.
+import { FrameSamplingOptions } from '../frames.ts'
+
+export const FIXTURE_STILL_SIZE = { width: 36, height: 64 };
+
+const FIXTURE_STILL_BASE64 =
+  '/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEABQODxIPDRQSEBIXFRQYHjIhHhwcHj0sLiQySUBMS0dARkVQWnNiUFVtVkVGZIhl' +
+  'bXd7gYKBTmCNl4x9lnN+gXwBFRcXHhoeOyEhO3xTRlN8fHx8fHx8fHx8fHx8fHx8fHx8fHx8fHx8fHx8fHx8fHx8fHx8fHx8' +
+  'fHx8fHx8fHx8fP/AABEIAEAAJAMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMF' +
+  'BQQEAAABfQECAwAEEQUSITFBBhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElK' +
+  'U1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV' +
+  '1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncA' +
+  'AQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZ' +
+  'WmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2dri' +
+  '4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/AJcV556AYpgGKoBcUwDFUIMVgAuKYBiqAXFMQYpgGKxAXFMAxVCDFMBc' +
+  'UwDFYgLimIMVQBimAuKYBisRBimAuKoAxTAXFMQYrEAxTAXFUAYpiDFMBcViAYpgLiqEGKYBimAuKxAMUxBiqAXFMAxTA//Z';
+
+export const FIXTURE_STILL: Uint8Array = Uint8Array.from(atob(FIXTURE_STILL_BASE64), char => char.charCodeAt(0));
+
+export interface FrameTimestampCase {
+  duration: number;
+  options?: Partial<FrameSamplingOptions>;
+  expected: number[];
+}
+
+export const FRAME_TIMESTAMP_CASES: FrameTimestampCase[] = [
+  // A typical 10 second clip at the default 1.5s interval
+  { duration: 10, expected: [0.25, 1.75, 3.25, 4.75, 6.25, 7.75, 9.25] },
+  // Long videos stop at max_frames
+  { duration: 60, expected: [0.25, 1.75, 3.25, 4.75, 6.25, 7.75, 9.25, 10.75, 12.25, 13.75, 15.25, 16.75] },
+  { duration: 60, options: { interval_seconds: 10, max_frames: 4 }, expected: [0.25, 10.25, 20.25, 30.25] },
+  { duration: 5, options: { interval_seconds: 2, start_seconds: 0 }, expected: [0, 2, 4] },
+  // Too short to sample past the start offset: the middle frame
+  { duration: 0.6, expected: [0.3] },
+];
@@ -0,0 +1,67 @@
+// Imports run end to end through runMediaPipeline with the fake OCR engine
+// and place provider, and what each should come out as.
+// Run supabase/scripts/check-media-pipeline.ts after changing the pipeline.
+import { MediaPipelineInput, MediaPipelineResult } from '../mediaPipeline.ts'
+
+export interface MediaPipelineCase {
+  id: string;
+  input: Omit<MediaPipelineInput, 'media_id' | 'ocr_engine'>;
+  expected: {
+    status: MediaPipelineResult['status'];
+    // The place auto-confirmed, or ranked first for the user to confirm
+    // (manual:<address> for an address pin); null when there's nothing to
+    // suggest
+    place_id: string | null;
+  };
+}
+
+const SODERMALM = { lat: 59.3149, lng: 18.0719 };
+const VASASTAN = { lat: 59.3468, lng: 18.0552 };
+
+export const MEDIA_PIPELINE_CASES: MediaPipelineCase[] = [
+  {
+    id: 'video-title-card',
+    input: {
+      frame_urls: [0, 1, 2].map(i => `fixture://tiktok-sodermalm/frame_${i}.jpg`),
+      country: 'SE',
+      ...SODERMALM,
+    },
+    expected: { status: 'confirmed', place_id: 'kimama-sofo' },
+  },
+  {
+    // Taken outside the place
+    id: 'storefront-photo',
+    input: { frame_urls: ['fixture://photo-storefront.jpg'], country: 'SE', ...VASASTAN },
+    expected: { status: 'confirmed', place_id: 'nostrana' },
+  },
+  {
+    // The name alone matches well, but without a location it is too thin
+    // to pin without asking
+    id: 'storefront-photo-no-location',
+    input: { frame_urls: ['fixture://photo-storefront.jpg'], country: 'SE' },
+    expected: { status: 'needs_confirmation', place_id: 'nostrana' },
+  },
+  {
+    // The dish in the title isn't searched, the venue under it is
+    id: 'dish-title-card',
+    input: { frame_urls: ['fixture://dish-title-card.jpg'], country: 'SE', ...SODERMALM },
+    expected: { status: 'confirmed', place_id: 'kimama-sofo' },
+  },
+  {
+    // The name is searched at the address, which rules out the other branch
+    id: 'address-card',
+    input: { frame_urls: ['fixture://address-card.jpg'], country: 'SE' },
+    expected: { status: 'confirmed', place_id: 'kimama-sofo' },
+  },
+  {
+    // Nothing by that name at the address: the address pin is offered
+    id: 'address-unlisted',
+    input: { frame_urls: ['fixture://address-unlisted.jpg'], country: 'SE' },
+    expected: { status: 'needs_confirmation', place_id: 'manual:Roslagsgatan 9, 113 55 Stockholm' },
+  },
+  {
+    id: 'no-text',
+    input: { frame_urls: ['fixture://blank.jpg'], country: 'SE', ...SODERMALM },
+    expected: { status: 'needs_confirmation', place_id: null },
+  },
+];
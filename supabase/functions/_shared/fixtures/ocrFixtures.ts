@@ -0,0 +1,61 @@
+// OCR fixtures for FakeOCREngine, keyed by frame URL. Frames are 1080x1920
+// (portrait video); word boxes are laid out from the line position and text
+// height rather than traced from real images.
+import { lineFromWords, OCRLine, OCRPage, pageFromLines } from '../ocr.ts'
+
+const FRAME_SIZE = { width: 1080, height: 1920 };
+
+function line(text: string, x: number, y: number, height: number, confidence = 0.95): OCRLine {
+  const charWidth = height * 0.55;
+  let left = x;
+  return lineFromWords(text.split(' ').map(word => {
+    const box = { x: left, y, width: Math.round(word.length * charWidth), height };
+    left += box.width + Math.round(charWidth);
+    return { text: word, confidence, box };
+  }));
+}
+
+function frame(...lines: OCRLine[]): OCRPage {
+  return pageFromLines(lines, FRAME_SIZE);
+}
+
+export const OCR_FIXTURES: Record<string, OCRPage> = {
+  // Food video with a big title card, a caption and the address at the end
+  'fixture://tiktok-sodermalm/frame_0.jpg': frame(
+    line('BEST RAMEN IN STOCKHOLM?', 120, 380, 72),
+    line('@foodie.sthlm', 360, 1700, 32, 0.9),
+  ),
+  'fixture://tiktok-sodermalm/frame_1.jpg': frame(
+    line('Ramen Ki-mama', 250, 820, 96),
+    line('Södermalm', 400, 940, 48),
+    line('@foodie.sthlm', 360, 1700, 32, 0.9),
+  ),
+  'fixture://tiktok-sodermalm/frame_2.jpg': frame(
+    line('Götgatan 43, Stockholm', 230, 1500, 40, 0.88),
+    line('#ramen #stockholm #matguide', 180, 1600, 30, 0.85),
+  ),
+  // Shop sign photographed from the street
+  'fixture://photo-storefront.jpg': frame(
+    line('Pizzeria Nostrana', 160, 600, 110),
+    line('OPEN 11-22', 420, 760, 40, 0.7),
+  ),
+  // Dish title card over the venue's name
+  'fixture://dish-title-card.jpg': frame(
+    line('TONKATSU RAMEN', 140, 400, 120),
+    line('Ramen Ki-mama', 300, 620, 56),
+  ),
+  // End card with the venue and its full address
+  'fixture://address-card.jpg': frame(
+    line('Ramen Ki-mama', 250, 700, 80),
+    line('Götgatan 43', 330, 1400, 44, 0.9),
+    line('118 26 Stockholm', 290, 1460, 44, 0.9),
+  ),
+  // Full address of a place the provider lists under another name
+  'fixture://address-unlisted.jpg': frame(
+    line('Nudelbaren', 300, 700, 80),
+    line('Roslagsgatan 9', 300, 1400, 44, 0.9),
+    line('113 55 Stockholm', 290, 1460, 44, 0.9),
+  ),
+  // Frame with no text at all
+  'fixture://blank.jpg': frame(),
+};
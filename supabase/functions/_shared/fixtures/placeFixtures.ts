@@ -0,0 +1,9 @@
+// Places FakePlaceProvider answers from, matching the venues and addresses
+// in ocrFixtures.ts. Coordinates are approximate; place ids are made up.
+import { PlaceSearchResult } from '../placeProviders.ts'
+
+export const PLACE_FIXTURES: Omit<PlaceSearchResult, 'provider'>[] = [
+  { name: 'Ramen Ki-mama', address: 'Götgatan 43, 118 26 Stockholm', lat: 59.3139, lng: 18.0733, place_id: 'kimama-sofo', rating: 4.4, rating_count: 1200, types: ['restaurant', 'food'] },
+  { name: 'Ramen Ki-mama', address: 'Fleminggatan 7, 112 26 Stockholm', lat: 59.3325, lng: 18.0429, place_id: 'kimama-kungsholmen', rating: 4.3, rating_count: 640, types: ['restaurant', 'food'] },
+  { name: 'Pizzeria Nostrana', address: 'Roslagsgatan 9, 113 55 Stockholm', lat: 59.3473, lng: 18.0561, place_id: 'nostrana', rating: 4.2, rating_count: 310, types: ['restaurant', 'food'] },
+];
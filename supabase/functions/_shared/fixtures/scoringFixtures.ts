@@ -0,0 +1,139 @@
+// Labeled cases for measuring the place scorer: OCR text from an import,
+// the places a provider returned for it, and which place (if any) is the
+// right one. Coordinates are approximate; place ids are made up.
+// Run supabase/scripts/evaluate-scoring.ts after changing the scorer.
+import { PlaceSearchResult } from '../placeProviders.ts'
+
+export interface LabeledScoringCase {
+  id: string;
+  ocr_text: string;
+  // Where the user was when importing
+  location?: { lat: number; lng: number };
+  places: Omit<PlaceSearchResult, 'provider'>[];
+  // null when no place should be pinned without asking: none of them is the
+  // one in the video, or the text doesn't tell them apart
+  expected_place_id: string | null;
+}
+
+const SODERMALM = { lat: 59.3149, lng: 18.0719 };
+const COPENHAGEN = { lat: 55.6761, lng: 12.5683 };
+
+export const SCORING_FIXTURES: LabeledScoringCase[] = [
+  {
+    id: 'overlay-title-nearby-branch',
+    ocr_text: 'BEST RAMEN IN STOCKHOLM?\nRamen Ki-mama\nSödermalm\n@foodie.sthlm',
+    location: SODERMALM,
+    places: [
+      { name: 'Ramen Ki-mama', address: 'Götgatan 43, Stockholm', lat: 59.3139, lng: 18.0733, place_id: 'kimama-sofo', rating: 4.4, rating_count: 1200, types: ['restaurant', 'food'] },
+      { name: 'Ramen Ki-mama', address: 'Fleminggatan 7, Stockholm', lat: 59.3325, lng: 18.0429, place_id: 'kimama-kungsholmen', rating: 4.3, rating_count: 640, types: ['restaurant', 'food'] },
+    ],
+    expected_place_id: 'kimama-sofo',
+  },
+  {
+    id: 'accent-dropped-by-ocr',
+    ocr_text: 'Cafe Pascal\nfika time',
+    location: SODERMALM,
+    places: [
+      { name: 'Café Pascal', address: 'Norrtullsgatan 4, Stockholm', lat: 59.3446, lng: 18.0512, place_id: 'cafe-pascal', rating: 4.5, rating_count: 2100, types: ['cafe', 'food'] },
+      { name: 'Pascal Bakery', address: 'Storgatan 12, Uppsala', lat: 59.8586, lng: 17.6389, place_id: 'pascal-bakery', rating: 3.9, rating_count: 40, types: ['bakery'] },
+    ],
+    expected_place_id: 'cafe-pascal',
+  },
+  {
+    id: 'word-order-swapped',
+    ocr_text: 'Nostrana Pizzeria\nOPEN 11-22',
+    location: SODERMALM,
+    places: [
+      { name: 'Pizzeria Nostrana', address: 'Hornsgatan 120, Stockholm', lat: 59.3171, lng: 18.0429, place_id: 'nostrana', rating: 4.2, rating_count: 310, types: ['restaurant', 'food'] },
+      { name: 'Pizzeria Napoli', address: 'Ringvägen 30, Stockholm', lat: 59.3108, lng: 18.0625, place_id: 'napoli', rating: 4.0, rating_count: 150, types: ['restaurant', 'food'] },
+    ],
+    expected_place_id: 'nostrana',
+  },
+  {
+    id: 'all-caps-sign',
+    ocr_text: 'BAR AGRIKULTUR',
+    location: SODERMALM,
+    places: [
+      { name: 'Bar Agrikultur', address: 'Skånegatan 79, Stockholm', lat: 59.3128, lng: 18.0826, place_id: 'agrikultur', rating: 4.6, rating_count: 480, types: ['bar', 'restaurant'] },
+      { name: 'Agrikultur', address: 'Roslagsgatan 43, Stockholm', lat: 59.3488, lng: 18.0563, place_id: 'agrikultur-vasastan', rating: 4.7, rating_count: 350, types: ['restaurant'] },
+    ],
+    expected_place_id: 'agrikultur',
+  },
+  {
+    id: 'handle-only',
+    ocr_text: '@meatballsforthepeople\n#köttbullar',
+    location: SODERMALM,
+    places: [
+      { name: 'Meatballs for the People', address: 'Nytorgsgatan 30, Stockholm', lat: 59.3133, lng: 18.0805, place_id: 'meatballs', rating: 4.3, rating_count: 2900, types: ['restaurant', 'food'] },
+    ],
+    expected_place_id: 'meatballs',
+  },
+  {
+    id: 'chain-pick-nearest',
+    ocr_text: 'Max Hamburgare\nnya menyn!',
+    location: SODERMALM,
+    places: [
+      { name: 'Max Hamburgare', address: 'Götgatan 67, Stockholm', lat: 59.3105, lng: 18.0760, place_id: 'max-gotgatan', rating: 3.9, rating_count: 1500, types: ['restaurant', 'food'] },
+      { name: 'Max Hamburgare', address: 'Vasagatan 7, Stockholm', lat: 59.3316, lng: 18.0585, place_id: 'max-vasagatan', rating: 3.7, rating_count: 2300, types: ['restaurant', 'food'] },
+      { name: 'Max Hamburgare', address: 'Drottninggatan 3, Uppsala', lat: 59.8590, lng: 17.6380, place_id: 'max-uppsala', rating: 3.8, rating_count: 900, types: ['restaurant', 'food'] },
+    ],
+    expected_place_id: 'max-gotgatan',
+  },
+  {
+    // Both places are Aamanns in Copenhagen and the text names neither
+    // branch, so picking one would be a guess; the import asks
+    id: 'danish-ambiguous-branch',
+    ocr_text: 'Smørrebrød hos Aamanns\nØsterbro',
+    location: COPENHAGEN,
+    places: [
+      { name: "Aamanns 1921", address: 'Niels Hemmingsens Gade 19, København', lat: 55.6795, lng: 12.5794, place_id: 'aamanns-1921', rating: 4.5, rating_count: 1700, types: ['restaurant', 'food'] },
+      { name: 'Aamanns Deli & Take Away', address: 'Øster Farimagsgade 10, København', lat: 55.6880, lng: 12.5751, place_id: 'aamanns-deli', rating: 4.4, rating_count: 900, types: ['restaurant', 'food'] },
+    ],
+    expected_place_id: null,
+  },
+  {
+    id: 'same-name-other-city',
+    ocr_text: 'Pelikan\nhusmanskost sedan 1904',
+    location: SODERMALM,
+    places: [
+      { name: 'Pelikan', address: 'Blekingegatan 40, Stockholm', lat: 59.3097, lng: 18.0777, place_id: 'pelikan-sthlm', rating: 4.4, rating_count: 3300, types: ['restaurant', 'food'] },
+      { name: 'Pelikan', address: 'Storgatan 1, Malmö', lat: 55.6050, lng: 13.0038, place_id: 'pelikan-malmo', rating: 4.0, rating_count: 60, types: ['restaurant'] },
+    ],
+    expected_place_id: 'pelikan-sthlm',
+  },
+  {
+    id: 'garden-cafe-extra-keyword',
+    ocr_text: 'Rosendals Trädgård kafé\nDjurgården',
+    location: SODERMALM,
+    places: [
+      { name: 'Rosendals Trädgård', address: 'Rosendalsterrassen 12, Stockholm', lat: 59.3268, lng: 18.1139, place_id: 'rosendal', rating: 4.5, rating_count: 4000, types: ['cafe', 'food'] },
+    ],
+    expected_place_id: 'rosendal',
+  },
+  {
+    id: 'not-a-restaurant',
+    ocr_text: 'Best sunset spot\n#travel #stockholm',
+    location: SODERMALM,
+    places: [
+      { name: 'Sunset Boulevard Hostel', address: 'Hornsgatan 8, Stockholm', lat: 59.3200, lng: 18.0650, place_id: 'sunset-hostel', rating: 3.6, rating_count: 80, types: ['lodging'] },
+    ],
+    expected_place_id: null,
+  },
+  {
+    id: 'unrelated-results',
+    ocr_text: 'Tacos Mexicanos\nTuesday special',
+    location: SODERMALM,
+    places: [
+      { name: 'Taco Bar', address: 'Sveavägen 44, Stockholm', lat: 59.3399, lng: 18.0610, place_id: 'taco-bar', rating: 4.1, rating_count: 700, types: ['restaurant', 'food'] },
+      { name: 'Mexico Grill', address: 'Ringvägen 100, Stockholm', lat: 59.3080, lng: 18.0760, place_id: 'mexico-grill', rating: 3.8, rating_count: 120, types: ['restaurant'] },
+    ],
+    expected_place_id: null,
+  },
+  {
+    id: 'no-text',
+    ocr_text: 'Link in bio\nFollow for more',
+    location: SODERMALM,
+    places: [],
+    expected_place_id: null,
+  },
+];
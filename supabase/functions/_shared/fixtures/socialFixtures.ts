@@ -0,0 +1,255 @@
+// Saved oEmbed responses and page HTML for social media posts, keyed by the
+// URL fetchSocialMetadata requests, plus what should be parsed out of them,
+// and shared links with where they should canonicalize to.
+// Pages are trimmed to the <head> tags (and TikTok's page JSON); posts and
+// accounts are made up.
+// Run supabase/scripts/check-social-metadata.ts after changing the parsers.
+import { CaptionSignals, GeoTag, SocialPlatform } from '../socialMetadata.ts'
+import { CanonicalUrl } from '../socialUrls.ts'
+
+const TIKTOK_URL = 'https://www.tiktok.com/@foodie.sthlm/video/7301234567890123456';
+const TIKTOK_NO_STICKER_URL = 'https://www.tiktok.com/@cph.eats/video/7309876543210987654';
+const INSTAGRAM_URL = 'https://www.instagram.com/p/C1a2b3c4d5e/';
+const YOUTUBE_URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+const BLOG_URL = 'https://example-foodblog.se/2024/05/pelikan-husmanskost';
+
+export const SOCIAL_FIXTURES: Record<string, string> = {
+  [`https://www.tiktok.com/oembed?url=${encodeURIComponent(TIKTOK_URL)}`]: JSON.stringify({
+    version: '1.0',
+    type: 'video',
+    title: 'BEST RAMEN IN STOCKHOLM?? 🍜 Ramen Ki-mama never misses @ramenkimama #ramen #stockholm #foodtok',
+    author_url: 'https://www.tiktok.com/@foodie.sthlm',
+    author_name: 'Foodie Sthlm',
+    author_unique_id: 'foodie.sthlm',
+    provider_name: 'TikTok',
+    thumbnail_url: 'https://p16-sign.tiktokcdn.com/obj/tos-maliva-p-0068/fixture-thumb.jpeg',
+    thumbnail_width: 576,
+    thumbnail_height: 1024,
+  }),
+  [TIKTOK_URL]: `<!DOCTYPE html><html lang="en"><head>
+<meta charset="utf-8">
+<title>BEST RAMEN IN STOCKHOLM?? | TikTok</title>
+<meta property="og:title" content="Foodie Sthlm on TikTok">
+<meta property="og:description" content="BEST RAMEN IN STOCKHOLM?? 🍜 Ramen Ki-mama never misses @ramenkimama #ramen #stockholm #foodtok">
+<meta property="og:image" content="https://p16-sign.tiktokcdn.com/obj/tos-maliva-p-0068/fixture-thumb.jpeg">
+</head><body>
+<script id="__UNIVERSAL_DATA_FOR_REHYDRATION__" type="application/json">{"__DEFAULT_SCOPE__":{"webapp.video-detail":{"itemInfo":{"itemStruct":{"id":"7301234567890123456","desc":"BEST RAMEN IN STOCKHOLM??","poi":{"id":"22535660371018612","name":"Ramen Ki-mama Götgatan","address":"Götgatan 43, Stockholm","city":"Stockholm"}}}}}}</script>
+</body></html>`,
+
+  // No location sticker and the page fetch is blocked, so only oEmbed answers
+  [`https://www.tiktok.com/oembed?url=${encodeURIComponent(TIKTOK_NO_STICKER_URL)}`]: JSON.stringify({
+    version: '1.0',
+    type: 'video',
+    title: 'Smørrebrød you NEED to try\n📍 Aamanns Deli & Take Away, Østerbro #copenhagen #smørrebrød',
+    author_name: 'CPH Eats',
+    author_unique_id: 'cph.eats',
+    thumbnail_url: 'https://p16-sign.tiktokcdn.com/obj/tos-maliva-p-0068/fixture-cph.jpeg',
+  }),
+
+  [INSTAGRAM_URL]: `<!DOCTYPE html><html><head>
+<meta property="og:type" content="video.other">
+<meta property="og:title" content="Meatballs Lover on Instagram: &quot;Swedish meatballs done right&quot;">
+<meta property="og:description" content="1,204 likes, 38 comments - meatball.lover on May 3, 2024: &quot;Swedish meatballs done right 🇸🇪&#10;Location: Meatballs for the People, Nytorgsgatan 30&#10;@meatballsforthepeople #köttbullar #sthlmfood&quot;.">
+<meta property="og:image" content="https://scontent.cdninstagram.com/v/fixture-meatballs.jpg">
+<meta property="og:video" content="https://scontent.cdninstagram.com/v/fixture-meatballs.mp4">
+<meta property="og:video:secure_url" content="https://scontent.cdninstagram.com/v/fixture-meatballs.mp4">
+<meta property="og:video:type" content="video/mp4">
+<meta property="place:location:latitude" content="59.3133">
+<meta property="place:location:longitude" content="18.0805">
+</head><body></body></html>`,
+
+  [`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(YOUTUBE_URL)}`]: JSON.stringify({
+    title: 'Trying the OLDEST restaurant in Stockholm',
+    author_name: 'Nordic Food Trips',
+    author_url: 'https://www.youtube.com/@nordicfoodtrips',
+    type: 'video',
+    thumbnail_url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg',
+  }),
+  [YOUTUBE_URL]: `<!DOCTYPE html><html><head>
+<meta name="title" content="Trying the OLDEST restaurant in Stockholm">
+<meta name="description" content="Den Gyldene Freden has served food since 1722. Address: Österlånggatan 51, Stockholm #stockholm #gamlastan">
+<meta property="og:title" content="Trying the OLDEST restaurant in Stockholm">
+<meta property="og:description" content="Den Gyldene Freden has served food since 1722. Address: Österlånggatan 51, Stockholm #stockholm #gamlastan">
+<meta property="og:image" content="https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg">
+<meta property="og:video:url" content="https://www.youtube.com/embed/dQw4w9WgXcQ">
+<meta property="og:video:type" content="text/html">
+</head><body></body></html>`,
+
+  [BLOG_URL]: `<!DOCTYPE html><html><head>
+<meta property='og:title' content='Pelikan – husmanskost sedan 1904'>
+<meta property='og:description' content='Vi åt pyttipanna på Pelikan på Södermalm.&#x0A;📍 Pelikan, Blekingegatan 40'>
+<meta property='og:image' content='https://example-foodblog.se/img/pelikan.jpg'>
+<meta name='geo.position' content='59.3097;18.0777'>
+<meta name='ICBM' content='59.0, 18.0'>
+</head><body></body></html>`,
+};
+
+export interface SocialMetadataCase {
+  url: string;
+  expected: CaptionSignals & {
+    platform: SocialPlatform;
+    author: string | null;
+    video_url: string | null;
+    geotag: GeoTag | null;
+  };
+}
+
+export const SOCIAL_METADATA_CASES: SocialMetadataCase[] = [
+  {
+    url: TIKTOK_URL,
+    expected: {
+      platform: 'tiktok',
+      author: 'foodie.sthlm',
+      caption: 'BEST RAMEN IN STOCKHOLM?? 🍜 Ramen Ki-mama never misses @ramenkimama #ramen #stockholm #foodtok',
+      hashtags: ['ramen', 'stockholm', 'foodtok'],
+      mentions: ['ramenkimama'],
+      location_tag: 'Ramen Ki-mama Götgatan',
+      video_url: null,
+      geotag: null,
+    },
+  },
+  {
+    url: TIKTOK_NO_STICKER_URL,
+    expected: {
+      platform: 'tiktok',
+      author: 'cph.eats',
+      caption: 'Smørrebrød you NEED to try\n📍 Aamanns Deli & Take Away, Østerbro #copenhagen #smørrebrød',
+      hashtags: ['copenhagen', 'smørrebrød'],
+      mentions: [],
+      location_tag: 'Aamanns Deli & Take Away, Østerbro',
+      video_url: null,
+      geotag: null,
+    },
+  },
+  {
+    url: INSTAGRAM_URL,
+    expected: {
+      platform: 'instagram',
+      author: 'meatball.lover',
+      caption: 'Swedish meatballs done right 🇸🇪\nLocation: Meatballs for the People, Nytorgsgatan 30\n@meatballsforthepeople #köttbullar #sthlmfood',
+      hashtags: ['köttbullar', 'sthlmfood'],
+      mentions: ['meatballsforthepeople'],
+      location_tag: 'Meatballs for the People, Nytorgsgatan 30',
+      video_url: 'https://scontent.cdninstagram.com/v/fixture-meatballs.mp4',
+      geotag: { lat: 59.3133, lng: 18.0805 },
+    },
+  },
+  {
+    url: YOUTUBE_URL,
+    expected: {
+      platform: 'youtube',
+      author: 'Nordic Food Trips',
+      caption: 'Den Gyldene Freden has served food since 1722. Address: Österlånggatan 51, Stockholm #stockholm #gamlastan',
+      hashtags: ['stockholm', 'gamlastan'],
+      mentions: [],
+      // "Address:" only counts at the start of a line
+      location_tag: null,
+      // The og:video is the embedded player, not a file
+      video_url: null,
+      geotag: null,
+    },
+  },
+  {
+    url: BLOG_URL,
+    expected: {
+      platform: 'other',
+      author: null,
+      caption: 'Vi åt pyttipanna på Pelikan på Södermalm.\n📍 Pelikan, Blekingegatan 40',
+      hashtags: [],
+      mentions: [],
+      location_tag: 'Pelikan, Blekingegatan 40',
+      video_url: null,
+      // geo.position comes before ICBM
+      geotag: { lat: 59.3097, lng: 18.0777 },
+    },
+  },
+];
+
+// Where short links redirect to, as seen when following them
+export const SHORT_LINK_REDIRECTS: Record<string, string> = {
+  'https://vm.tiktok.com/ZMhvqKx7a/':
+    'https://www.tiktok.com/@foodie.sthlm/video/7301234567890123456?_r=1&_t=8hXyZ&is_from_webapp=1&sender_device=mobile',
+  'https://www.tiktok.com/t/ZTRkq9Lp2/':
+    'https://www.tiktok.com/@Foodie.Sthlm/video/7301234567890123456?is_copy_url=1',
+  'https://m.tiktok.com/v/7309876543210987654.html':
+    'https://www.tiktok.com/@cph.eats/video/7309876543210987654',
+  'https://www.instagram.com/share/reel/BAxY12zQ9/':
+    'https://www.instagram.com/reel/C1a2b3c4d5e/?igsh=MWQ1ZGUxMzBkMA==',
+  'https://bit.ly/pelikan-blog':
+    'https://Example-FoodBlog.se:443/2024/05/pelikan-husmanskost/?utm_source=ig&utm_medium=social&page=2#comments',
+};
+
+export interface CanonicalUrlCase {
+  shared: string;
+  expected: Omit<CanonicalUrl, 'resolved_url'>;
+}
+
+export const CANONICAL_URL_CASES: CanonicalUrlCase[] = [
+  {
+    shared: 'https://vm.tiktok.com/ZMhvqKx7a/',
+    expected: { url: TIKTOK_URL, platform: 'tiktok', kind: 'video', id: '7301234567890123456' },
+  },
+  {
+    shared: 'https://www.tiktok.com/t/ZTRkq9Lp2/',
+    expected: { url: TIKTOK_URL, platform: 'tiktok', kind: 'video', id: '7301234567890123456' },
+  },
+  {
+    shared: `${TIKTOK_URL}?is_from_webapp=1&sender_device=pc&web_id=7300000000000000000`,
+    expected: { url: TIKTOK_URL, platform: 'tiktok', kind: 'video', id: '7301234567890123456' },
+  },
+  {
+    // The id alone is followed to learn the user
+    shared: 'https://m.tiktok.com/v/7309876543210987654.html',
+    expected: { url: TIKTOK_NO_STICKER_URL, platform: 'tiktok', kind: 'video', id: '7309876543210987654' },
+  },
+  {
+    shared: 'https://www.instagram.com/share/reel/BAxY12zQ9/',
+    expected: { url: 'https://www.instagram.com/p/C1a2b3c4d5e/', platform: 'instagram', kind: 'reel', id: 'C1a2b3c4d5e' },
+  },
+  {
+    shared: 'https://www.instagram.com/meatball.lover/reel/C1a2b3c4d5e/?utm_source=ig_web_copy_link',
+    expected: { url: 'https://www.instagram.com/p/C1a2b3c4d5e/', platform: 'instagram', kind: 'reel', id: 'C1a2b3c4d5e' },
+  },
+  {
+    shared: 'https://instagr.am/p/C0zYxWvUtSr',
+    expected: { url: 'https://www.instagram.com/p/C0zYxWvUtSr/', platform: 'instagram', kind: 'post', id: 'C0zYxWvUtSr' },
+  },
+  {
+    shared: 'https://youtu.be/dQw4w9WgXcQ?si=Ab12Cd34Ef56Gh78',
+    expected: { url: YOUTUBE_URL, platform: 'youtube', kind: 'video', id: 'dQw4w9WgXcQ' },
+  },
+  {
+    shared: 'https://m.youtube.com/watch?feature=share&v=dQw4w9WgXcQ&t=42',
+    expected: { url: YOUTUBE_URL, platform: 'youtube', kind: 'video', id: 'dQw4w9WgXcQ' },
+  },
+  {
+    shared: 'https://youtube.com/shorts/aBcDeFgHiJk?feature=share',
+    expected: { url: 'https://www.youtube.com/watch?v=aBcDeFgHiJk', platform: 'youtube', kind: 'short', id: 'aBcDeFgHiJk' },
+  },
+  {
+    shared: 'https://bit.ly/pelikan-blog',
+    expected: { url: 'https://example-foodblog.se/2024/05/pelikan-husmanskost?page=2', platform: 'other', kind: 'page', id: null },
+  },
+];
+
+// Addresses a shared link's host can resolve to, and whether imports may
+// fetch from them
+export const PUBLIC_ADDRESS_CASES: Array<{ address: string; expected: boolean }> = [
+  { address: '142.250.74.46', expected: true },
+  { address: '2a03:2880:f12f:83:face:b00c:0:25de', expected: true },
+  { address: '127.0.0.1', expected: false },
+  { address: '10.0.3.7', expected: false },
+  { address: '172.17.0.1', expected: false },
+  { address: '192.168.1.1', expected: false },
+  { address: '169.254.169.254', expected: false },
+  { address: '100.64.0.1', expected: false },
+  { address: '0.0.0.0', expected: false },
+  { address: '::1', expected: false },
+  { address: '::', expected: false },
+  { address: 'fd00::1', expected: false },
+  { address: 'fe80::1%eth0', expected: false },
+  { address: '::ffff:169.254.169.254', expected: false },
+  { address: '::ffff:8.8.8.8', expected: true },
+  { address: '64:ff9b::10.0.0.1', expected: false },
+  { address: 'localhost', expected: false },
+];
@@ -0,0 +1,101 @@
+// Food and venue keywords per language, for spotting restaurant names in
+// OCR text. Keywords are compared after folding diacritics on both sides.
+// Longer keywords match inside words, so compounds like "pizzabageri" or
+// "smørrebrødsbar" match too; short ones ("bar", "mat") only as whole words.
+
+import { compareKey } from './text.ts';
+
+export type KeywordLocale = 'en' | 'sv' | 'da' | 'no' | 'fi' | 'de' | 'fr' | 'it' | 'es';
+
+export const FOOD_KEYWORDS_BY_LOCALE: Record<KeywordLocale, string[]> = {
+  en: [
+    'burger', 'pizza', 'sushi', 'café', 'cafe', 'bakery', 'bar', 'grill',
+    'kebab', 'ramen', 'taco', 'steak', 'bistro', 'brunch', 'restaurant',
+    'diner', 'eatery', 'kitchen', 'food', 'dining', 'cuisine',
+  ],
+  sv: [
+    'restaurang', 'krog', 'kök', 'bageri', 'konditori', 'kafé', 'fika', 'matsal',
+    'pizzeria', 'smörgås', 'husmanskost', 'gatukök', 'korvkiosk', 'ölhall', 'vinbar',
+    'bakficka', 'lunch', 'middag', 'mat',
+  ],
+  da: [
+    'restaurant', 'kro', 'køkken', 'bageri', 'konditori', 'smørrebrød', 'spisested',
+    'frokost', 'pølsevogn', 'vinbar', 'ølbar', 'mad',
+  ],
+  no: [
+    'restaurant', 'kro', 'kjøkken', 'bakeri', 'konditori', 'spisested', 'kafé',
+    'lunsj', 'middag', 'gatekjøkken', 'vinbar', 'mat',
+  ],
+  fi: [
+    'ravintola', 'kahvila', 'leipomo', 'konditoria', 'baari', 'grilli', 'ruokala',
+    'pizzeria', 'lounas', 'bistro', 'ruoka',
+  ],
+  de: [
+    'restaurant', 'gaststätte', 'wirtshaus', 'küche', 'bäckerei', 'konditorei',
+    'imbiss', 'brauhaus', 'biergarten', 'kneipe', 'weinbar',
+  ],
+  fr: [
+    'restaurant', 'brasserie', 'boulangerie', 'pâtisserie', 'crêperie', 'bistrot',
+    'cuisine', 'traiteur', 'bar à vin',
+  ],
+  it: [
+    'ristorante', 'trattoria', 'osteria', 'pizzeria', 'enoteca', 'gelateria',
+    'pasticceria', 'panificio', 'cucina',
+  ],
+  es: [
+    'restaurante', 'cocina', 'taberna', 'tasca', 'panadería', 'pastelería',
+    'cervecería', 'marisquería', 'asador',
+  ],
+};
+
+// Every keyword in every language
+export const FOOD_KEYWORDS: string[] = [...new Set(Object.values(FOOD_KEYWORDS_BY_LOCALE).flat())];
+
+// Languages worth checking for a country (ISO code or name). English is
+// always included since overlays are often in English anywhere.
+const COUNTRY_LOCALES: Record<string, KeywordLocale[]> = {
+  se: ['sv'],
+  sweden: ['sv'],
+  dk: ['da'],
+  denmark: ['da'],
+  no: ['no', 'da'],
+  norway: ['no', 'da'],
+  fi: ['fi', 'sv'],
+  finland: ['fi', 'sv'],
+  de: ['de'],
+  germany: ['de'],
+  at: ['de'],
+  ch: ['de', 'fr', 'it'],
+  fr: ['fr'],
+  france: ['fr'],
+  be: ['fr'],
+  it: ['it'],
+  italy: ['it'],
+  es: ['es'],
+  spain: ['es'],
+  mx: ['es'],
+};
+
+export function localesForCountry(country?: string): KeywordLocale[] {
+  const locales = country ? COUNTRY_LOCALES[country.trim().toLowerCase()] : undefined;
+  // Without a country check every language
+  if (!locales) return country ? ['en'] : (Object.keys(FOOD_KEYWORDS_BY_LOCALE) as KeywordLocale[]);
+  return ['en', ...locales];
+}
+
+// Keywords to check for the given locales (all languages by default)
+export function foodKeywordsFor(locales?: KeywordLocale[]): string[] {
+  if (!locales) return FOOD_KEYWORDS;
+  return [...new Set(locales.flatMap(locale => FOOD_KEYWORDS_BY_LOCALE[locale]))];
+}
+
+const SUBSTRING_KEYWORD_LENGTH = 5;
+
+export function hasFoodKeyword(text: string, locales?: KeywordLocale[]): boolean {
+  const key = compareKey(text);
+  const words = key.split(' ');
+  return foodKeywordsFor(locales).some(keyword => {
+    const keywordKey = compareKey(keyword);
+    return keywordKey.length >= SUBSTRING_KEYWORD_LENGTH ? key.includes(keywordKey) : words.includes(keywordKey);
+  });
+}
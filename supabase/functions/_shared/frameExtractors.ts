@@ -0,0 +1,22 @@
+// Pick the frame extractor for an edge function request.
+import { FakeFrameExtractor, FFmpegFrameExtractor, FrameExtractor, FrameExtractorName } from './frames.ts'
+import { FIXTURE_STILL } from './fixtures/frameFixtures.ts'
+
+// The FRAME_EXTRACTOR env var, or ffmpeg. Requests can't choose, so only
+// the deployment can swap in the fake. FFMPEG_PATH / FFPROBE_PATH point at
+// binaries outside PATH.
+export function createFrameExtractor(): FrameExtractor {
+  const extractorName = (Deno.env.get('FRAME_EXTRACTOR') || 'ffmpeg') as FrameExtractorName;
+
+  switch (extractorName) {
+    case 'ffmpeg':
+      return new FFmpegFrameExtractor(
+        Deno.env.get('FFMPEG_PATH') || undefined,
+        Deno.env.get('FFPROBE_PATH') || undefined
+      );
+    case 'fake':
+      return new FakeFrameExtractor(FIXTURE_STILL);
+    default:
+      throw new Error(`Unknown frame extractor: ${extractorName}`);
+  }
+}
@@ -0,0 +1,231 @@
+// Frame extraction contract for extract_frames. An extractor takes a video
+// file on disk and returns JPEG stills at the timestamps frameTimestamps()
+// picks, with the size read from each JPEG rather than assumed. ffmpeg does
+// the work in production; FakeFrameExtractor stands in for it where ffmpeg
+// isn't installed (local runs, checks), returning a fixture still at the
+// same timestamps.
+
+export type FrameExtractorName = 'ffmpeg' | 'fake';
+
+export interface FrameSamplingOptions {
+  // Seconds between frames
+  interval_seconds: number;
+  max_frames: number;
+  // The very first frame is often black
+  start_seconds: number;
+}
+
+export const DEFAULT_FRAME_SAMPLING: FrameSamplingOptions = {
+  interval_seconds: 1.5,
+  max_frames: 12,
+  start_seconds: 0.25,
+};
+
+// Frames this close to the end are often a fade-out
+const END_MARGIN_SECONDS = 0.5;
+
+// ffmpeg and ffprobe may only read the local file, as one of the container
+// formats phones and the platforms record in. A downloaded file is whatever
+// the server sent, and playlist or concat formats would have ffmpeg open
+// other files and URLs it names.
+const INPUT_WHITELIST = [
+  '-protocol_whitelist', 'file',
+  '-format_whitelist', 'mov,mp4,m4a,matroska,webm',
+];
+
+// Each ffprobe or ffmpeg run is killed after this long
+const COMMAND_TIMEOUT_MS = 20_000;
+
+export interface ExtractedFrame {
+  // Seconds into the video
+  timestamp: number;
+  width: number;
+  height: number;
+  jpeg: Uint8Array;
+}
+
+export interface FrameExtraction {
+  duration: number;
+  frames: ExtractedFrame[];
+}
+
+export interface FrameExtractor {
+  readonly name: FrameExtractorName;
+  extract(videoPath: string, options?: Partial<FrameSamplingOptions>): Promise<FrameExtraction>;
+}
+
+/**
+ * Timestamps to sample: every interval from the start offset until just
+ * before the end, capped at max_frames. A clip too short for that still
+ * gets its middle frame.
+ */
+export function frameTimestamps(durationSeconds: number, options: Partial<FrameSamplingOptions> = {}): number[] {
+  const { interval_seconds, max_frames, start_seconds } = { ...DEFAULT_FRAME_SAMPLING, ...options };
+  const last = durationSeconds - END_MARGIN_SECONDS;
+
+  const timestamps: number[] = [];
+  for (let t = start_seconds; t <= last && timestamps.length < max_frames; t += interval_seconds) {
+    timestamps.push(Math.round(t * 1000) / 1000);
+  }
+
+  if (timestamps.length === 0 && durationSeconds > 0) {
+    timestamps.push(Math.round(durationSeconds / 2 * 1000) / 1000);
+  }
+  return timestamps;
+}
+
+/**
+ * Width and height from a JPEG's start-of-frame marker, or null when the
+ * bytes aren't a JPEG
+ */
+export function jpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Padding before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      // Precision, then height before width
+      return {
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// ffmpeg and ffprobe from PATH (or the given binaries), one seek per frame
+export class FFmpegFrameExtractor implements FrameExtractor {
+  readonly name = 'ffmpeg' as const;
+
+  constructor(
+    private readonly ffmpegPath = 'ffmpeg',
+    private readonly ffprobePath = 'ffprobe'
+  ) {}
+
+  async extract(videoPath: string, options: Partial<FrameSamplingOptions> = {}): Promise<FrameExtraction> {
+    const duration = await this.probeDuration(videoPath);
+    const outputDir = await Deno.makeTempDir({ prefix: 'frames_' });
+
+    try {
+      const frames: ExtractedFrame[] = [];
+      for (const [index, timestamp] of frameTimestamps(duration, options).entries()) {
+        const outputPath = `${outputDir}/frame_${index}.jpg`;
+        // -ss before -i seeks on keyframes and decodes from there, which is
+        // exact and much faster than decoding from the start
+        await this.run(this.ffmpegPath, [
+          '-hide_banner', '-loglevel', 'error',
+          '-ss', String(timestamp),
+          ...INPUT_WHITELIST,
+          '-i', videoPath,
+          '-frames:v', '1',
+          '-q:v', '3',
+          '-y', outputPath,
+        ]);
+
+        let jpeg: Uint8Array;
+        try {
+          jpeg = await Deno.readFile(outputPath);
+        } catch {
+          // Seeking past the last keyframe of a badly muxed file writes nothing
+          console.warn(`ffmpeg wrote no frame at ${timestamp}s of ${videoPath}`);
+          continue;
+        }
+
+        const size = jpegSize(jpeg);
+        if (!size) {
+          throw new Error(`ffmpeg wrote an unreadable frame at ${timestamp}s`);
+        }
+        frames.push({ timestamp, ...size, jpeg });
+      }
+
+      return { duration, frames };
+    } finally {
+      await Deno.remove(outputDir, { recursive: true });
+    }
+  }
+
+  private async probeDuration(videoPath: string): Promise<number> {
+    const output = await this.run(this.ffprobePath, [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'json',
+      ...INPUT_WHITELIST,
+      videoPath,
+    ]);
+    const duration = Number(JSON.parse(output).format?.duration);
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error('Could not read the video duration; is it a video file?');
+    }
+    return duration;
+  }
+
+  private async run(binary: string, args: string[]): Promise<string> {
+    const child = new Deno.Command(binary, { args, stdin: 'null', stdout: 'piped', stderr: 'piped' }).spawn();
+    let timedOut = false;
+    const deadline = setTimeout(() => {
+      timedOut = true;
+      try {
+        child.kill('SIGKILL');
+      } catch {
+        // Exited just now
+      }
+    }, COMMAND_TIMEOUT_MS);
+
+    try {
+      const { code, stdout, stderr } = await child.output();
+      if (timedOut) {
+        throw new Error(`${binary} was killed after ${COMMAND_TIMEOUT_MS / 1000}s`);
+      }
+      if (code !== 0) {
+        throw new Error(`${binary} exited with ${code}: ${new TextDecoder().decode(stderr).trim()}`);
+      }
+      return new TextDecoder().decode(stdout);
+    } finally {
+      clearTimeout(deadline);
+    }
+  }
+}
+
+// Stand-in for ffmpeg: the same still at every timestamp ffmpeg would
+// sample from a video of the given duration. Records the files it was asked
+// to read.
+export class FakeFrameExtractor implements FrameExtractor {
+  readonly name = 'fake' as const;
+  readonly requests: string[] = [];
+  private readonly size: { width: number; height: number };
+
+  constructor(
+    private readonly still: Uint8Array,
+    private readonly durationSeconds = 10
+  ) {
+    const size = jpegSize(still);
+    if (!size) {
+      throw new Error('FakeFrameExtractor needs a JPEG still');
+    }
+    this.size = size;
+  }
+
+  async extract(videoPath: string, options: Partial<FrameSamplingOptions> = {}): Promise<FrameExtraction> {
+    this.requests.push(videoPath);
+    return {
+      duration: this.durationSeconds,
+      frames: frameTimestamps(this.durationSeconds, options).map(timestamp => ({
+        timestamp,
+        ...this.size,
+        jpeg: this.still,
+      })),
+    };
+  }
+}
@@ -0,0 +1,410 @@
+// Offline city lookup over a bundled GeoNames subset (geonamesCities.ts), so
+// a city named in OCR text, a caption or an account handle can be resolved
+// to coordinates without a geocoding API. Names match regardless of case and
+// accents ("Malmo" finds Malmö), through alternate names ("Köpenhamn",
+// "Gothenburg") and abbreviations ("CPH", "NYC"). Like ocr.ts this file must
+// stay free of runtime imports so the app can load it.
+
+// A row of GeoNames' cities export without the columns we don't use:
+// name, asciiname, alternatenames (comma separated), latitude, longitude,
+// country code, admin1 code (state for the US, else empty), population
+export type GeoNamesCityRow = [string, string, string, number, number, string, string, number];
+
+export interface GazetteerCity {
+  name: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+  // US state code, else null
+  admin1: string | null;
+  lat: number;
+  lng: number;
+  population: number;
+}
+
+export interface CityMention {
+  city: GazetteerCity;
+  // The text that named the city, as written
+  text: string;
+  // Character offset of text in the searched string
+  index: number;
+  // Followed by a country or state that agrees ("Paris, TX", "Stockholm, SE")
+  qualified: boolean;
+}
+
+export interface GazetteerOptions {
+  // ISO country to prefer when a name is ambiguous (e.g. from the user's location)
+  country?: string;
+}
+
+// Country names, native names and abbreviations by ISO code
+export const COUNTRY_NAMES: Record<string, string[]> = {
+  SE: ['Sweden', 'Sverige'],
+  DK: ['Denmark', 'Danmark'],
+  NO: ['Norway', 'Norge', 'Noreg'],
+  FI: ['Finland', 'Suomi'],
+  IS: ['Iceland', 'Ísland'],
+  GB: ['United Kingdom', 'UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  IE: ['Ireland', 'Éire'],
+  US: ['United States', 'USA', 'US', 'United States of America', 'America'],
+  CA: ['Canada'],
+  MX: ['Mexico', 'México'],
+  FR: ['France'],
+  DE: ['Germany', 'Deutschland'],
+  NL: ['Netherlands', 'Nederland', 'Holland'],
+  BE: ['Belgium', 'België', 'Belgique'],
+  CH: ['Switzerland', 'Schweiz', 'Suisse', 'Svizzera'],
+  AT: ['Austria', 'Österreich'],
+  CZ: ['Czech Republic', 'Czechia', 'Česko'],
+  PL: ['Poland', 'Polska'],
+  HU: ['Hungary', 'Magyarország'],
+  ES: ['Spain', 'España'],
+  PT: ['Portugal'],
+  IT: ['Italy', 'Italia'],
+  GR: ['Greece', 'Ελλάδα'],
+  EE: ['Estonia', 'Eesti'],
+  LV: ['Latvia', 'Latvija'],
+  LT: ['Lithuania', 'Lietuva'],
+  TR: ['Turkey', 'Türkiye'],
+  AE: ['United Arab Emirates', 'UAE'],
+  JP: ['Japan', '日本'],
+  KR: ['South Korea', 'Korea'],
+  TH: ['Thailand'],
+  SG: ['Singapore'],
+  HK: ['Hong Kong'],
+  AU: ['Australia'],
+};
+
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia',
+  FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois',
+  IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+  ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada',
+  NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York',
+  NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon',
+  PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota',
+  TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia',
+  WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+// City names that are also everyday words; in running text they only count
+// when capitalized
+const COMMON_WORD_NAMES = new Set(['nice', 'bath', 'reading', 'split', 'mobile', 'rom', 'lund', 'york', 'essen', 'bonn', 'cork', 'porto', 'abo']);
+
+// Words around a city in account handles and hashtags: @foodmalmo,
+// @cph.eats, #stockholmfood
+const HANDLE_AFFIXES = ['foodies', 'foodie', 'food', 'eats', 'eat', 'guiden', 'guide', 'bites', 'mat', 'tok', 'the'];
+
+// Same folding as compareKey in text.ts, repeated here to keep the file
+// import-free
+const FOLDED_LETTERS: Record<string, string> = {
+  'ø': 'o', 'æ': 'ae', 'œ': 'oe', 'ß': 'ss', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l', 'ı': 'i',
+};
+
+function foldWord(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[øæœßđðþłı]/g, letter => FOLDED_LETTERS[letter])
+    .replace(/[.'’]/g, '');
+}
+
+function nameKey(name: string): string {
+  return name.split(/[\s,-]+/).map(foldWord).filter(Boolean).join(' ');
+}
+
+// Short all-caps names ("LA", "SF", "CPH") are abbreviations and only match
+// text written in capitals, outside of handles and hashtags
+function isAbbreviation(name: string): boolean {
+  const letters = name.replace(/[.\s]/g, '');
+  return letters.length <= 3 && /^\p{Lu}+$/u.test(letters);
+}
+
+interface IndexEntry {
+  city: GazetteerCity;
+  abbreviation: boolean;
+}
+
+interface Token {
+  text: string;
+  key: string;
+  index: number;
+  // Written after # or @
+  tagged: boolean;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’.][\p{L}\p{N}]+)*/gu;
+
+// Longest city name, in words, to look for ("Newcastle upon Tyne")
+const MAX_NAME_WORDS = 4;
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(TOKEN_PATTERN)].map(match => {
+    const index = match.index ?? 0;
+    return {
+      text: match[0],
+      key: foldWord(match[0]),
+      index,
+      tagged: index > 0 && (text[index - 1] === '#' || text[index - 1] === '@'),
+    };
+  });
+}
+
+export class Gazetteer {
+  private readonly cities: GazetteerCity[] = [];
+  private readonly index = new Map<string, IndexEntry[]>();
+  private readonly countryIndex = new Map<string, string>();
+  private readonly countryAbbreviations = new Map<string, string>();
+
+  constructor(rows: GeoNamesCityRow[]) {
+    for (const [name, asciiName, alternateNames, lat, lng, country, admin1, population] of rows) {
+      const city: GazetteerCity = { name, country, admin1: admin1 || null, lat, lng, population };
+      this.cities.push(city);
+      const names = [name, asciiName, ...alternateNames.split(',')].map(alias => alias.trim()).filter(Boolean);
+      const seen = new Set<string>();
+
+      for (const alias of names) {
+        const key = nameKey(alias);
+        const abbreviation = isAbbreviation(alias);
+        if (!key || seen.has(`${key}|${abbreviation}`)) continue;
+        seen.add(`${key}|${abbreviation}`);
+
+        const entries = this.index.get(key) ?? [];
+        entries.push({ city, abbreviation });
+        this.index.set(key, entries);
+      }
+    }
+
+    for (const [code, names] of Object.entries(COUNTRY_NAMES)) {
+      this.countryAbbreviations.set(code, code);
+      for (const name of names) {
+        if (isAbbreviation(name)) this.countryAbbreviations.set(name, code);
+        else this.countryIndex.set(nameKey(name), code);
+      }
+    }
+  }
+
+  /**
+   * Cities with this name or alternate name, most populous first
+   */
+  candidates(name: string): GazetteerCity[] {
+    const entries = this.index.get(nameKey(name)) ?? [];
+    return [...new Set(entries.map(entry => entry.city))].sort((a, b) => b.population - a.population);
+  }
+
+  /**
+   * The city a name refers to: "Malmo", "Köpenhamn", "Paris, TX",
+   * "Stockholm, Sweden". Ambiguous names go to options.country, else to the
+   * most populous city.
+   */
+  lookup(name: string, options: GazetteerOptions = {}): GazetteerCity | null {
+    const [head, ...rest] = name.split(',');
+    const qualifier = rest.join(',').trim();
+    const cities = this.candidates(head);
+    if (cities.length === 0) return null;
+
+    if (qualifier) {
+      const qualified = cities.find(city => this.matchesQualifier(city, qualifier));
+      if (qualified) return qualified;
+    }
+    return this.pick(cities, options);
+  }
+
+  /**
+   * Every city named in free text, in order. Handles and hashtags are split
+   * around food words, so #stockholmfood and @foodie.sthlm count too.
+   */
+  findMentions(text: string, options: GazetteerOptions = {}): CityMention[] {
+    const tokens = tokenize(text);
+    const mentions: CityMention[] = [];
+    // OCR of signs is often all caps, where "LA" is just as likely Spanish
+    const shouting = text === text.toUpperCase();
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.tagged) {
+        const city = this.fromHandle(token.text, options);
+        if (city) {
+          mentions.push({ city, text: token.text, index: token.index, qualified: false });
+          continue;
+        }
+      }
+
+      for (let words = Math.min(MAX_NAME_WORDS, tokens.length - i); words >= 1; words--) {
+        const span = tokens.slice(i, i + words);
+        const cities = this.matchSpan(span, shouting);
+        if (cities.length === 0) continue;
+
+        const end = span[span.length - 1];
+        const spanText = text.slice(token.index, end.index + end.text.length);
+        const qualifier = this.qualifierAfter(text, tokens, i + words);
+        const qualified = qualifier ? cities.find(city => this.matchesQualifier(city, qualifier.text)) : undefined;
+
+        mentions.push({
+          city: qualified ?? this.pick(cities, options),
+          text: spanText,
+          index: token.index,
+          qualified: qualified !== undefined,
+        });
+        i += words - 1 + (qualified && qualifier ? qualifier.words : 0);
+        break;
+      }
+    }
+
+    return mentions;
+  }
+
+  /**
+   * The city a text is most likely about: the one named most often, with a
+   * matching country or state counting as one more mention
+   */
+  resolve(text: string, options: GazetteerOptions = {}): CityMention | null {
+    const mentions = this.findMentions(text, options);
+    if (mentions.length === 0) return null;
+
+    const scores = new Map<GazetteerCity, number>();
+    for (const mention of mentions) {
+      scores.set(mention.city, (scores.get(mention.city) ?? 0) + 1 + (mention.qualified ? 1 : 0));
+    }
+
+    const ranked = [...scores.entries()].sort(
+      ([a, scoreA], [b, scoreB]) => scoreB - scoreA || b.population - a.population
+    );
+    const best = ranked[0][0];
+    return mentions.find(mention => mention.city === best && mention.qualified) ??
+      mentions.find(mention => mention.city === best)!;
+  }
+
+  /**
+   * The city in an account handle or hashtag: "foodmalmo", "cph.eats",
+   * "stockholmfoodguide"
+   */
+  fromHandle(handle: string, options: GazetteerOptions = {}): GazetteerCity | null {
+    const parts = foldWord(handle.replace(/^[@#]/, '').replace(/[._\d-]+/g, ' ')).split(/\s+/).filter(Boolean);
+
+    for (const part of parts) {
+      for (const candidate of stripAffixes(part)) {
+        const entries = COMMON_WORD_NAMES.has(candidate) ? undefined : this.index.get(candidate);
+        if (entries) return this.pick(entries.map(entry => entry.city), options);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The city a point lies in or next to, or null when no city in the
+   * gazetteer is within maxKm
+   */
+  nearest(lat: number, lng: number, maxKm = 40): GazetteerCity | null {
+    let best: GazetteerCity | null = null;
+    let bestKm = maxKm;
+    for (const city of this.cities) {
+      const km = distanceKm(lat, lng, city.lat, city.lng);
+      if (km <= bestKm) {
+        best = city;
+        bestKm = km;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * "Stockholm, Sweden", "Austin, TX"
+   */
+  label(city: GazetteerCity): string {
+    if (city.country === 'US' && city.admin1) return `${city.name}, ${city.admin1}`;
+    return `${city.name}, ${countryName(city.country)}`;
+  }
+
+  private matchSpan(span: Token[], shouting: boolean): GazetteerCity[] {
+    const entries = this.index.get(span.map(token => token.key).join(' '));
+    if (!entries) return [];
+
+    const written = span.map(token => token.text).join(' ');
+    const capitalized = /^\p{Lu}/u.test(written);
+    const allCaps = written === written.toUpperCase();
+
+    return entries
+      .filter(entry => !entry.abbreviation || (allCaps && !shouting))
+      .filter(entry => span.length > 1 || !COMMON_WORD_NAMES.has(span[0].key) || capitalized)
+      .map(entry => entry.city);
+  }
+
+  // A country or US state right after a city, optionally after a comma
+  private qualifierAfter(text: string, tokens: Token[], start: number): { text: string; words: number } | null {
+    if (start >= tokens.length) return null;
+    const previous = tokens[start - 1];
+    const gap = text.slice(previous.index + previous.text.length, tokens[start].index);
+    if (!/^\s*,?\s*$/.test(gap)) return null;
+
+    for (let words = Math.min(4, tokens.length - start); words >= 1; words--) {
+      const span = tokens.slice(start, start + words);
+      const spanText = span.map(token => token.text).join(' ');
+      if (this.countryCode(spanText) || this.stateCode(spanText)) {
+        return { text: spanText, words };
+      }
+    }
+    return null;
+  }
+
+  private matchesQualifier(city: GazetteerCity, qualifier: string): boolean {
+    if (this.countryCode(qualifier) === city.country) return true;
+    return city.country === 'US' && this.stateCode(qualifier) === city.admin1;
+  }
+
+  // Codes and abbreviations only count in capitals: "SE", "UK", not "no"
+  private countryCode(text: string): string | null {
+    const code = text.replace(/\./g, '');
+    if (/^[A-Z]{2,3}$/.test(code)) return this.countryAbbreviations.get(code) ?? null;
+    return this.countryIndex.get(nameKey(text)) ?? null;
+  }
+
+  private stateCode(text: string): string | null {
+    const code = text.replace(/\./g, '');
+    if (/^[A-Z]{2}$/.test(code) && US_STATES[code]) return code;
+    const key = nameKey(text);
+    return Object.keys(US_STATES).find(state => nameKey(US_STATES[state]) === key) ?? null;
+  }
+
+  private pick(cities: GazetteerCity[], options: GazetteerOptions): GazetteerCity {
+    const country = options.country?.toUpperCase();
+    const sorted = [...new Set(cities)].sort((a, b) => b.population - a.population);
+    return sorted.find(city => city.country === country) ?? sorted[0];
+  }
+}
+
+// "foodmalmo" -> "foodmalmo", "malmo"; "stockholmfoodguide" -> ..., "stockholm"
+function stripAffixes(part: string): string[] {
+  const results = [part];
+  let current = [part];
+
+  for (let round = 0; round < 3; round++) {
+    const next: string[] = [];
+    for (const word of current) {
+      for (const affix of HANDLE_AFFIXES) {
+        if (word.length - affix.length < 2) continue;
+        if (word.startsWith(affix)) next.push(word.slice(affix.length));
+        if (word.endsWith(affix)) next.push(word.slice(0, -affix.length));
+      }
+    }
+    if (next.length === 0) break;
+    results.push(...next);
+    current = next;
+  }
+
+  return [...new Set(results)];
+}
+
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (degrees: number) => degrees * Math.PI / 180;
+  const h = Math.sin(toRad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+export function countryName(code: string): string {
+  return COUNTRY_NAMES[code.toUpperCase()]?.[0] ?? code;
+}
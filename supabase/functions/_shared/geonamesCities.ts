@@ -0,0 +1,238 @@
+// Cities for the offline gazetteer: a subset of GeoNames' cities15000 export
+// (https://download.geonames.org/export/dump/, CC BY 4.0), trimmed to the
+// columns in GeoNamesCityRow and to the alternate names people actually
+// write in captions: English and local spellings, the other Nordic
+// languages' names and common abbreviations. Covers the Nordics, the UK,
+// the US, France and Germany in depth and other big food cities broadly.
+// Import-free apart from the row type, so the app can load it.
+
+import type { GeoNamesCityRow } from './gazetteer.ts';
+
+export const GEONAMES_CITIES: GeoNamesCityRow[] = [
+  // Sweden
+  ['Stockholm', 'Stockholm', 'Sthlm,STHLM,Estocolmo,Stoccolma,Tukholma,Stokkhólmur', 59.32938, 18.06871, 'SE', '', 1515017],
+  ['Göteborg', 'Goeteborg', 'Gothenburg,Goteborg,GBG,Gbg,Gøteborg,Göteborg stad,Gotemburgo', 57.70716, 11.96679, 'SE', '', 572799],
+  ['Malmö', 'Malmoe', 'Malmo,Malmø', 55.60587, 13.00073, 'SE', '', 301706],
+  ['Uppsala', 'Uppsala', 'Upsala', 59.85882, 17.63889, 'SE', '', 133117],
+  ['Västerås', 'Vasteras', 'Vaesteraas', 59.61617, 16.55276, 'SE', '', 110877],
+  ['Örebro', 'OErebro', 'Orebro', 59.27412, 15.2066, 'SE', '', 107038],
+  ['Linköping', 'Linkoeping', 'Linkoping', 58.41086, 15.62157, 'SE', '', 104232],
+  ['Helsingborg', 'Helsingborg', 'Hälsingborg', 56.04673, 12.69437, 'SE', '', 97122],
+  ['Jönköping', 'Joenkoeping', 'Jonkoping', 57.78145, 14.15618, 'SE', '', 93797],
+  ['Norrköping', 'Norrkoeping', 'Norrkoping', 58.59419, 16.1826, 'SE', '', 93765],
+  ['Lund', 'Lund', '', 55.70584, 13.19321, 'SE', '', 82800],
+  ['Umeå', 'Umea', 'Uumaja', 63.82842, 20.25972, 'SE', '', 83249],
+  ['Gävle', 'Gaevle', 'Gavle', 60.67452, 17.14174, 'SE', '', 68635],
+  ['Borås', 'Boras', 'Boraas', 57.72101, 12.9401, 'SE', '', 66273],
+  ['Eskilstuna', 'Eskilstuna', '', 59.36661, 16.5077, 'SE', '', 67359],
+  ['Södertälje', 'Soedertaelje', 'Sodertalje', 59.19554, 17.62525, 'SE', '', 64619],
+  ['Halmstad', 'Halmstad', '', 56.67446, 12.85676, 'SE', '', 55657],
+  ['Växjö', 'Vaexjoe', 'Vaxjo', 56.87767, 14.80906, 'SE', '', 60887],
+  ['Karlstad', 'Karlstad', '', 59.3793, 13.50357, 'SE', '', 58544],
+  ['Sundsvall', 'Sundsvall', '', 62.39129, 17.3063, 'SE', '', 51354],
+  ['Östersund', 'OEstersund', 'Ostersund', 63.1792, 14.63566, 'SE', '', 44327],
+  ['Luleå', 'Lulea', 'Luleaa', 65.58415, 22.15465, 'SE', '', 48728],
+  ['Trollhättan', 'Trollhaettan', 'Trollhattan', 58.28365, 12.28864, 'SE', '', 44543],
+  ['Kalmar', 'Kalmar', '', 56.66157, 16.36163, 'SE', '', 36392],
+  ['Kristianstad', 'Kristianstad', '', 56.03129, 14.15242, 'SE', '', 35711],
+  ['Skellefteå', 'Skelleftea', 'Skellefteaa', 64.75067, 20.95279, 'SE', '', 32775],
+  ['Visby', 'Visby', '', 57.64089, 18.29602, 'SE', '', 22593],
+  ['Kiruna', 'Kiruna', 'Giron', 67.85572, 20.22513, 'SE', '', 18154],
+
+  // Denmark
+  ['København', 'Kobenhavn', 'Copenhagen,Kopenhamn,Köpenhamn,Kopenhagen,Copenhague,Copenaghen,Kööpenhamina,CPH,KBH,Kbh', 55.67594, 12.56553, 'DK', '', 1153615],
+  ['Aarhus', 'Aarhus', 'Århus,Arhus', 56.15674, 10.21076, 'DK', '', 285273],
+  ['Odense', 'Odense', '', 55.39594, 10.38831, 'DK', '', 180863],
+  ['Aalborg', 'Aalborg', 'Ålborg,Alborg', 57.048, 9.9187, 'DK', '', 119862],
+  ['Esbjerg', 'Esbjerg', '', 55.47028, 8.45187, 'DK', '', 72205],
+  ['Randers', 'Randers', '', 56.4607, 10.03639, 'DK', '', 62802],
+  ['Kolding', 'Kolding', '', 55.4904, 9.47216, 'DK', '', 61121],
+  ['Horsens', 'Horsens', '', 55.86066, 9.85034, 'DK', '', 59449],
+  ['Vejle', 'Vejle', '', 55.70927, 9.5357, 'DK', '', 60231],
+  ['Roskilde', 'Roskilde', '', 55.64152, 12.08035, 'DK', '', 51916],
+  ['Helsingør', 'Helsingor', 'Elsinore,Helsingoer', 56.03606, 12.6136, 'DK', '', 47168],
+
+  // Norway
+  ['Oslo', 'Oslo', 'Christiania,Kristiania', 59.91273, 10.74609, 'NO', '', 709037],
+  ['Bergen', 'Bergen', 'Björgvin', 60.39299, 5.32415, 'NO', '', 285911],
+  ['Trondheim', 'Trondheim', 'Trondhjem,Nidaros', 63.43049, 10.39506, 'NO', '', 212660],
+  ['Stavanger', 'Stavanger', '', 58.97005, 5.73332, 'NO', '', 144699],
+  ['Drammen', 'Drammen', '', 59.74389, 10.20449, 'NO', '', 103291],
+  ['Fredrikstad', 'Fredrikstad', '', 59.2181, 10.9298, 'NO', '', 83761],
+  ['Kristiansand', 'Kristiansand', '', 58.14671, 7.9956, 'NO', '', 113737],
+  ['Tromsø', 'Tromso', 'Tromsoe,Romsa', 69.6489, 18.95508, 'NO', '', 77544],
+  ['Sandnes', 'Sandnes', '', 58.85244, 5.73521, 'NO', '', 81305],
+  ['Ålesund', 'Alesund', 'Aalesund', 62.47225, 6.15492, 'NO', '', 67114],
+  ['Bodø', 'Bodo', 'Bodoe', 67.28, 14.40501, 'NO', '', 52357],
+
+  // Finland
+  ['Helsinki', 'Helsinki', 'Helsingfors,HKI,Hki', 60.16952, 24.93545, 'FI', '', 658864],
+  ['Espoo', 'Espoo', 'Esbo', 60.2052, 24.6522, 'FI', '', 305274],
+  ['Tampere', 'Tampere', 'Tammerfors', 61.49911, 23.78712, 'FI', '', 249009],
+  ['Vantaa', 'Vantaa', 'Vanda', 60.29414, 25.04099, 'FI', '', 239206],
+  ['Oulu', 'Oulu', 'Uleåborg', 65.01236, 25.46816, 'FI', '', 211848],
+  ['Turku', 'Turku', 'Åbo,Abo', 60.45148, 22.26869, 'FI', '', 197545],
+  ['Jyväskylä', 'Jyvaeskylae', 'Jyvaskyla', 62.24147, 25.72088, 'FI', '', 146271],
+  ['Lahti', 'Lahti', 'Lahtis', 60.98267, 25.66151, 'FI', '', 120027],
+  ['Kuopio', 'Kuopio', '', 62.89238, 27.67703, 'FI', '', 121557],
+  ['Pori', 'Pori', 'Björneborg', 61.48333, 21.78333, 'FI', '', 83481],
+  ['Rovaniemi', 'Rovaniemi', '', 66.5, 25.71667, 'FI', '', 64535],
+
+  // Iceland, Ireland, the Baltics
+  ['Reykjavík', 'Reykjavik', 'Reikiavik,Reykjavíkurborg', 64.13548, -21.89541, 'IS', '', 118918],
+  ['Dublin', 'Dublin', 'Baile Átha Cliath', 53.33306, -6.24889, 'IE', '', 1024027],
+  ['Cork', 'Cork', 'Corcaigh', 51.89797, -8.47061, 'IE', '', 190384],
+  ['Tallinn', 'Tallinn', 'Reval,Tallin', 59.43696, 24.75353, 'EE', '', 394024],
+  ['Riga', 'Riga', 'Rīga', 56.946, 24.10589, 'LV', '', 742572],
+  ['Vilnius', 'Vilnius', 'Vilna,Wilno', 54.68916, 25.2798, 'LT', '', 542366],
+
+  // United Kingdom
+  ['London', 'London', 'Londres,Londra,Lontoo,Londýn', 51.50853, -0.12574, 'GB', '', 8961989],
+  ['Birmingham', 'Birmingham', 'Brum', 52.48142, -1.89983, 'GB', '', 984333],
+  ['Manchester', 'Manchester', '', 53.48095, -2.23743, 'GB', '', 395515],
+  ['Glasgow', 'Glasgow', 'Glaschu', 55.86515, -4.25763, 'GB', '', 591620],
+  ['Liverpool', 'Liverpool', '', 53.41058, -2.97794, 'GB', '', 864122],
+  ['Leeds', 'Leeds', '', 53.79648, -1.54785, 'GB', '', 455123],
+  ['Edinburgh', 'Edinburgh', 'Edimburgo,Édimbourg,Dùn Èideann', 55.95206, -3.19648, 'GB', '', 464990],
+  ['Bristol', 'Bristol', '', 51.45523, -2.59665, 'GB', '', 617280],
+  ['Sheffield', 'Sheffield', '', 53.38297, -1.4659, 'GB', '', 447047],
+  ['Cardiff', 'Cardiff', 'Caerdydd', 51.48, -3.18, 'GB', '', 447287],
+  ['Belfast', 'Belfast', 'Béal Feirste', 54.59682, -5.92541, 'GB', '', 274770],
+  ['Newcastle upon Tyne', 'Newcastle upon Tyne', 'Newcastle', 54.97328, -1.61396, 'GB', '', 192382],
+  ['Nottingham', 'Nottingham', '', 52.9536, -1.15047, 'GB', '', 246654],
+  ['Leicester', 'Leicester', '', 52.6386, -1.13169, 'GB', '', 339239],
+  ['Brighton', 'Brighton', 'Brighton and Hove', 50.82838, -0.13947, 'GB', '', 139001],
+  ['Oxford', 'Oxford', '', 51.75222, -1.25596, 'GB', '', 154600],
+  ['Cambridge', 'Cambridge', '', 52.2, 0.11667, 'GB', '', 128515],
+  ['York', 'York', '', 53.95763, -1.08271, 'GB', '', 153717],
+  ['Bath', 'Bath', '', 51.3751, -2.36172, 'GB', '', 94782],
+  ['Aberdeen', 'Aberdeen', 'Obar Dheathain', 57.14369, -2.09814, 'GB', '', 196670],
+  ['Reading', 'Reading', '', 51.45625, -0.97113, 'GB', '', 244070],
+  ['Southampton', 'Southampton', '', 50.90395, -1.40428, 'GB', '', 246201],
+
+  // United States
+  ['New York City', 'New York City', 'New York,NYC,N.Y.C.,Big Apple,Nueva York,New York stad', 40.71427, -74.00597, 'US', 'NY', 8804190],
+  ['Brooklyn', 'Brooklyn', '', 40.6501, -73.94958, 'US', 'NY', 2736074],
+  ['Los Angeles', 'Los Angeles', 'LA,L.A.', 34.05223, -118.24368, 'US', 'CA', 3898747],
+  ['Chicago', 'Chicago', 'Chi-Town,Chitown', 41.85003, -87.65005, 'US', 'IL', 2746388],
+  ['Houston', 'Houston', 'H-Town', 29.76328, -95.36327, 'US', 'TX', 2304580],
+  ['Phoenix', 'Phoenix', 'PHX', 33.44838, -112.07404, 'US', 'AZ', 1608139],
+  ['Philadelphia', 'Philadelphia', 'Philly', 39.95233, -75.16379, 'US', 'PA', 1603797],
+  ['San Antonio', 'San Antonio', '', 29.42412, -98.49363, 'US', 'TX', 1434625],
+  ['San Diego', 'San Diego', '', 32.71571, -117.16472, 'US', 'CA', 1386932],
+  ['Dallas', 'Dallas', '', 32.78306, -96.80667, 'US', 'TX', 1304379],
+  ['San Jose', 'San Jose', 'San José', 37.33939, -121.89496, 'US', 'CA', 1013240],
+  ['Austin', 'Austin', 'ATX', 30.26715, -97.74306, 'US', 'TX', 961855],
+  ['San Francisco', 'San Francisco', 'SF,San Fran,Frisco', 37.77493, -122.41942, 'US', 'CA', 873965],
+  ['Seattle', 'Seattle', '', 47.60621, -122.33207, 'US', 'WA', 737015],
+  ['Denver', 'Denver', '', 39.73915, -104.9847, 'US', 'CO', 715522],
+  ['Washington', 'Washington', 'Washington D.C.,Washington DC,DC,D.C.', 38.89511, -77.03637, 'US', 'DC', 689545],
+  ['Nashville', 'Nashville', '', 36.16589, -86.78444, 'US', 'TN', 689447],
+  ['Boston', 'Boston', '', 42.35843, -71.05977, 'US', 'MA', 675647],
+  ['Portland', 'Portland', 'PDX', 45.52345, -122.67621, 'US', 'OR', 652503],
+  ['Portland', 'Portland', '', 43.66147, -70.25533, 'US', 'ME', 68408],
+  ['Las Vegas', 'Las Vegas', 'Vegas', 36.17497, -115.13722, 'US', 'NV', 641903],
+  ['Detroit', 'Detroit', '', 42.33143, -83.04575, 'US', 'MI', 639111],
+  ['Charlotte', 'Charlotte', '', 35.22709, -80.84313, 'US', 'NC', 874579],
+  ['Atlanta', 'Atlanta', 'ATL', 33.749, -84.38798, 'US', 'GA', 498715],
+  ['Miami', 'Miami', '', 25.77427, -80.19366, 'US', 'FL', 442241],
+  ['Minneapolis', 'Minneapolis', '', 44.97997, -93.26384, 'US', 'MN', 429954],
+  ['New Orleans', 'New Orleans', 'NOLA,Nola', 29.95465, -90.07507, 'US', 'LA', 383997],
+  ['Orlando', 'Orlando', '', 28.53834, -81.37924, 'US', 'FL', 307573],
+  ['St. Louis', 'Saint Louis', 'St Louis,STL', 38.62727, -90.19789, 'US', 'MO', 301578],
+  ['Pittsburgh', 'Pittsburgh', '', 40.44062, -79.99589, 'US', 'PA', 302971],
+  ['Honolulu', 'Honolulu', '', 21.30694, -157.85833, 'US', 'HI', 350964],
+  ['Paris', 'Paris', '', 33.66094, -95.55551, 'US', 'TX', 24476],
+
+  // France
+  ['Paris', 'Paris', 'Parigi,Pariisi,Paryż', 48.85341, 2.3488, 'FR', '', 2138551],
+  ['Marseille', 'Marseille', 'Marseilles,Marsella,Marsiglia', 43.29695, 5.38107, 'FR', '', 870731],
+  ['Lyon', 'Lyon', 'Lyons,Lione', 45.74846, 4.84671, 'FR', '', 522228],
+  ['Toulouse', 'Toulouse', 'Tolosa', 43.60426, 1.44367, 'FR', '', 493465],
+  ['Nice', 'Nice', 'Nizza', 43.70313, 7.26608, 'FR', '', 342669],
+  ['Nantes', 'Nantes', '', 47.21725, -1.55336, 'FR', '', 318808],
+  ['Strasbourg', 'Strasbourg', 'Straßburg,Strassburg', 48.58392, 7.74553, 'FR', '', 290576],
+  ['Montpellier', 'Montpellier', '', 43.61093, 3.87635, 'FR', '', 295542],
+  ['Bordeaux', 'Bordeaux', 'Burdeos', 44.84044, -0.5805, 'FR', '', 260958],
+  ['Lille', 'Lille', 'Rijsel', 50.63297, 3.05858, 'FR', '', 234475],
+  ['Rennes', 'Rennes', '', 48.11198, -1.67429, 'FR', '', 222485],
+  ['Reims', 'Reims', 'Rheims', 49.26526, 4.02853, 'FR', '', 182211],
+  ['Le Havre', 'Le Havre', '', 49.4938, 0.10767, 'FR', '', 170147],
+  ['Toulon', 'Toulon', '', 43.12442, 5.92836, 'FR', '', 176198],
+  ['Grenoble', 'Grenoble', '', 45.16667, 5.71667, 'FR', '', 158454],
+  ['Dijon', 'Dijon', '', 47.31667, 5.01667, 'FR', '', 156920],
+  ['Annecy', 'Annecy', '', 45.90878, 6.12565, 'FR', '', 130721],
+  ['Avignon', 'Avignon', '', 43.94834, 4.80892, 'FR', '', 91729],
+  ['Cannes', 'Cannes', '', 43.55135, 7.01275, 'FR', '', 73603],
+  ['Biarritz', 'Biarritz', '', 43.48012, -1.55558, 'FR', '', 25532],
+
+  // Germany
+  ['Berlin', 'Berlin', 'Berlino,Berliini', 52.52437, 13.41053, 'DE', '', 3426354],
+  ['Hamburg', 'Hamburg', 'Hamburgo,Amburgo', 53.57532, 10.01534, 'DE', '', 1845229],
+  ['München', 'Muenchen', 'Munich,Munchen,Monaco di Baviera,Múnich', 48.13743, 11.57549, 'DE', '', 1260391],
+  ['Köln', 'Koeln', 'Cologne,Koln,Colonia', 50.93333, 6.95, 'DE', '', 963395],
+  ['Frankfurt am Main', 'Frankfurt am Main', 'Frankfurt,Francfort', 50.11552, 8.68417, 'DE', '', 650000],
+  ['Stuttgart', 'Stuttgart', '', 48.78232, 9.17702, 'DE', '', 589793],
+  ['Düsseldorf', 'Duesseldorf', 'Dusseldorf', 51.22172, 6.77616, 'DE', '', 573057],
+  ['Leipzig', 'Leipzig', 'Lipsia', 51.33962, 12.37129, 'DE', '', 504971],
+  ['Dortmund', 'Dortmund', '', 51.51494, 7.466, 'DE', '', 588462],
+  ['Essen', 'Essen', '', 51.45657, 7.01228, 'DE', '', 593085],
+  ['Bremen', 'Bremen', '', 53.07516, 8.80777, 'DE', '', 546501],
+  ['Dresden', 'Dresden', 'Dresde', 51.05089, 13.73832, 'DE', '', 486854],
+  ['Hannover', 'Hannover', 'Hanover', 52.37052, 9.73322, 'DE', '', 515140],
+  ['Nürnberg', 'Nuernberg', 'Nuremberg,Nurnberg,Norimberga', 49.45421, 11.07752, 'DE', '', 499237],
+  ['Bonn', 'Bonn', '', 50.73438, 7.09549, 'DE', '', 313958],
+  ['Münster', 'Muenster', 'Munster', 51.96236, 7.62571, 'DE', '', 270184],
+  ['Heidelberg', 'Heidelberg', '', 49.40768, 8.69079, 'DE', '', 143345],
+  ['Freiburg im Breisgau', 'Freiburg im Breisgau', 'Freiburg', 47.9959, 7.85222, 'DE', '', 215966],
+
+  // Rest of Europe
+  ['Amsterdam', 'Amsterdam', 'Ámsterdam,Amsterdã', 52.37403, 4.88969, 'NL', '', 741636],
+  ['Rotterdam', 'Rotterdam', '', 51.9225, 4.47917, 'NL', '', 598199],
+  ['Den Haag', 'Den Haag', 'The Hague,La Haye,Haag,\'s-Gravenhage', 52.07667, 4.29861, 'NL', '', 474292],
+  ['Utrecht', 'Utrecht', '', 52.09083, 5.12222, 'NL', '', 290529],
+  ['Brussels', 'Brussels', 'Bruxelles,Brussel,Bryssel,Bruselas', 50.85045, 4.34878, 'BE', '', 1019022],
+  ['Antwerpen', 'Antwerpen', 'Antwerp,Anvers', 51.21989, 4.40346, 'BE', '', 459805],
+  ['Zürich', 'Zuerich', 'Zurich,Zurigo', 47.36667, 8.55, 'CH', '', 341730],
+  ['Genève', 'Geneve', 'Geneva,Genf,Ginevra', 46.20222, 6.14569, 'CH', '', 183981],
+  ['Basel', 'Basel', 'Bâle,Basilea', 47.55839, 7.57327, 'CH', '', 164488],
+  ['Wien', 'Wien', 'Vienna,Vienne,Wenen', 48.20849, 16.37208, 'AT', '', 1691468],
+  ['Salzburg', 'Salzburg', 'Salisburgo', 47.79941, 13.04399, 'AT', '', 150887],
+  ['Praha', 'Praha', 'Prague,Prag,Praga', 50.08804, 14.42076, 'CZ', '', 1165581],
+  ['Warszawa', 'Warszawa', 'Warsaw,Warschau,Varsovie,Varsovia', 52.22977, 21.01178, 'PL', '', 1702139],
+  ['Kraków', 'Krakow', 'Cracow,Krakau,Cracovia', 50.06143, 19.93658, 'PL', '', 755050],
+  ['Budapest', 'Budapest', '', 47.49835, 19.04045, 'HU', '', 1741041],
+  ['Madrid', 'Madrid', '', 40.4165, -3.70256, 'ES', '', 3255944],
+  ['Barcelona', 'Barcelona', 'Barça,BCN', 41.38879, 2.15899, 'ES', '', 1620343],
+  ['Valencia', 'Valencia', 'València', 39.47391, -0.37966, 'ES', '', 814208],
+  ['Sevilla', 'Sevilla', 'Seville,Séville,Siviglia', 37.38283, -5.97317, 'ES', '', 703206],
+  ['Málaga', 'Malaga', '', 36.72016, -4.42034, 'ES', '', 568305],
+  ['Lisboa', 'Lisboa', 'Lisbon,Lissabon,Lisbonne', 38.71667, -9.13333, 'PT', '', 517802],
+  ['Porto', 'Porto', 'Oporto', 41.14961, -8.61099, 'PT', '', 249633],
+  ['Roma', 'Roma', 'Rome,Rom,Rooma', 41.89193, 12.51133, 'IT', '', 2318895],
+  ['Milano', 'Milano', 'Milan,Milán,Mailand', 45.46427, 9.18951, 'IT', '', 1236837],
+  ['Napoli', 'Napoli', 'Naples,Neapel,Nápoles', 40.85216, 14.26811, 'IT', '', 959470],
+  ['Torino', 'Torino', 'Turin', 45.07049, 7.68682, 'IT', '', 870456],
+  ['Firenze', 'Firenze', 'Florence,Florenz,Florencia', 43.77925, 11.24626, 'IT', '', 349296],
+  ['Bologna', 'Bologna', 'Bolonia', 44.49381, 11.33875, 'IT', '', 366133],
+  ['Venezia', 'Venezia', 'Venice,Venedig,Venecia', 45.43713, 12.33265, 'IT', '', 258685],
+  ['Athens', 'Athens', 'Athína,Athen,Athènes,Atenas,Αθήνα', 37.98376, 23.72784, 'GR', '', 664046],
+  ['Istanbul', 'Istanbul', 'İstanbul,Constantinople', 41.01384, 28.94966, 'TR', '', 14804116],
+
+  // Rest of the world
+  ['Toronto', 'Toronto', '', 43.70011, -79.4163, 'CA', '', 2600000],
+  ['Montréal', 'Montreal', 'MTL', 45.50884, -73.58781, 'CA', '', 1600000],
+  ['Vancouver', 'Vancouver', '', 49.24966, -123.11934, 'CA', '', 600000],
+  ['London', 'London', '', 42.98339, -81.23304, 'CA', '', 346765],
+  ['Mexico City', 'Mexico City', 'Ciudad de México,CDMX,Ciudad de Mexico', 19.42847, -99.12766, 'MX', '', 12294193],
+  ['Tokyo', 'Tokyo', 'Tōkyō,Tokio,Tokyo-to,東京', 35.6895, 139.69171, 'JP', '', 8336599],
+  ['Osaka', 'Osaka', 'Ōsaka,大阪', 34.69374, 135.50218, 'JP', '', 2592413],
+  ['Kyoto', 'Kyoto', 'Kyōto,京都', 35.02107, 135.75385, 'JP', '', 1459640],
+  ['Seoul', 'Seoul', 'Séoul,Seúl,서울', 37.566, 126.9784, 'KR', '', 10349312],
+  ['Bangkok', 'Bangkok', 'Krung Thep,BKK', 13.75398, 100.50144, 'TH', '', 5104476],
+  ['Singapore', 'Singapore', 'Singapur,Singapour', 1.28967, 103.85007, 'SG', '', 3547809],
+  ['Hong Kong', 'Hong Kong', 'HK,香港', 22.27832, 114.17469, 'HK', '', 7012738],
+  ['Dubai', 'Dubai', 'Dubaï', 25.07725, 55.30927, 'AE', '', 3790000],
+  ['Sydney', 'Sydney', '', -33.86785, 151.20732, 'AU', '', 4627345],
+  ['Melbourne', 'Melbourne', '', -37.814, 144.96332, 'AU', '', 4246375],
+];
@@ -0,0 +1,458 @@
+// The steps process_media runs on a media row, shared with import_url:
+// OCR on the frames, POI candidates from the text (and caption) ordered by
+// the entities found in it, place search biased to where the media is from,
+// scoring, the analysis confidence and the auto-confirm decision. The
+// outcome is written to the media row. A full street address in the text
+// is geocoded and the names are searched at it.
+
+import { PlaceSearchResult } from './placeProviders.ts';
+import { CachedPlaceProvider } from './placeCache.ts';
+import { upsertRestaurant } from './restaurants.ts';
+import { ScoredPlace, scorePlaceCandidates, scoringWeightsFromEnv } from './scoring.ts';
+import { extractPOICandidates, POICandidate } from './poiCandidates.ts';
+import { localesForCountry } from './foodKeywords.ts';
+import { normalizeText } from './text.ts';
+import { OCRPage, emptyPage } from './ocr.ts';
+import { closeOCREngine, createOCREngine } from './ocrEngines.ts';
+import { decideMatch, explainMatch, getAutoConfirmMode, MatchDecision, MatchExplanation } from './autoConfirm.ts';
+import { captionPage, withLocationTag } from './captionCandidates.ts';
+import { CaptionSignals } from './socialMetadata.ts';
+import { distanceKm, Gazetteer, GazetteerCity } from './gazetteer.ts';
+import { CreatorLocationPrior, getCreatorLocationPrior, recordCreatorCity } from './creatorProfiles.ts';
+import { GEONAMES_CITIES } from './geonamesCities.ts';
+import { AddressParser } from './addresses.ts';
+import { Entity, EntityType, RuleEntityExtractor } from './entities.ts';
+import { AnalysisEvidence, analysisConfidence } from './analysisConfidence.ts';
+
+export interface MediaPipelineInput {
+  media_id: string;
+  frame_urls: string[];
+  country?: string;
+  city?: string;
+  lat?: number;
+  lng?: number;
+  ocr_engine?: string;
+  // Caption, hashtags, mentions and location tag of a URL import
+  caption?: CaptionSignals;
+}
+
+// Where the place search was biased to when the request didn't say, or a
+// location tag or the creator's usual city overrode it
+export interface ResolvedCity {
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+  source: 'location_tag' | 'creator' | 'caption' | 'ocr';
+}
+
+export interface MediaPipelineResult {
+  status: 'confirmed' | 'needs_confirmation';
+  restaurant_id?: string;
+  score?: number;
+  candidates?: Array<{
+    name: string;
+    address: string;
+    lat: number;
+    lng: number;
+    // Unset on an address pin, which isn't a listed place
+    place_id?: string;
+    provider: string;
+    score: number;
+  }>;
+  ocr_text?: string;
+  // OCR lines considered as restaurant names, with the features that ranked them
+  poi_candidates?: POICandidate[];
+  // Venues, dishes, addresses, cities and handles in the text and caption
+  entities?: Entity[];
+  // Why the best match was or wasn't auto-confirmed
+  explanation?: MatchExplanation;
+  resolved_city?: ResolvedCity;
+  cache?: {
+    hits: number;
+    misses: number;
+  };
+}
+
+const gazetteer = new Gazetteer(GEONAMES_CITIES);
+const addressParser = new AddressParser();
+const entityExtractor = new RuleEntityExtractor(gazetteer, addressParser);
+
+// Name candidates read as a venue are searched first, surest first. A line
+// that is nothing but dishes ("TONKATSU RAMEN") isn't searched at all.
+function rankByEntities(candidates: string[], entities: Entity[]): string[] {
+  const ofType = (type: EntityType) => entities.filter(entity => entity.type === type);
+  const dishes = ofType('DISH').map(entity => normalizeText(entity.text));
+
+  const venueConfidence = (candidate: string) => {
+    const key = normalizeText(candidate);
+    return Math.max(0, ...ofType('VENUE')
+      .filter(venue => normalizeText(venue.text).includes(key) || key.includes(normalizeText(venue.text)))
+      .map(venue => venue.confidence));
+  };
+  const onlyDishes = (candidate: string) =>
+    dishes.reduce((rest, dish) => rest.split(dish).join(' '), normalizeText(candidate)).trim() === '';
+
+  return candidates
+    .map(candidate => ({ candidate, confidence: venueConfidence(candidate) }))
+    .filter(({ candidate, confidence }) => confidence > 0 || !onlyDishes(candidate))
+    .sort((a, b) => b.confidence - a.confidence)
+    .map(({ candidate }) => candidate);
+}
+
+// A creator's most confirmed city is only trusted over the request's
+// location once the creator has this many confirmations, most of them there
+const MIN_CREATOR_CONFIRMATIONS = 3;
+
+// How far from a geocoded address a place may be and still be at it;
+// geocoders and place listings put the same building a little apart
+const ADDRESS_MATCH_RADIUS_M = 250;
+
+type RankedCandidate = NonNullable<MediaPipelineResult['candidates']>[number];
+
+interface SearchBias {
+  country?: string;
+  city?: string;
+  location?: { lat: number; lng: number };
+  resolved_city?: ResolvedCity;
+}
+
+function mentionedCity(text: string | null | undefined, country?: string): GazetteerCity | null {
+  return text ? gazetteer.resolve(text, { country })?.city ?? null : null;
+}
+
+// What the analysis had to go on for its best match (see
+// analysisConfidence.ts). Each source naming a city (the text, the address,
+// the location tag, the creator's usual city) agrees when it names the city
+// the match is in.
+function matchEvidence(bestMatch: ScoredPlace, sources: {
+  frames: OCRPage[];
+  entities: Entity[];
+  addressCity: string | null;
+  locationTag: string | null;
+  prior: CreatorLocationPrior | null;
+  precision: AnalysisEvidence['geocode_precision'];
+  from?: { lat: number; lng: number };
+}): AnalysisEvidence {
+  const { frames, entities, prior, from } = sources;
+  const read = frames.filter(frame => frame.text.trim().length > 0);
+
+  const matched = normalizeText(bestMatch.matched_text);
+  const venues = entities.filter(entity => {
+    const key = normalizeText(entity.text);
+    return entity.type === 'VENUE' && (key.includes(matched) || matched.includes(key));
+  });
+
+  const cityKey = (city: GazetteerCity) => `${city.name}|${city.country}`;
+  const matchCity = gazetteer.nearest(bestMatch.lat, bestMatch.lng);
+  const usual = prior?.cities[0];
+  const named: GazetteerCity[][] = [
+    entities
+      .filter(entity => entity.type === 'CITY')
+      .map(entity => gazetteer.lookup(entity.text) ?? gazetteer.fromHandle(entity.text))
+      .filter((city): city is GazetteerCity => city !== null),
+    [mentionedCity(sources.addressCity), mentionedCity(sources.locationTag)].filter((city): city is GazetteerCity => city !== null),
+    usual ? [gazetteer.lookup(usual.city, { country: usual.country })].filter((city): city is GazetteerCity => city !== null) : [],
+  ];
+  const matchKey = matchCity ? cityKey(matchCity) : null;
+  const counted = prior?.cities.find(city => matchCity && city.city === matchCity.name && city.country === matchCity.country);
+
+  return {
+    ocr_quality: read.length > 0 ? read.reduce((sum, frame) => sum + frame.confidence, 0) / read.length : null,
+    venue_confidence: venues.length > 0 ? Math.max(...venues.map(venue => venue.confidence)) : null,
+    // Shrunk towards 0 until the creator has a handful of confirmations
+    prior_strength: counted && prior ? counted.share * Math.min(prior.total, 5) / 5 : 0,
+    agreeing_sources: named.filter(cities => cities.some(city => cityKey(city) === matchKey)).length,
+    conflicting_sources: new Set(named.flat().map(cityKey).filter(key => key !== matchKey)).size,
+    geocode_precision: sources.precision,
+    distance_km: from ? distanceKm(from.lat, from.lng, bestMatch.lat, bestMatch.lng) : null,
+  };
+}
+
+// A city in the location tag says where the video is from, so it wins over
+// the request's location (usually the device's), and so does the city most
+// of the creator's confirmed imports are in. A city merely mentioned in the
+// caption or on screen ("Pizza Napoli") is only used when the request has no
+// location at all.
+function searchBias(input: MediaPipelineInput, ocrText: string, prior: CreatorLocationPrior | null): SearchBias {
+  const requested: SearchBias = {
+    country: input.country,
+    city: input.city,
+    location: input.lat !== undefined && input.lng !== undefined ? { lat: input.lat, lng: input.lng } : undefined,
+  };
+  const hasRequested = Boolean(requested.country || requested.city || requested.location);
+
+  // The creator's usual city stands in for a location tag the post lacks
+  const usual = prior && prior.total >= MIN_CREATOR_CONFIRMATIONS && prior.cities[0].share > 0.5 ? prior.cities[0] : null;
+  const usualCity = usual ? gazetteer.lookup(usual.city, { country: usual.country }) : null;
+
+  const found: Array<[ResolvedCity['source'], GazetteerCity | null | undefined]> = [
+    ['location_tag', mentionedCity(input.caption?.location_tag, input.country)],
+    ['creator', usualCity],
+  ];
+  if (!hasRequested) {
+    found.push(['caption', mentionedCity(input.caption?.caption, input.country)], ['ocr', mentionedCity(ocrText, input.country)]);
+  }
+
+  for (const [source, city] of found) {
+    if (!city) continue;
+    return {
+      country: city.country,
+      city: city.name,
+      location: { lat: city.lat, lng: city.lng },
+      resolved_city: { name: city.name, country: city.country, lat: city.lat, lng: city.lng, source },
+    };
+  }
+
+  return requested;
+}
+
+export async function runMediaPipeline(
+  supabase: any,
+  placeProvider: CachedPlaceProvider,
+  input: MediaPipelineInput
+): Promise<MediaPipelineResult> {
+  const { media_id, frame_urls, ocr_engine, caption } = input;
+
+  // The owner's auto-confirm setting decides how sure we must be to pin a match
+  const { data: media } = await supabase
+    .from('media')
+    .select('user_id, creator_platform, creator_handle')
+    .eq('id', media_id)
+    .single();
+  const userId = media?.user_id;
+  const autoConfirmMode = await getAutoConfirmMode(supabase, userId);
+
+  // Where the post's creator usually posts from, learned from confirmed imports
+  let prior: CreatorLocationPrior | null = null;
+  if (media?.creator_handle) {
+    try {
+      prior = await getCreatorLocationPrior(supabase, media.creator_platform, media.creator_handle);
+    } catch (error) {
+      console.error(`Creator profile lookup failed for ${media_id}:`, error);
+    }
+  }
+
+  // The request can pick the OCR engine, otherwise OCR_ENGINE / FEATURE_USE_TESSERACT decide
+  const ocrEngine = createOCREngine(ocr_engine);
+
+  // Perform OCR on all frames
+  const ocrResults: OCRPage[] = [];
+  try {
+    for (const frameUrl of frame_urls) {
+      try {
+        ocrResults.push(await ocrEngine.recognize(frameUrl));
+      } catch (error) {
+        console.error(`OCR failed for frame ${frameUrl}:`, error);
+        ocrResults.push(emptyPage());
+      }
+    }
+  } finally {
+    await closeOCREngine(ocrEngine);
+  }
+
+  // Aggregate and normalize OCR text (keeps å/ä/ö/é, only case and punctuation go)
+  const ocrText = ocrResults.map(r => r.text).join(' ');
+  const normalizedText = normalizeText(ocrText);
+  const { country, city, location, resolved_city } = searchBias(input, ocrText, prior);
+
+  // Extract POI candidates, ranked by text size, position and repetition,
+  // with food keywords in the languages spoken in the country. A caption
+  // counts as one more frame, and its location tag is searched first.
+  const pages = caption ? [...ocrResults, captionPage(caption)] : ocrResults;
+  const poiCandidates = extractPOICandidates(pages, localesForCountry(country));
+
+  // Pages keep their line breaks from here on, since signs often split a
+  // name or an address over two lines
+  const pageText = pages.map(page => page.text).join('\n');
+  const entities = await entityExtractor.extract(pageText);
+
+  // Street, number, postcode and city pin the place on their own
+  const address = addressParser.findFullAddress(pageText);
+  const addressText = address ? normalizeText(address.text) : null;
+  const candidates = withLocationTag(rankByEntities(poiCandidates.map(candidate => candidate.text), entities), caption)
+    .filter(candidate => !addressText || !addressText.includes(normalizeText(candidate)));
+
+  let geocoded: PlaceSearchResult | null = null;
+  if (address) {
+    try {
+      geocoded = await placeProvider.geocodeAddress(addressParser.format(address), { country: address.country ?? country });
+    } catch (error) {
+      console.error(`Geocoding failed for address "${address.text}":`, error);
+    }
+  }
+
+  // No place to pin: store what was read, and the address's location if
+  // one was geocoded, and leave it to the user
+  const unmatched = async (decision: MatchDecision, pins: RankedCandidate[] = []): Promise<MediaPipelineResult> => {
+    const explanation = explainMatch(decision, autoConfirmMode);
+    if (pins.length > 0 && address) {
+      explanation.matched_address = address.text;
+    }
+    await supabase
+      .from('media')
+      .update({
+        status: 'needs_confirmation',
+        ocr_text: normalizedText,
+        candidates: pins,
+        match_explanation: explanation
+      })
+      .eq('id', media_id);
+
+    return {
+      status: 'needs_confirmation',
+      ocr_text: normalizedText,
+      candidates: pins,
+      poi_candidates: poiCandidates,
+      entities,
+      explanation,
+      resolved_city,
+      cache: placeProvider.stats
+    };
+  };
+
+  if (candidates.length === 0 && !geocoded) {
+    return unmatched('no_candidates');
+  }
+
+  // Search for places using the best candidates. A geocoded address says
+  // where the place is, so the names are searched around it and only places
+  // at the address count.
+  const searchLocation = geocoded ? { lat: geocoded.lat, lng: geocoded.lng } : location;
+  const allPlaces: PlaceSearchResult[] = [];
+  for (const candidate of candidates.slice(0, 3)) { // Limit to top 3 candidates
+    try {
+      const places = await placeProvider.searchPlaces(candidate, { country, city, location: searchLocation });
+      allPlaces.push(...places);
+    } catch (error) {
+      console.error(`Place search failed for candidate "${candidate}":`, error);
+    }
+  }
+  const placesFound = geocoded
+    ? allPlaces.filter(place => distanceKm(geocoded.lat, geocoded.lng, place.lat, place.lng) * 1000 <= ADDRESS_MATCH_RADIUS_M)
+    : allPlaces;
+
+  // An address with no place listed at it is offered as a pin for the user
+  // to confirm, named after the best name candidate. The geocoder only knows
+  // the street, so its result is never auto-confirmed, and the pin is a
+  // manual one like a dropped pin: the geocoder's id is the street's, and
+  // other restaurants at the same address would be merged into it.
+  if (placesFound.length === 0 && geocoded) {
+    return unmatched('address_only', [{
+      name: candidates[0] ?? geocoded.name,
+      address: geocoded.address,
+      lat: geocoded.lat,
+      lng: geocoded.lng,
+      provider: 'manual',
+      score: 0
+    }]);
+  }
+  if (placesFound.length === 0) {
+    return unmatched('no_places');
+  }
+
+  // Score and rank places
+  const weights = scoringWeightsFromEnv();
+  const scoredPlaces = scorePlaceCandidates(candidates, placesFound, {
+    location: searchLocation,
+    weights,
+  });
+  const topPlaces = scoredPlaces.slice(0, 3);
+
+  // Auto-confirm when the best match clears the user's threshold and the
+  // evidence behind it makes the user likely to keep it
+  const bestMatch = topPlaces[0];
+  const evidence = matchEvidence(bestMatch, {
+    frames: ocrResults,
+    entities,
+    addressCity: address?.city ?? null,
+    locationTag: caption?.location_tag ?? null,
+    prior,
+    precision: geocoded ? 'address' : resolved_city ? 'city' : 'none',
+    from: input.lat !== undefined && input.lng !== undefined ? { lat: input.lat, lng: input.lng } : undefined,
+  });
+  const confidence = Math.round(analysisConfidence(evidence) * 1000) / 1000;
+  const decision = decideMatch(bestMatch, autoConfirmMode, confidence);
+  const explanation = explainMatch(decision, autoConfirmMode, bestMatch);
+  explanation.confidence = confidence;
+  explanation.evidence = evidence;
+  if (geocoded && address) {
+    explanation.matched_address = address.text;
+  }
+
+  if (decision === 'confirmed') {
+    // Auto-confirm the best match, reusing the restaurant if it's already pinned
+    const restaurant = await upsertRestaurant(supabase, {
+      name: bestMatch.name,
+      address: bestMatch.address,
+      lat: bestMatch.lat,
+      lng: bestMatch.lng,
+      place_provider: bestMatch.provider,
+      place_id: bestMatch.place_id,
+      tags: ['ai-analyzed'],
+      created_by: userId
+    });
+
+    // Update media record
+    await supabase
+      .from('media')
+      .update({
+        restaurant_id: restaurant.id,
+        status: 'done',
+        ocr_text: normalizedText,
+        match_explanation: explanation
+      })
+      .eq('id', media_id);
+
+    // Teach the creator's location prior; the import stands either way
+    try {
+      await recordCreatorCity(supabase, gazetteer, media_id);
+    } catch (error) {
+      console.error(`Creator profile update failed for ${media_id}:`, error);
+    }
+
+    return {
+      status: 'confirmed',
+      restaurant_id: restaurant.id,
+      score: bestMatch.score,
+      poi_candidates: poiCandidates,
+      entities,
+      explanation,
+      resolved_city,
+      cache: placeProvider.stats
+    };
+  }
+
+  // Return candidates for manual confirmation, and store them so the
+  // client can resume the import later
+  const rankedCandidates = topPlaces.map(place => ({
+    name: place.name,
+    address: place.address,
+    lat: place.lat,
+    lng: place.lng,
+    place_id: place.place_id,
+    provider: place.provider,
+    score: place.score
+  }));
+
+  await supabase
+    .from('media')
+    .update({
+      status: 'needs_confirmation',
+      ocr_text: normalizedText,
+      candidates: rankedCandidates,
+      match_explanation: explanation
+    })
+    .eq('id', media_id);
+
+  return {
+    status: 'needs_confirmation',
+    candidates: rankedCandidates,
+    ocr_text: normalizedText,
+    poi_candidates: poiCandidates,
+    entities,
+    explanation,
+    resolved_city,
+    cache: placeProvider.stats
+  };
+}
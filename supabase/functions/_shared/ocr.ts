@@ -0,0 +1,279 @@
+// OCR engine contract used by the edge functions; the app imports its types.
+// Every backend maps its response onto OCRPage: lines of text with word
+// bounding boxes and a 0-1 confidence. This file must stay free of imports
+// and runtime globals other than fetch/FormData/AbortSignal so both Deno and
+// React Native can load it.
+
+export type OCREngineName = 'vision' | 'tesseract' | 'ocrspace' | 'fake';
+
+// How long a hosted engine gets to download and read one frame
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export const OCR_ENGINE_NAMES: OCREngineName[] = ['vision', 'tesseract', 'ocrspace', 'fake'];
+
+// Pixels, origin at the top left of the image
+export interface OCRBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  box: OCRBoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  box: OCRBoundingBox;
+  words: OCRWord[];
+}
+
+export interface OCRPage {
+  text: string;
+  confidence: number;
+  lines: OCRLine[];
+  // Image size, when the engine reports it
+  width?: number;
+  height?: number;
+}
+
+export interface OCREngine {
+  readonly name: OCREngineName;
+  recognize(imageUrl: string): Promise<OCRPage>;
+}
+
+// Used when a backend doesn't report confidence for a word
+const UNKNOWN_CONFIDENCE = 0.8;
+
+const EMPTY_BOX: OCRBoundingBox = { x: 0, y: 0, width: 0, height: 0 };
+
+export function emptyPage(): OCRPage {
+  return { text: '', confidence: 0, lines: [] };
+}
+
+// Smallest box containing all the given boxes
+export function unionBoxes(boxes: OCRBoundingBox[]): OCRBoundingBox {
+  if (boxes.length === 0) return { ...EMPTY_BOX };
+
+  const left = Math.min(...boxes.map(box => box.x));
+  const top = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Build a line from its words, taking text, box and confidence from them
+export function lineFromWords(words: OCRWord[]): OCRLine {
+  return {
+    text: words.map(word => word.text).join(' '),
+    confidence: average(words.map(word => word.confidence)),
+    box: unionBoxes(words.map(word => word.box)),
+    words,
+  };
+}
+
+export function pageFromLines(lines: OCRLine[], size: { width?: number; height?: number } = {}): OCRPage {
+  return {
+    text: lines.map(line => line.text).join('\n'),
+    confidence: average(lines.map(line => line.confidence)),
+    lines,
+    ...size,
+  };
+}
+
+// Page for plain text without geometry (e.g. fixtures written by hand)
+export function pageFromText(text: string, confidence = UNKNOWN_CONFIDENCE): OCRPage {
+  const lines = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => ({
+      text: line,
+      confidence,
+      box: { ...EMPTY_BOX },
+      words: line.split(/\s+/).map(word => ({ text: word, confidence, box: { ...EMPTY_BOX } })),
+    }));
+  return pageFromLines(lines);
+}
+
+function boxFromVertices(vertices: Array<{ x?: number; y?: number }> = []): OCRBoundingBox {
+  // Vision leaves out coordinates that are 0
+  const xs = vertices.map(vertex => vertex.x || 0);
+  const ys = vertices.map(vertex => vertex.y || 0);
+  if (xs.length === 0) return { ...EMPTY_BOX };
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+}
+
+const VISION_LINE_BREAKS = ['EOL_SURE_SPACE', 'LINE_BREAK'];
+
+// Convert a Vision AnnotateImageResponse (REST or client SDK, same shape)
+// into a page. Lines are rebuilt from the word symbols' detected breaks.
+export function parseVisionResponse(response: any): OCRPage {
+  const annotation = response?.fullTextAnnotation;
+  if (!annotation?.pages?.length) {
+    const description = response?.textAnnotations?.[0]?.description;
+    return description ? pageFromText(description) : emptyPage();
+  }
+
+  const lines: OCRLine[] = [];
+  let current: OCRWord[] = [];
+  const closeLine = () => {
+    if (current.length > 0) lines.push(lineFromWords(current));
+    current = [];
+  };
+
+  for (const page of annotation.pages) {
+    for (const block of page.blocks || []) {
+      for (const paragraph of block.paragraphs || []) {
+        for (const word of paragraph.words || []) {
+          const symbols = word.symbols || [];
+          current.push({
+            text: symbols.map((symbol: any) => symbol.text).join(''),
+            confidence: word.confidence ?? UNKNOWN_CONFIDENCE,
+            box: boxFromVertices(word.boundingBox?.vertices),
+          });
+
+          const lastBreak = symbols[symbols.length - 1]?.property?.detectedBreak?.type;
+          if (VISION_LINE_BREAKS.includes(lastBreak)) closeLine();
+        }
+        closeLine();
+      }
+    }
+  }
+
+  const [firstPage] = annotation.pages;
+  return pageFromLines(lines, { width: firstPage.width, height: firstPage.height });
+}
+
+// Google Vision REST API (API key)
+export class VisionRestOCREngine implements OCREngine {
+  readonly name = 'vision' as const;
+
+  constructor(private readonly apiKey: string) {}
+
+  async recognize(imageUrl: string): Promise<OCRPage> {
+    const response = await fetch(
+      `https://vision.googleapis.com/v1/images:annotate?key=${this.apiKey}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        body: JSON.stringify({
+          requests: [
+            {
+              image: { source: { imageUri: imageUrl } },
+              features: [{ type: 'TEXT_DETECTION' }],
+            },
+          ],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Vision API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const result = data.responses?.[0];
+    if (result?.error) {
+      throw new Error(`Vision API error: ${result.error.message}`);
+    }
+
+    return parseVisionResponse(result);
+  }
+}
+
+// Google Vision client SDK (service account). Takes the ImageAnnotatorClient
+// so this file doesn't have to import it.
+export class VisionClientOCREngine implements OCREngine {
+  readonly name = 'vision' as const;
+
+  constructor(private readonly client: { textDetection(imageUrl: string): Promise<any[]> }) {}
+
+  async recognize(imageUrl: string): Promise<OCRPage> {
+    const [result] = await this.client.textDetection(imageUrl);
+    return parseVisionResponse(result);
+  }
+}
+
+// OCR.space parse API. It reports word boxes but no confidence.
+export class OCRSpaceEngine implements OCREngine {
+  readonly name = 'ocrspace' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly language = 'eng'
+  ) {}
+
+  async recognize(imageUrl: string): Promise<OCRPage> {
+    const formData = new FormData();
+    formData.append('url', imageUrl);
+    formData.append('language', this.language);
+    formData.append('isOverlayRequired', 'true');
+    formData.append('detectOrientation', 'true');
+    formData.append('scale', 'true');
+
+    const response = await fetch('https://api.ocr.space/parse/image', {
+      method: 'POST',
+      headers: {
+        'apikey': this.apiKey,
+      },
+      body: formData,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OCR.space API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.IsErroredOnProcessing) {
+      throw new Error(`OCR.space error: ${[].concat(data.ErrorMessage || []).join(', ')}`);
+    }
+
+    const parsed = data.ParsedResults?.[0];
+    const overlayLines = parsed?.TextOverlay?.Lines || [];
+    if (overlayLines.length === 0) {
+      return parsed?.ParsedText ? pageFromText(parsed.ParsedText) : emptyPage();
+    }
+
+    return pageFromLines(overlayLines.map((line: any) => lineFromWords(
+      (line.Words || []).map((word: any) => ({
+        text: word.WordText,
+        confidence: UNKNOWN_CONFIDENCE,
+        box: { x: word.Left, y: word.Top, width: word.Width, height: word.Height },
+      }))
+    )));
+  }
+}
+
+// Engine that answers from fixtures keyed by image URL, for running the
+// pipeline offline. Unknown URLs read as an empty frame.
+export class FakeOCREngine implements OCREngine {
+  readonly name = 'fake' as const;
+  readonly requests: string[] = [];
+
+  constructor(private readonly fixtures: Record<string, OCRPage | string> = {}) {}
+
+  async recognize(imageUrl: string): Promise<OCRPage> {
+    this.requests.push(imageUrl);
+    const fixture = this.fixtures[imageUrl];
+    if (fixture === undefined) return emptyPage();
+    return typeof fixture === 'string' ? pageFromText(fixture) : fixture;
+  }
+}
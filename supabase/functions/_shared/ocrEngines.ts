@@ -0,0 +1,52 @@
+// Pick the OCR engine for an edge function request.
+import { FakeOCREngine, OCR_ENGINE_NAMES, OCREngine, OCREngineName, OCRSpaceEngine, VisionRestOCREngine } from './ocr.ts'
+import { TesseractOCR } from './tesseract.ts'
+import { OCR_FIXTURES } from './fixtures/ocrFixtures.ts'
+
+// Engines a request may pick. The fake one answers from fixtures, so it is
+// only offered where ALLOW_FAKE_BACKENDS=true (local runs and checks).
+export function requestableOCREngines(): OCREngineName[] {
+  return Deno.env.get('ALLOW_FAKE_BACKENDS') === 'true'
+    ? OCR_ENGINE_NAMES
+    : OCR_ENGINE_NAMES.filter(name => name !== 'fake');
+}
+
+// An explicit name wins, then the OCR_ENGINE env var, then
+// FEATURE_USE_TESSERACT, then Vision.
+export function createOCREngine(name?: string): OCREngine {
+  const engineName = (
+    name ||
+    Deno.env.get('OCR_ENGINE') ||
+    (Deno.env.get('FEATURE_USE_TESSERACT') === 'true' ? 'tesseract' : 'vision')
+  ) as OCREngineName;
+
+  switch (engineName) {
+    case 'vision': {
+      const apiKey = Deno.env.get('GOOGLE_VISION_API_KEY');
+      if (!apiKey) {
+        throw new Error('GOOGLE_VISION_API_KEY not configured');
+      }
+      return new VisionRestOCREngine(apiKey);
+    }
+    case 'tesseract':
+      return new TesseractOCR();
+    case 'ocrspace': {
+      const apiKey = Deno.env.get('OCR_SPACE_API_KEY');
+      if (!apiKey) {
+        throw new Error('OCR_SPACE_API_KEY not configured');
+      }
+      return new OCRSpaceEngine(apiKey);
+    }
+    case 'fake':
+      return new FakeOCREngine(OCR_FIXTURES);
+    default:
+      throw new Error(`Unknown OCR engine: ${engineName}`);
+  }
+}
+
+// Release engine resources (the Tesseract worker) at the end of a request
+export async function closeOCREngine(engine: OCREngine): Promise<void> {
+  if (engine instanceof TesseractOCR) {
+    await engine.terminate();
+  }
+}
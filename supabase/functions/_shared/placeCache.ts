@@ -0,0 +1,161 @@
+// Read-through cache over a PlaceProvider, backed by the place_cache table.
+// Every search result is stored as one row keyed by normalized_query +
+// country + city + location bucket + provider. An empty result is stored as a single row with
+// a null place_id so repeated misses don't hit the provider either. A
+// provider error is thrown rather than cached, so only a genuine empty
+// result becomes a negative entry.
+
+import { PlaceProvider, PlaceSearchOptions, PlaceSearchResult } from './placeProviders.ts';
+
+export interface PlaceCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface PlaceCacheOptions {
+  ttlHours: number;
+  negativeTtlHours: number;
+}
+
+const DEFAULT_TTL_HOURS = 24 * 30;
+const DEFAULT_NEGATIVE_TTL_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function placeCacheOptionsFromEnv(): PlaceCacheOptions {
+  return {
+    ttlHours: Number(Deno.env.get('PLACE_CACHE_TTL_HOURS')) || DEFAULT_TTL_HOURS,
+    negativeTtlHours: Number(Deno.env.get('PLACE_CACHE_NEGATIVE_TTL_HOURS')) || DEFAULT_NEGATIVE_TTL_HOURS,
+  };
+}
+
+export function normalizeQuery(query: string): string {
+  return query.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// A location bias changes which branch of a chain a search returns, so it is
+// part of the key, rounded to 0.1° (about 11 km) so nearby requests share an
+// entry: "59.3,18.1", or null without a location
+export function locationBucket(location: PlaceSearchOptions['location']): string | null {
+  if (!location) return null;
+  const round = (value: number) => Math.round(value * 10) / 10 || 0;
+  return `${round(location.lat)},${round(location.lng)}`;
+}
+
+export class CachedPlaceProvider implements PlaceProvider {
+  readonly stats: PlaceCacheStats = { hits: 0, misses: 0 };
+
+  constructor(
+    private readonly provider: PlaceProvider,
+    private readonly supabase: any,
+    private readonly options: PlaceCacheOptions = placeCacheOptionsFromEnv()
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  async searchPlaces(query: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult[]> {
+    const normalizedQuery = normalizeQuery(query);
+
+    const cached = await this.readCache(normalizedQuery, options);
+    if (cached) {
+      this.stats.hits++;
+      return cached;
+    }
+
+    this.stats.misses++;
+    const places = await this.provider.searchPlaces(query, options);
+    await this.writeCache(normalizedQuery, options, places);
+    return places;
+  }
+
+  getPlaceDetails(placeId: string): Promise<PlaceSearchResult | null> {
+    return this.provider.getPlaceDetails(placeId);
+  }
+
+  geocodeAddress(address: string, options?: PlaceSearchOptions): Promise<PlaceSearchResult | null> {
+    return this.provider.geocodeAddress(address, options);
+  }
+
+  // Returns null on a miss, [] for a live negative entry
+  private async readCache(normalizedQuery: string, options: PlaceSearchOptions): Promise<PlaceSearchResult[] | null> {
+    const cutoff = new Date(Date.now() - this.options.ttlHours * HOUR_MS).toISOString();
+
+    const { data: rows, error } = await this.scopedQuery(
+      this.supabase.from('place_cache').select('*'),
+      normalizedQuery,
+      options
+    )
+      .gte('created_at', cutoff)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Place cache read failed:', error);
+      return null;
+    }
+
+    if (!rows || rows.length === 0) {
+      return null;
+    }
+
+    const places = rows.filter((row: any) => row.place_id);
+    if (places.length === 0) {
+      const negativeCutoff = Date.now() - this.options.negativeTtlHours * HOUR_MS;
+      return new Date(rows[0].created_at).getTime() >= negativeCutoff ? [] : null;
+    }
+
+    return places.map((row: any) => ({
+      name: row.name,
+      address: row.address,
+      lat: row.lat,
+      lng: row.lng,
+      place_id: row.place_id,
+      provider: row.provider,
+      rating: row.rating ?? undefined,
+      rating_count: row.rating_count ?? undefined,
+      types: row.types ?? undefined,
+    }));
+  }
+
+  // Replaces whatever the key held in one transaction (replace_place_cache),
+  // so concurrent searches for the same query can't leave both results
+  private async writeCache(
+    normalizedQuery: string,
+    options: PlaceSearchOptions,
+    places: PlaceSearchResult[]
+  ): Promise<void> {
+    const { error } = await this.supabase.rpc('replace_place_cache', {
+      p_normalized_query: normalizedQuery,
+      p_provider: this.provider.name,
+      p_country: options.country ?? null,
+      p_city: options.city ?? null,
+      p_location_bucket: locationBucket(options.location),
+      p_places: places.map(place => ({
+        place_id: place.place_id,
+        name: place.name,
+        address: place.address,
+        lat: place.lat,
+        lng: place.lng,
+        rating: place.rating ?? null,
+        rating_count: place.rating_count ?? null,
+        types: place.types ?? null,
+      })),
+    });
+
+    if (error) {
+      console.error('Place cache write failed:', error);
+    }
+  }
+
+  private scopedQuery(builder: any, normalizedQuery: string, options: PlaceSearchOptions): any {
+    let query = builder
+      .eq('normalized_query', normalizedQuery)
+      .eq('provider', this.provider.name);
+    query = options.country ? query.eq('country', options.country) : query.is('country', null);
+    query = options.city ? query.eq('city', options.city) : query.is('city', null);
+    const bucket = locationBucket(options.location);
+    query = bucket ? query.eq('location_bucket', bucket) : query.is('location_bucket', null);
+    return query;
+  }
+}
@@ -0,0 +1,428 @@
+// Place search providers shared by the edge functions.
+// Each provider maps its own API response onto PlaceSearchResult so the
+// scoring and persistence code never has to know which backend answered.
+
+import { PLACE_FIXTURES } from './fixtures/placeFixtures.ts'
+
+export type PlaceProviderName = 'google' | 'mapbox' | 'nominatim' | 'fake';
+
+export const PLACE_PROVIDER_NAMES: PlaceProviderName[] = ['google', 'mapbox', 'nominatim', 'fake'];
+
+// A provider that hangs fails the search rather than the whole import
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Providers a request may pick. The fake one answers from fixtures, so it is
+// only offered where ALLOW_FAKE_BACKENDS=true (local runs and checks).
+export function requestablePlaceProviders(): PlaceProviderName[] {
+  return Deno.env.get('ALLOW_FAKE_BACKENDS') === 'true'
+    ? PLACE_PROVIDER_NAMES
+    : PLACE_PROVIDER_NAMES.filter(name => name !== 'fake');
+}
+
+export interface PlaceSearchResult {
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  place_id: string;
+  provider: PlaceProviderName;
+  rating?: number;
+  // Number of ratings behind `rating`
+  rating_count?: number;
+  types?: string[];
+}
+
+export interface PlaceSearchOptions {
+  country?: string;
+  city?: string;
+  // Bias results towards this point (e.g. the user's location)
+  location?: { lat: number; lng: number };
+}
+
+export interface PlaceProvider {
+  readonly name: PlaceProviderName;
+  searchPlaces(query: string, options?: PlaceSearchOptions): Promise<PlaceSearchResult[]>;
+  getPlaceDetails(placeId: string): Promise<PlaceSearchResult | null>;
+  // Resolve a full street address ("Götgatan 43, 118 26 Stockholm, SE") to
+  // the point it names, or null when the geocoder doesn't know it
+  geocodeAddress(address: string, options?: PlaceSearchOptions): Promise<PlaceSearchResult | null>;
+}
+
+// Append the city (and a non-ISO country) to the query for providers
+// without a structured location filter
+function buildLocationQuery(query: string, options: PlaceSearchOptions = {}): string {
+  const parts = [query];
+  if (options.city) parts.push(options.city);
+  if (options.country && !isCountryCode(options.country)) parts.push(options.country);
+  return parts.length > 1 ? `${query} in ${parts.slice(1).join(', ')}` : query;
+}
+
+function isCountryCode(country: string): boolean {
+  return /^[A-Za-z]{2}$/.test(country);
+}
+
+// Google Places (Text Search + Place Details)
+export class GooglePlacesProvider implements PlaceProvider {
+  readonly name = 'google' as const;
+
+  constructor(private readonly apiKey: string) {}
+
+  async searchPlaces(query: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult[]> {
+    const params = new URLSearchParams({
+      query: buildLocationQuery(query, { city: options.city }),
+      key: this.apiKey,
+      type: 'restaurant|food',
+    });
+    if (options.country && isCountryCode(options.country)) {
+      params.set('region', options.country.toLowerCase());
+    }
+    if (options.location) {
+      params.set('location', `${options.location.lat},${options.location.lng}`);
+      params.set('radius', '50000');
+    }
+
+    const response = await fetch(`https://maps.googleapis.com/maps/api/place/textsearch/json?${params}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new Error(`Places API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    // Anything but OK or ZERO_RESULTS (OVER_QUERY_LIMIT, REQUEST_DENIED,
+    // INVALID_REQUEST) says nothing about the place, so it mustn't be
+    // cached as "no results"
+    if (data.status === 'ZERO_RESULTS') {
+      return [];
+    }
+    if (data.status !== 'OK') {
+      throw new Error(`Places API returned status: ${data.status}`);
+    }
+
+    return data.results.map((place: any) => this.toResult(place));
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceSearchResult | null> {
+    const params = new URLSearchParams({
+      place_id: placeId,
+      key: this.apiKey,
+      fields: 'name,formatted_address,geometry,place_id,rating,user_ratings_total,types',
+    });
+
+    const response = await fetch(`https://maps.googleapis.com/maps/api/place/details/json?${params}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new Error(`Places Details API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (data.status === 'NOT_FOUND' || data.status === 'ZERO_RESULTS') {
+      return null;
+    }
+    if (data.status !== 'OK' || !data.result) {
+      throw new Error(`Places Details API returned status: ${data.status}`);
+    }
+
+    return this.toResult(data.result);
+  }
+
+  async geocodeAddress(address: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult | null> {
+    const params = new URLSearchParams({ address, key: this.apiKey });
+    if (options.country && isCountryCode(options.country)) {
+      params.set('region', options.country.toLowerCase());
+    }
+
+    const response = await fetch(`https://maps.googleapis.com/maps/api/geocode/json?${params}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new Error(`Geocoding API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (data.status === 'ZERO_RESULTS') {
+      return null;
+    }
+    if (data.status !== 'OK') {
+      throw new Error(`Geocoding API returned status: ${data.status}`);
+    }
+    if (data.results.length === 0) {
+      return null;
+    }
+
+    const result = data.results[0];
+    return this.toResult({ ...result, name: result.formatted_address.split(',')[0] });
+  }
+
+  private toResult(place: any): PlaceSearchResult {
+    return {
+      name: place.name,
+      address: place.formatted_address,
+      lat: place.geometry.location.lat,
+      lng: place.geometry.location.lng,
+      place_id: place.place_id,
+      provider: this.name,
+      rating: place.rating,
+      rating_count: place.user_ratings_total,
+      types: place.types,
+    };
+  }
+}
+
+// Mapbox Search Box API (forward search + retrieve)
+export class MapboxSearchProvider implements PlaceProvider {
+  readonly name = 'mapbox' as const;
+
+  constructor(private readonly accessToken: string) {}
+
+  async searchPlaces(query: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult[]> {
+    const params = new URLSearchParams({
+      q: buildLocationQuery(query, options),
+      types: 'poi',
+      limit: '10',
+      access_token: this.accessToken,
+    });
+    if (options.country && isCountryCode(options.country)) {
+      params.set('country', options.country.toLowerCase());
+    }
+    if (options.location) {
+      params.set('proximity', `${options.location.lng},${options.location.lat}`);
+    }
+
+    const response = await fetch(`https://api.mapbox.com/search/searchbox/v1/forward?${params}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new Error(`Mapbox Search API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.features || []).map((feature: any) => this.toResult(feature));
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceSearchResult | null> {
+    const params = new URLSearchParams({
+      session_token: crypto.randomUUID(),
+      access_token: this.accessToken,
+    });
+
+    const response = await fetch(
+      `https://api.mapbox.com/search/searchbox/v1/retrieve/${encodeURIComponent(placeId)}?${params}`,
+      { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Mapbox Retrieve API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const feature = data.features?.[0];
+    return feature ? this.toResult(feature) : null;
+  }
+
+  // Geocoding v6 rather than the Search Box, which ranks POIs over addresses
+  async geocodeAddress(address: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult | null> {
+    const params = new URLSearchParams({
+      q: address,
+      types: 'address',
+      limit: '1',
+      access_token: this.accessToken,
+    });
+    if (options.country && isCountryCode(options.country)) {
+      params.set('country', options.country.toLowerCase());
+    }
+
+    const response = await fetch(`https://api.mapbox.com/search/geocode/v6/forward?${params}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new Error(`Mapbox Geocoding API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const feature = data.features?.[0];
+    return feature ? this.toResult(feature) : null;
+  }
+
+  private toResult(feature: any): PlaceSearchResult {
+    const properties = feature.properties || {};
+    const [lng, lat] = feature.geometry.coordinates;
+    return {
+      name: properties.name,
+      address: properties.full_address || properties.place_formatted || '',
+      lat,
+      lng,
+      place_id: properties.mapbox_id,
+      provider: this.name,
+      types: properties.poi_category_ids || properties.poi_category,
+    };
+  }
+}
+
+// OpenStreetMap Nominatim (search + lookup). Place ids are the OSM type
+// initial followed by the OSM id, e.g. "N123456", which is what /lookup takes.
+export class NominatimProvider implements PlaceProvider {
+  readonly name = 'nominatim' as const;
+
+  constructor(
+    private readonly baseUrl = 'https://nominatim.openstreetmap.org',
+    private readonly userAgent = 'MapBites/1.0'
+  ) {}
+
+  async searchPlaces(query: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult[]> {
+    const params = new URLSearchParams({
+      q: buildLocationQuery(query, options),
+      format: 'jsonv2',
+      addressdetails: '1',
+      limit: '10',
+    });
+    if (options.country && isCountryCode(options.country)) {
+      params.set('countrycodes', options.country.toLowerCase());
+    }
+    if (options.location) {
+      // Unbounded viewbox of roughly 50km around the point only biases ranking
+      const { lat, lng } = options.location;
+      params.set('viewbox', [lng - 0.5, lat + 0.5, lng + 0.5, lat - 0.5].join(','));
+    }
+
+    const response = await fetch(`${this.baseUrl}/search?${params}`, {
+      headers: { 'User-Agent': this.userAgent },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim search error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.map((place: any) => this.toResult(place));
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceSearchResult | null> {
+    const params = new URLSearchParams({
+      osm_ids: placeId,
+      format: 'jsonv2',
+      addressdetails: '1',
+    });
+
+    const response = await fetch(`${this.baseUrl}/lookup?${params}`, {
+      headers: { 'User-Agent': this.userAgent },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim lookup error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.length > 0 ? this.toResult(data[0]) : null;
+  }
+
+  async geocodeAddress(address: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult | null> {
+    const params = new URLSearchParams({
+      q: address,
+      format: 'jsonv2',
+      addressdetails: '1',
+      limit: '1',
+    });
+    if (options.country && isCountryCode(options.country)) {
+      params.set('countrycodes', options.country.toLowerCase());
+    }
+
+    const response = await fetch(`${this.baseUrl}/search?${params}`, {
+      headers: { 'User-Agent': this.userAgent },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim search error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.length > 0 ? this.toResult(data[0]) : null;
+  }
+
+  private toResult(place: any): PlaceSearchResult {
+    return {
+      name: place.name || place.display_name.split(',')[0],
+      address: place.display_name,
+      lat: parseFloat(place.lat),
+      lng: parseFloat(place.lon),
+      place_id: `${place.osm_type.charAt(0).toUpperCase()}${place.osm_id}`,
+      provider: this.name,
+      types: [place.category, place.type].filter(Boolean),
+    };
+  }
+}
+
+// In-memory provider backed by a fixed list of places, used for local runs
+// and tests. Matches on case-insensitive substring of the place name, and
+// geocodes an address by the street part of the places' addresses.
+export class FakePlaceProvider implements PlaceProvider {
+  readonly name = 'fake' as const;
+  readonly searches: string[] = [];
+  readonly geocoded: string[] = [];
+
+  constructor(private readonly places: Omit<PlaceSearchResult, 'provider'>[] = []) {}
+
+  async searchPlaces(query: string, options: PlaceSearchOptions = {}): Promise<PlaceSearchResult[]> {
+    this.searches.push(buildLocationQuery(query, options));
+    const needle = query.toLowerCase();
+    return this.places
+      .filter(place => place.name.toLowerCase().includes(needle) || needle.includes(place.name.toLowerCase()))
+      .map(place => ({ ...place, provider: this.name }));
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceSearchResult | null> {
+    const place = this.places.find(p => p.place_id === placeId);
+    return place ? { ...place, provider: this.name } : null;
+  }
+
+  // Like a real geocoder, answers with the street address, not the place there
+  async geocodeAddress(address: string): Promise<PlaceSearchResult | null> {
+    this.geocoded.push(address);
+    const street = address.split(',')[0].trim();
+    const place = this.places.find(p => p.address.toLowerCase().includes(street.toLowerCase()));
+    if (!place) return null;
+    return {
+      name: place.address.split(',')[0],
+      address: place.address,
+      lat: place.lat,
+      lng: place.lng,
+      place_id: `address:${place.address}`,
+      provider: this.name,
+      types: ['street_address'],
+    };
+  }
+}
+
+// Build the provider for a request. An explicit name wins, then the
+// PLACE_PROVIDER env var, then Google.
+export function createPlaceProvider(name?: string): PlaceProvider {
+  const providerName = (name || Deno.env.get('PLACE_PROVIDER') || 'google') as PlaceProviderName;
+
+  switch (providerName) {
+    case 'google': {
+      const apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
+      if (!apiKey) {
+        throw new Error('GOOGLE_MAPS_API_KEY not configured');
+      }
+      return new GooglePlacesProvider(apiKey);
+    }
+    case 'mapbox': {
+      const accessToken = Deno.env.get('MAPBOX_ACCESS_TOKEN');
+      if (!accessToken) {
+        throw new Error('MAPBOX_ACCESS_TOKEN not configured');
+      }
+      return new MapboxSearchProvider(accessToken);
+    }
+    case 'nominatim':
+      return new NominatimProvider(
+        Deno.env.get('NOMINATIM_URL') || undefined,
+        Deno.env.get('NOMINATIM_USER_AGENT') || undefined
+      );
+    case 'fake':
+      return new FakePlaceProvider(PLACE_FIXTURES);
+    default:
+      throw new Error(`Unknown place provider: ${providerName}`);
+  }
+}
@@ -0,0 +1,131 @@
+// Extract restaurant name candidates from OCR pages.
+// In food videos the name is usually the largest overlay text (or a sign),
+// sits in the middle of the frame and stays on screen for several frames,
+// so lines are weighted by text height, position and repetition on top of
+// the keyword / title case / @# heuristics.
+
+import { OCRLine, OCRPage } from './ocr.ts';
+import { hasFoodKeyword, KeywordLocale } from './foodKeywords.ts';
+import { compareKey, isTitleCase } from './text.ts';
+
+export interface POICandidateFeatures {
+  // Line height relative to the tallest line in its frame (0-1), null without geometry
+  relative_height: number | null;
+  // Line height as a fraction of the frame height, when the frame size is known
+  frame_height_ratio: number | null;
+  // Vertical center of the line as a fraction of the frame height
+  vertical_position: number | null;
+  // Share of frames with text that contain the line
+  frame_ratio: number;
+  frame_count: number;
+  food_keyword: boolean;
+  title_case: boolean;
+  social: boolean;
+  ocr_confidence: number;
+}
+
+export interface POICandidate {
+  text: string;
+  score: number;
+  features: POICandidateFeatures;
+}
+
+const WEIGHTS = {
+  size: 0.35,
+  repetition: 0.2,
+  position: 0.15,
+  keyword: 0.15,
+  titleCase: 0.1,
+  social: 0.05,
+};
+
+// Lines at least this big (relative to the frame's tallest) count as headline text
+const HEADLINE_RELATIVE_HEIGHT = 0.6;
+// Captions, handles and app chrome live at the top and bottom edges
+const CENTER_BAND = { top: 0.1, bottom: 0.8 };
+
+interface LineGroup {
+  text: string;
+  lines: Array<{ line: OCRLine; page: OCRPage; maxHeight: number }>;
+  frames: Set<number>;
+}
+
+function extractFeatures(group: LineGroup, framesWithText: number, locales?: KeywordLocale[]): POICandidateFeatures {
+  const withGeometry = group.lines.filter(({ line, maxHeight }) => maxHeight > 0 && line.box.height > 0);
+  const sized = withGeometry.filter(({ page }) => page.height);
+
+  const max = (values: number[]) => (values.length > 0 ? Math.max(...values) : null);
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return {
+    relative_height: max(withGeometry.map(({ line, maxHeight }) => line.box.height / maxHeight)),
+    frame_height_ratio: max(sized.map(({ line, page }) => line.box.height / page.height!)),
+    vertical_position: mean(sized.map(({ line, page }) => (line.box.y + line.box.height / 2) / page.height!)),
+    frame_ratio: group.frames.size / Math.max(1, framesWithText),
+    frame_count: group.frames.size,
+    food_keyword: hasFoodKeyword(group.text, locales),
+    title_case: isTitleCase(group.text),
+    social: group.text.includes('@') || group.text.includes('#'),
+    ocr_confidence: mean(group.lines.map(({ line }) => line.confidence)) ?? 0,
+  };
+}
+
+function scoreFeatures(features: POICandidateFeatures): number {
+  // Without geometry every line gets the same neutral size and position
+  const size = features.relative_height ?? 0.5;
+  const position = features.vertical_position === null
+    ? 0.5
+    : features.vertical_position >= CENTER_BAND.top && features.vertical_position <= CENTER_BAND.bottom ? 1 : 0.2;
+
+  return (
+    WEIGHTS.size * size +
+    WEIGHTS.repetition * features.frame_ratio +
+    WEIGHTS.position * position +
+    WEIGHTS.keyword * (features.food_keyword ? 1 : 0) +
+    WEIGHTS.titleCase * (features.title_case ? 1 : 0) +
+    WEIGHTS.social * (features.social ? 1 : 0)
+  );
+}
+
+// Rank the OCR lines of all frames as restaurant name candidates, best first.
+// Lines repeated across frames are merged (ignoring case, punctuation and
+// accents); the first spelling seen is kept. Keywords are checked in the
+// given languages, or all of them.
+export function extractPOICandidates(pages: OCRPage[], locales?: KeywordLocale[]): POICandidate[] {
+  const groups = new Map<string, LineGroup>();
+  let framesWithText = 0;
+
+  pages.forEach((page, frameIndex) => {
+    if (page.lines.length === 0) return;
+    framesWithText++;
+
+    const maxHeight = Math.max(...page.lines.map(line => line.box.height));
+    for (const line of page.lines) {
+      const text = line.text.trim();
+      if (text.length === 0) continue;
+
+      const key = compareKey(text);
+      const group = groups.get(key) ?? { text, lines: [], frames: new Set<number>() };
+      group.lines.push({ line, page, maxHeight });
+      group.frames.add(frameIndex);
+      groups.set(key, group);
+    }
+  });
+
+  const candidates: POICandidate[] = [];
+  for (const group of groups.values()) {
+    const { text } = group;
+    if (text.includes('http') || text.includes('www')) continue;
+
+    const features = extractFeatures(group, framesWithText, locales);
+    const reasonableLength = text.length >= 3 && text.length <= 50;
+    const isHeadline = (features.relative_height ?? 0) >= HEADLINE_RELATIVE_HEIGHT && reasonableLength;
+
+    if (features.food_keyword || (features.title_case && reasonableLength) || features.social || isHeadline) {
+      candidates.push({ text, score: scoreFeatures(features), features });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,169 @@
+// Requests to URLs that came from a user or a page they linked (shared links,
+// their redirects, og:image thumbnails, video files). The URL and every
+// redirect it takes must be http(s) on a host that resolves to public
+// addresses only, so a link can't make an edge function read internal
+// services (the metadata endpoint, the database, localhost). Every request
+// has a deadline. Uses Deno.resolveDns, so unlike socialUrls.ts and
+// socialMetadata.ts the app can't load this file.
+
+import { FetchText, PREVIEW_HEADERS } from './socialMetadata.ts';
+import { ResolveRedirects } from './socialUrls.ts';
+
+export class BlockedUrlError extends Error {}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 5;
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+// Eight 16-bit groups, with :: expanded and a trailing dotted IPv4 folded in
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIPv4(dotted[1]);
+    if (!octets) return null;
+    text = text.slice(0, -dotted[1].length) +
+      `${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 ||                                   // "this" network
+    a === 10 ||                                  // private
+    a === 127 ||                                 // loopback
+    (a === 100 && b >= 64 && b <= 127) ||        // carrier-grade NAT
+    (a === 169 && b === 254) ||                  // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||         // private
+    (a === 192 && b === 0 && c === 0) ||         // IETF protocol assignments
+    (a === 192 && b === 168) ||                  // private
+    (a === 198 && (b === 18 || b === 19)) ||     // benchmarking
+    a >= 224                                     // multicast, reserved, broadcast
+  );
+}
+
+function isPublicIPv6(groups: number[]): boolean {
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 address
+  const mapped = groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff;
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (mapped || nat64) {
+    return isPublicIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+
+  const [first] = groups;
+  return !(
+    groups.slice(0, 7).every(group => group === 0) || // unspecified (::), loopback (::1)
+    (first & 0xfe00) === 0xfc00 ||                     // unique local
+    (first & 0xffc0) === 0xfe80 ||                     // link-local
+    (first & 0xff00) === 0xff00                        // multicast
+  );
+}
+
+/**
+ * Whether an IP address is routable on the public internet. Anything that
+ * doesn't parse as an address counts as not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPublicIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isPublicIPv6(ipv6) : false;
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  if (parseIPv4(host) || host.includes(':')) return [host];
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : []);
+}
+
+/**
+ * The parsed URL, or a BlockedUrlError when it isn't http(s) or its host
+ * doesn't resolve to public addresses only
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError(`Not a URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedUrlError(`Only http and https URLs can be fetched: ${url}`);
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await resolveHost(host);
+  if (addresses.length === 0) {
+    throw new BlockedUrlError(`${host} does not resolve`);
+  }
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  if (blocked) {
+    throw new BlockedUrlError(`${host} resolves to a non-public address (${blocked})`);
+  }
+  return parsed;
+}
+
+/**
+ * fetch() that checks the URL and each redirect with assertPublicUrl and
+ * gives up after timeoutMs, body included. The response's url is where the
+ * redirects ended.
+ */
+export async function publicFetch(url: string, init: RequestInit = {}, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<Response> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: 'manual', signal });
+
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    current = new URL(location, current).toString();
+  }
+
+  throw new BlockedUrlError(`More than ${MAX_REDIRECTS} redirects from ${url}`);
+}
+
+// fetchText and followRedirects, through publicFetch
+export const publicFetchText: FetchText = async (url) => {
+  const response = await publicFetch(url, { headers: PREVIEW_HEADERS });
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed: ${response.status}`);
+  }
+  return response.text();
+};
+
+export const publicRedirects: ResolveRedirects = async (url) => {
+  // HEAD is enough for most shorteners; TikTok answers some HEADs with 405
+  for (const method of ['HEAD', 'GET']) {
+    try {
+      const response = await publicFetch(url, { method });
+      await response.body?.cancel();
+      if (response.url) return response.url;
+    } catch (error) {
+      if (method === 'GET' || error instanceof BlockedUrlError) throw error;
+    }
+  }
+  return url;
+};
@@ -0,0 +1,33 @@
+// Restaurant writes from edge functions go through the upsert_restaurant()
+// database function, so re-importing the same place attaches to the
+// existing row instead of dropping another pin.
+
+export interface RestaurantInput {
+  name: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  place_provider: string;
+  place_id?: string | null;
+  tags?: string[];
+  created_by: string;
+}
+
+export async function upsertRestaurant(supabase: any, input: RestaurantInput): Promise<any> {
+  const { data: restaurant, error } = await supabase.rpc('upsert_restaurant', {
+    p_name: input.name,
+    p_lat: input.lat,
+    p_lng: input.lng,
+    p_created_by: input.created_by,
+    p_address: input.address ?? null,
+    p_place_provider: input.place_provider,
+    p_place_id: input.place_id ?? null,
+    p_tags: input.tags ?? [],
+  });
+
+  if (error) {
+    throw new Error(`Failed to upsert restaurant: ${error.message}`);
+  }
+
+  return restaurant;
+}
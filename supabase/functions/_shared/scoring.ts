@@ -0,0 +1,272 @@
+// Place candidate scoring shared by process_media and search_places.
+// A place's score is a weighted mean of component scores in 0-1:
+// name similarity (token set ratio and Jaro-Winkler), distance to the bias
+// location, food category and number of ratings. Components that can't be
+// computed (no location, no rating count) are left out of the mean rather
+// than counted as 0.
+
+import { PlaceSearchResult } from './placeProviders.ts';
+import { FOOD_KEYWORDS_BY_LOCALE } from './foodKeywords.ts';
+import { compareKey } from './text.ts';
+
+export interface ScoringWeights {
+  token_set: number;
+  jaro_winkler: number;
+  distance: number;
+  category: number;
+  rating_count: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  token_set: 0.35,
+  jaro_winkler: 0.3,
+  distance: 0.15,
+  category: 0.1,
+  rating_count: 0.1,
+};
+
+export interface ScoringOptions {
+  // Bias location, usually the user's position
+  location?: { lat: number; lng: number };
+  weights?: Partial<ScoringWeights>;
+}
+
+export interface ScoreComponents {
+  token_set: number;
+  jaro_winkler: number;
+  distance: number | null;
+  category: number;
+  rating_count: number | null;
+}
+
+export type ScoredPlace = PlaceSearchResult & {
+  score: number;
+  // The OCR candidate / query the name matched best
+  matched_text: string;
+  distance_m: number | null;
+  components: ScoreComponents;
+  // How much each component added to the score (see scoreContributions)
+  contributions: Partial<Record<keyof ScoringWeights, number>>;
+};
+
+// Place types from the providers are English
+const FOOD_TYPE_KEYWORDS = FOOD_KEYWORDS_BY_LOCALE.en;
+
+// Distance at which the distance component reaches 0.5
+const DISTANCE_HALF_SCORE_M = 2000;
+// Rating count at which the rating component reaches 0.5
+const RATING_COUNT_HALF_SCORE = 50;
+
+// Weights from PLACE_SCORE_WEIGHTS (JSON, e.g. {"distance":0.3}) on top of the defaults
+export function scoringWeightsFromEnv(): ScoringWeights {
+  const raw = Deno.env.get('PLACE_SCORE_WEIGHTS');
+  if (!raw) return DEFAULT_SCORING_WEIGHTS;
+
+  try {
+    return { ...DEFAULT_SCORING_WEIGHTS, ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('Invalid PLACE_SCORE_WEIGHTS, using defaults:', error);
+    return DEFAULT_SCORING_WEIGHTS;
+  }
+}
+
+// Calculate similarity score between two strings, ignoring case,
+// punctuation and accents
+export function calculateSimilarity(str1: string, str2: string): number {
+  const s1 = compareKey(str1);
+  const s2 = compareKey(str2);
+
+  if (s1 === s2) return 1.0;
+
+  const longer = s1.length > s2.length ? s1 : s2;
+  const shorter = s1.length > s2.length ? s2 : s1;
+
+  if (longer.length === 0) return 1.0;
+
+  const distance = levenshteinDistance(longer, shorter);
+  return (longer.length - distance) / longer.length;
+}
+
+function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,
+        matrix[j - 1][i] + 1,
+        matrix[j - 1][i - 1] + indicator
+      );
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
+
+// Token set ratio: compares the shared words against each side's extra
+// words, so "Ramen Ki-mama Södermalm" vs "Ki-mama Ramen" scores high
+export function tokenSetRatio(str1: string, str2: string): number {
+  const tokens1 = new Set(compareKey(str1).split(' ').filter(Boolean));
+  const tokens2 = new Set(compareKey(str2).split(' ').filter(Boolean));
+  if (tokens1.size === 0 || tokens2.size === 0) return 0;
+
+  const intersection = [...tokens1].filter(token => tokens2.has(token)).sort().join(' ');
+  const rest1 = [...tokens1].filter(token => !tokens2.has(token)).sort().join(' ');
+  const rest2 = [...tokens2].filter(token => !tokens1.has(token)).sort().join(' ');
+
+  const combined1 = [intersection, rest1].filter(Boolean).join(' ');
+  const combined2 = [intersection, rest2].filter(Boolean).join(' ');
+
+  return Math.max(
+    intersection ? calculateSimilarity(intersection, combined1) : 0,
+    intersection ? calculateSimilarity(intersection, combined2) : 0,
+    calculateSimilarity(combined1, combined2)
+  );
+}
+
+// Jaro-Winkler similarity, which favours strings sharing a prefix
+export function jaroWinkler(str1: string, str2: string): number {
+  const s1 = compareKey(str1);
+  const s2 = compareKey(str2);
+  if (s1 === s2) return 1;
+  if (s1.length === 0 || s2.length === 0) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(s1.length, s2.length) / 2) - 1);
+  const matched1 = new Array(s1.length).fill(false);
+  const matched2 = new Array(s2.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < s1.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(s2.length - 1, i + matchWindow);
+    for (let j = start; j <= end; j++) {
+      if (matched2[j] || s1[i] !== s2[j]) continue;
+      matched1[i] = true;
+      matched2[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < s1.length; i++) {
+    if (!matched1[i]) continue;
+    while (!matched2[k]) k++;
+    if (s1[i] !== s2[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / s1.length + matches / s2.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, s1.length, s2.length) && s1[prefix] === s2[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+export function haversineMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function scoreComponents(
+  candidate: string,
+  place: PlaceSearchResult,
+  distanceMeters: number | null
+): ScoreComponents {
+  const isFood = place.types?.some(type => FOOD_TYPE_KEYWORDS.some(keyword => type.includes(keyword)));
+
+  return {
+    token_set: tokenSetRatio(candidate, place.name),
+    jaro_winkler: jaroWinkler(candidate, place.name),
+    distance: distanceMeters === null ? null : DISTANCE_HALF_SCORE_M / (DISTANCE_HALF_SCORE_M + distanceMeters),
+    category: isFood ? 1 : 0,
+    rating_count: place.rating_count === undefined
+      ? null
+      : place.rating_count / (place.rating_count + RATING_COUNT_HALF_SCORE),
+  };
+}
+
+// Weighted mean of the components that could be computed
+export function combineScore(components: ScoreComponents, weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): number {
+  let total = 0;
+  let weightSum = 0;
+
+  for (const key of Object.keys(weights) as Array<keyof ScoringWeights>) {
+    const value = components[key];
+    if (value === null || !weights[key]) continue;
+    total += weights[key] * value;
+    weightSum += weights[key];
+  }
+
+  return weightSum > 0 ? total / weightSum : 0;
+}
+
+// How much each component added to the combined score (they sum to it)
+export function scoreContributions(
+  components: ScoreComponents,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): Partial<Record<keyof ScoringWeights, number>> {
+  const keys = (Object.keys(weights) as Array<keyof ScoringWeights>)
+    .filter(key => components[key] !== null && weights[key]);
+  const weightSum = keys.reduce((sum, key) => sum + weights[key], 0);
+
+  const contributions: Partial<Record<keyof ScoringWeights, number>> = {};
+  for (const key of keys) {
+    contributions[key] = weightSum > 0 ? (weights[key] * components[key]!) / weightSum : 0;
+  }
+  return contributions;
+}
+
+// Score place candidates against the OCR candidates (or a search query),
+// best first. Each place is scored against the candidate it matches best.
+export function scorePlaceCandidates(
+  candidates: string[],
+  places: PlaceSearchResult[],
+  options: ScoringOptions = {}
+): ScoredPlace[] {
+  const weights = { ...DEFAULT_SCORING_WEIGHTS, ...options.weights };
+
+  return places.map(place => {
+    const distanceMeters = options.location ? haversineMeters(options.location, place) : null;
+    let best: ScoredPlace | null = null;
+
+    for (const candidate of candidates) {
+      const components = scoreComponents(candidate, place, distanceMeters);
+      const score = combineScore(components, weights);
+      if (!best || score > best.score) {
+        best = {
+          ...place,
+          score,
+          matched_text: candidate,
+          distance_m: distanceMeters,
+          components,
+          contributions: scoreContributions(components, weights),
+        };
+      }
+    }
+
+    if (best) return best;
+
+    const components = scoreComponents('', place, distanceMeters);
+    return {
+      ...place,
+      score: 0,
+      matched_text: '',
+      distance_m: distanceMeters,
+      components,
+      contributions: scoreContributions(components, weights),
+    };
+  }).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,70 @@
+// Precision / recall of the place scorer over labeled cases.
+// Each case runs the same steps as process_media: POI candidates from the
+// OCR text, then the top place is "predicted" when it scores at least the
+// auto-confirm threshold.
+
+import { pageFromText } from './ocr.ts';
+import { extractPOICandidates } from './poiCandidates.ts';
+import { scorePlaceCandidates, ScoringWeights } from './scoring.ts';
+import { LabeledScoringCase } from './fixtures/scoringFixtures.ts';
+
+export interface ScoringCaseResult {
+  id: string;
+  expected_place_id: string | null;
+  predicted_place_id: string | null;
+  top_place_id: string | null;
+  top_score: number;
+  correct: boolean;
+}
+
+export interface ScoringEvaluation {
+  threshold: number;
+  precision: number;
+  recall: number;
+  cases: ScoringCaseResult[];
+}
+
+export function evaluateScoring(
+  cases: LabeledScoringCase[],
+  options: { threshold?: number; weights?: Partial<ScoringWeights> } = {}
+): ScoringEvaluation {
+  const threshold = options.threshold ?? 0.75;
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  const results = cases.map((labeledCase): ScoringCaseResult => {
+    const candidates = extractPOICandidates([pageFromText(labeledCase.ocr_text)])
+      .slice(0, 3)
+      .map(candidate => candidate.text);
+    const places = labeledCase.places.map(place => ({ ...place, provider: 'fake' as const }));
+    const [top] = scorePlaceCandidates(candidates, places, {
+      location: labeledCase.location,
+      weights: options.weights,
+    });
+
+    const predicted = top && top.score >= threshold ? top.place_id : null;
+    const expected = labeledCase.expected_place_id;
+
+    if (predicted && predicted === expected) truePositives++;
+    if (predicted && predicted !== expected) falsePositives++;
+    if (expected && predicted !== expected) falseNegatives++;
+
+    return {
+      id: labeledCase.id,
+      expected_place_id: expected,
+      predicted_place_id: predicted,
+      top_place_id: top?.place_id ?? null,
+      top_score: top?.score ?? 0,
+      correct: predicted === expected,
+    };
+  });
+
+  return {
+    threshold,
+    // No predictions at all counts as perfectly precise
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1,
+    recall: truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 1,
+    cases: results,
+  };
+}
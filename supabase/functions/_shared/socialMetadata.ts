@@ -0,0 +1,286 @@
+// Metadata for shared social media posts: oEmbed where the platform offers it
+// without a token (TikTok, YouTube) and OpenGraph tags from the page HTML
+// otherwise. The caption is split into hashtags, @mentions and a location
+// tag, which process_media and search_places turn into place candidates.
+// Like ocr.ts this file must stay free of imports so the app can load it.
+
+export type SocialPlatform = 'tiktok' | 'youtube' | 'instagram' | 'other';
+
+export interface GeoTag {
+  lat: number;
+  lng: number;
+}
+
+// What the caption says about where the video was made
+export interface CaptionSignals {
+  caption: string;
+  hashtags: string[];
+  mentions: string[];
+  // Place named by a 📍 line, "Location:" line or the platform's location sticker
+  location_tag: string | null;
+}
+
+export interface SocialPostMetadata extends CaptionSignals {
+  url: string;
+  platform: SocialPlatform;
+  title: string | null;
+  author: string | null;
+  thumbnail: string | null;
+  // Video file the page links to (og:video with a video/* type), for
+  // extracting frames; player pages and embeds don't count
+  video_url: string | null;
+  // Coordinates from the page's place / geo tags
+  geotag: GeoTag | null;
+}
+
+// Returns the response body of a GET request
+export type FetchText = (url: string) => Promise<string>;
+
+export const PREVIEW_HEADERS: Record<string, string> = {
+  // Some platforms only serve OpenGraph tags to link preview bots
+  'User-Agent': 'facebookexternalhit/1.1',
+  'Accept-Language': 'en',
+};
+
+export const fetchText: FetchText = async (url) => {
+  const response = await fetch(url, { headers: PREVIEW_HEADERS });
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed: ${response.status}`);
+  }
+  return response.text();
+};
+
+// Answers from fixtures keyed by URL, for running the parsers offline.
+// Unknown URLs fail like a 404.
+export function fixtureFetcher(fixtures: Record<string, string>): FetchText {
+  return async (url) => {
+    const body = fixtures[url];
+    if (body === undefined) throw new Error(`GET ${url} failed: 404`);
+    return body;
+  };
+}
+
+export function detectPlatform(url: string): SocialPlatform {
+  const lowerUrl = url.toLowerCase();
+
+  if (lowerUrl.includes('tiktok.com')) return 'tiktok';
+  if (lowerUrl.includes('youtube.com') || lowerUrl.includes('youtu.be')) return 'youtube';
+  if (lowerUrl.includes('instagram.com') || lowerUrl.includes('instagr.am')) return 'instagram';
+  return 'other';
+}
+
+const OEMBED_ENDPOINTS: Partial<Record<SocialPlatform, string>> = {
+  tiktok: 'https://www.tiktok.com/oembed?url=',
+  youtube: 'https://www.youtube.com/oembed?format=json&url=',
+};
+
+export function oEmbedUrl(url: string, platform = detectPlatform(url)): string | null {
+  const endpoint = OEMBED_ENDPOINTS[platform];
+  return endpoint ? endpoint + encodeURIComponent(url) : null;
+}
+
+// Hashtags and mentions allow letters in any script, digits, _ and (mentions) dots
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+const MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_])@([\p{L}\p{N}_.]+)/gu;
+// "📍 Ramen Ki-mama, Götgatan 43", "Location: ...", "Plats: ..."
+const LOCATION_LINE_PATTERN = /^\s*(?:📍|📌|(?:location|address|where|plats|adress|sted|adresse|paikka)\s*[:\-–])\s*(.+)$/iu;
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Split a caption into hashtags, mentions and a location tag
+export function parseCaption(caption: string, locationTag: string | null = null): CaptionSignals {
+  const text = caption.trim();
+  const hashtags = unique([...text.matchAll(HASHTAG_PATTERN)].map(match => match[1]));
+  const mentions = unique(
+    [...text.matchAll(MENTION_PATTERN)].map(match => match[1].replace(/\.+$/, '')).filter(Boolean)
+  );
+
+  let location = locationTag?.trim() || null;
+  if (!location) {
+    for (const line of text.split('\n')) {
+      const match = line.match(LOCATION_LINE_PATTERN);
+      if (match) {
+        // Hashtags after the place name aren't part of it
+        location = match[1].replace(HASHTAG_PATTERN, '').trim() || null;
+        if (location) break;
+      }
+    }
+  }
+
+  return { caption: text, hashtags, mentions, location_tag: location };
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeHtmlEntities(match[1] ?? match[2]) : null;
+}
+
+// <meta property|name="..." content="..."> tags of a page, keyed by
+// lowercased property. The first tag wins when a property repeats.
+export function parseMetaTags(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = (attribute(tag, 'property') ?? attribute(tag, 'name'))?.toLowerCase();
+    const content = attribute(tag, 'content');
+    if (key && content !== null && !(key in tags)) {
+      tags[key] = content;
+    }
+  }
+  return tags;
+}
+
+function parseGeoTag(tags: Record<string, string>): GeoTag | null {
+  const candidates: Array<[string | undefined, string | undefined]> = [
+    [tags['place:location:latitude'], tags['place:location:longitude']],
+    [tags['og:latitude'], tags['og:longitude']],
+    // "59.3139;18.0733"
+    ...[tags['geo.position'], tags['icbm']].map(value =>
+      (value?.split(/[;,]/) ?? []) as [string | undefined, string | undefined]
+    ),
+  ];
+
+  for (const [lat, lng] of candidates) {
+    const geotag = { lat: Number(lat), lng: Number(lng) };
+    if (lat && lng && Number.isFinite(geotag.lat) && Number.isFinite(geotag.lng)) {
+      return geotag;
+    }
+  }
+  return null;
+}
+
+function parseVideoUrl(tags: Record<string, string>): string | null {
+  if (!tags['og:video:type']?.toLowerCase().startsWith('video/')) return null;
+  return tags['og:video:secure_url'] ?? tags['og:video:url'] ?? tags['og:video'] ?? null;
+}
+
+// Instagram descriptions look like
+// '1,234 likes, 56 comments - foodie.sthlm on May 3, 2024: "caption"'
+function instagramCaption(description: string): string {
+  const match = description.match(/:\s*["“]([\s\S]*)["”]\s*\.?\s*$/);
+  return match ? match[1] : description;
+}
+
+// TikTok's page JSON carries the location sticker as "poi":{"name":...}
+function tiktokLocationTag(html: string): string | null {
+  const match = html.match(/"poi"\s*:\s*\{[^{}]*?"name"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+  if (!match) return null;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return null;
+  }
+}
+
+function emptyMetadata(url: string, platform: SocialPlatform): SocialPostMetadata {
+  return {
+    url,
+    platform,
+    title: null,
+    author: null,
+    thumbnail: null,
+    video_url: null,
+    geotag: null,
+    ...parseCaption(''),
+  };
+}
+
+// Fields from an oEmbed response. TikTok puts the caption in the title.
+export function metadataFromOEmbed(url: string, platform: SocialPlatform, json: any): SocialPostMetadata {
+  const metadata = emptyMetadata(url, platform);
+  const title = typeof json?.title === 'string' ? json.title : null;
+
+  metadata.title = title;
+  metadata.author = json?.author_unique_id ?? json?.author_name ?? null;
+  metadata.thumbnail = json?.thumbnail_url ?? null;
+  if (platform === 'tiktok' && title) {
+    Object.assign(metadata, parseCaption(title));
+  }
+  return metadata;
+}
+
+// Fields from a page's OpenGraph / meta tags
+export function metadataFromHtml(url: string, platform: SocialPlatform, html: string): SocialPostMetadata {
+  const tags = parseMetaTags(html);
+  const metadata = emptyMetadata(url, platform);
+  const description = tags['og:description'] ?? tags['description'] ?? '';
+
+  metadata.title = tags['og:title'] ?? tags['twitter:title'] ?? null;
+  metadata.thumbnail = tags['og:image'] ?? tags['twitter:image'] ?? null;
+  metadata.video_url = parseVideoUrl(tags);
+  metadata.geotag = parseGeoTag(tags);
+
+  const caption = platform === 'instagram' ? instagramCaption(description) : description;
+  const locationTag = (platform === 'tiktok' ? tiktokLocationTag(html) : null) ?? tags['og:locality'] ?? null;
+  Object.assign(metadata, parseCaption(caption, locationTag));
+
+  if (platform === 'instagram') {
+    metadata.author = description.match(/-\s*([\w.]+)\s+on\s/)?.[1] ?? null;
+  }
+  return metadata;
+}
+
+// oEmbed fills the post fields, the page adds what oEmbed leaves out
+// (description, location sticker, video file, geo tags)
+function mergeMetadata(primary: SocialPostMetadata, secondary: SocialPostMetadata): SocialPostMetadata {
+  const caption = primary.caption || secondary.caption;
+  const signals = parseCaption(caption, primary.location_tag ?? secondary.location_tag);
+
+  return {
+    ...signals,
+    url: primary.url,
+    platform: primary.platform,
+    title: primary.title ?? secondary.title,
+    author: primary.author ?? secondary.author,
+    thumbnail: primary.thumbnail ?? secondary.thumbnail,
+    video_url: primary.video_url ?? secondary.video_url,
+    geotag: primary.geotag ?? secondary.geotag,
+    hashtags: unique([...signals.hashtags, ...secondary.hashtags]),
+    mentions: unique([...signals.mentions, ...secondary.mentions]),
+  };
+}
+
+// Fetch and parse a post's metadata. Either source may fail; only when both
+// do is the error thrown.
+export async function fetchSocialMetadata(url: string, fetcher: FetchText = fetchText): Promise<SocialPostMetadata> {
+  const platform = detectPlatform(url);
+  const endpoint = oEmbedUrl(url, platform);
+
+  const [oEmbed, page] = await Promise.allSettled([
+    endpoint ? fetcher(endpoint).then(body => metadataFromOEmbed(url, platform, JSON.parse(body))) : Promise.reject(),
+    fetcher(url).then(html => metadataFromHtml(url, platform, html)),
+  ]);
+
+  if (oEmbed.status === 'fulfilled' && page.status === 'fulfilled') {
+    return mergeMetadata(oEmbed.value, page.value);
+  }
+  if (oEmbed.status === 'fulfilled') return oEmbed.value;
+  if (page.status === 'fulfilled') return page.value;
+  throw page.reason;
+}
@@ -0,0 +1,205 @@
+// Canonical URLs for shared social media links. Share sheets hand out short
+// links (vm.tiktok.com, instagram.com/share) and append tracking params
+// (?igsh=, ?si=, utm_*), so the same video arrives under many URLs. The
+// canonical URL is built from the platform's stable id and is what imports
+// are deduplicated on. Like ocr.ts this file must stay free of runtime
+// imports so the app can load it.
+
+import type { SocialPlatform } from './socialMetadata.ts';
+
+export type SocialUrlKind = 'video' | 'reel' | 'post' | 'short' | 'page';
+
+export interface CanonicalUrl {
+  // The URL to fetch and to dedupe imports on
+  url: string;
+  platform: SocialPlatform;
+  kind: SocialUrlKind;
+  // Stable id: TikTok's numeric video id, Instagram's shortcode, YouTube's
+  // video id. Null for other sites.
+  id: string | null;
+  // Where redirects ended up, before canonicalizing
+  resolved_url: string;
+}
+
+// Returns the URL a request ends up at after redirects
+export type ResolveRedirects = (url: string) => Promise<string>;
+
+export const followRedirects: ResolveRedirects = async (url) => {
+  // HEAD is enough for most shorteners; TikTok answers some HEADs with 405
+  for (const method of ['HEAD', 'GET']) {
+    try {
+      const response = await fetch(url, { method, redirect: 'follow' });
+      if (response.url) return response.url;
+    } catch (error) {
+      if (method === 'GET') throw error;
+    }
+  }
+  return url;
+};
+
+// Answers from fixtures mapping short links to where they redirect, for
+// running offline. Other URLs don't redirect.
+export function fixtureRedirects(redirects: Record<string, string>): ResolveRedirects {
+  return async (url) => redirects[url] ?? url;
+}
+
+// Query params that only say who shared the link and how
+const TRACKING_PARAMS = new Set([
+  'igsh', 'igshid', 'si', 'feature', 'fbclid', 'gclid', 'mc_cid', 'mc_eid',
+  'is_from_webapp', 'is_copy_url', 'sender_device', 'sender_web_id', 'web_id',
+  'share_app_id', 'share_item_id', 'share_link_id', 'social_share_type',
+  'source', 'ref', 'refer', 'lang', '_r', '_t', 'tt_from', 'u_code', 'checksum',
+  'timestamp', 'user_id', 'embed_source', 'pp',
+]);
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.has(key) || key.startsWith('utm_') || key.startsWith('share_');
+}
+
+// Links that only redirect somewhere and carry no id of their own
+const SHORT_LINK_HOSTS = new Set([
+  'vm.tiktok.com', 'vt.tiktok.com', 'bit.ly', 't.co', 'tinyurl.com', 'goo.gl',
+  'ow.ly', 'buff.ly', 'lnkd.in', 'fb.me', 'l.instagram.com',
+]);
+
+export function isShortLink(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  return (
+    SHORT_LINK_HOSTS.has(host) ||
+    // https://www.tiktok.com/t/ZTRabc123/
+    (host.endsWith('tiktok.com') && /^\/t\/\w+/.test(parsed.pathname)) ||
+    // https://www.instagram.com/share/reel/BAabc123/
+    (host.endsWith('instagram.com') && parsed.pathname.startsWith('/share/'))
+  );
+}
+
+const TIKTOK_VIDEO_PATTERNS = [
+  /^\/@([\w.-]+)\/(?:video|photo)\/(\d+)/,
+  /^\/v\/(\d+)/,
+  /^\/embed(?:\/v2)?\/(\d+)/,
+];
+
+const INSTAGRAM_PATTERN = /^\/(?:[\w.]+\/)?(p|reels?|tv)\/([\w-]+)/;
+
+// Parse a link the platform would serve directly. Short links (which need a
+// redirect to reveal the id) and unknown sites parse as null.
+export function parseSocialUrl(url: string): Omit<CanonicalUrl, 'resolved_url'> | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (isShortLink(url)) return null;
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  const path = parsed.pathname;
+
+  if (host === 'tiktok.com') {
+    for (const pattern of TIKTOK_VIDEO_PATTERNS) {
+      const match = path.match(pattern);
+      if (!match) continue;
+      const [id, user] = match.length === 3 ? [match[2], match[1]] : [match[1], null];
+      return {
+        // The user is part of the URL TikTok serves; ids alone only resolve through a redirect
+        url: user ? `https://www.tiktok.com/@${user.toLowerCase()}/video/${id}` : `https://www.tiktok.com/v/${id}`,
+        platform: 'tiktok',
+        kind: 'video',
+        id,
+      };
+    }
+    return null;
+  }
+
+  if (host === 'instagram.com' || host === 'instagr.am') {
+    const match = path.match(INSTAGRAM_PATTERN);
+    if (!match) return null;
+    // Shortcodes are unique across posts and reels, and /p/ serves both
+    return {
+      url: `https://www.instagram.com/p/${match[2]}/`,
+      platform: 'instagram',
+      kind: match[1] === 'p' ? 'post' : 'reel',
+      id: match[2],
+    };
+  }
+
+  if (host === 'youtube.com' || host === 'music.youtube.com' || host === 'youtu.be') {
+    let id: string | null = null;
+    let kind: SocialUrlKind = 'video';
+
+    if (host === 'youtu.be') {
+      id = path.slice(1).split('/')[0] || null;
+    } else if (path === '/watch') {
+      id = parsed.searchParams.get('v');
+    } else {
+      const match = path.match(/^\/(shorts|embed|v|live)\/([\w-]+)/);
+      if (match) {
+        id = match[2];
+        kind = match[1] === 'shorts' ? 'short' : 'video';
+      }
+    }
+
+    if (!id || !/^[\w-]{11}$/.test(id)) return null;
+    return { url: `https://www.youtube.com/watch?v=${id}`, platform: 'youtube', kind, id };
+  }
+
+  return null;
+}
+
+// Any other URL: no fragment, default port or tracking params, sorted
+// query and no trailing slash
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  if ((parsed.protocol === 'https:' && parsed.port === '443') || (parsed.protocol === 'http:' && parsed.port === '80')) {
+    parsed.port = '';
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  return parsed.toString();
+}
+
+// Canonicalize a shared link: follow redirects for short links (and for
+// TikTok /v/ links, to learn the user), then rebuild the URL from the id
+export async function canonicalizeUrl(url: string, resolve: ResolveRedirects = followRedirects): Promise<CanonicalUrl> {
+  const trimmed = url.trim();
+  let resolved = trimmed;
+
+  const direct = parseSocialUrl(trimmed);
+  if (!direct || (direct.platform === 'tiktok' && !direct.url.includes('/@'))) {
+    try {
+      resolved = await resolve(trimmed);
+    } catch (error) {
+      console.error('Failed to follow redirects:', error);
+    }
+  }
+
+  const parsed = parseSocialUrl(resolved) ?? direct;
+  if (parsed) {
+    return { ...parsed, resolved_url: resolved };
+  }
+
+  const normalized = normalizeUrl(resolved);
+  return {
+    url: normalized,
+    platform: 'other',
+    kind: 'page',
+    id: null,
+    resolved_url: resolved,
+  };
+}
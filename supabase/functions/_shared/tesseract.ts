@@ -0,0 +1,88 @@
+// Tesseract.js (WASM) OCR, so the pipeline can run without a Google Vision key.
+// Language data is downloaded on first use from TESSERACT_LANG_PATH, which can
+// point at a self-hosted copy of the tessdata files. Tesseract.js itself is
+// imported on first use, so loading this module doesn't need the network.
+import { OCREngine, OCRPage, OCRWord, lineFromWords, pageFromLines } from './ocr.ts'
+import { publicFetch } from './publicFetch.ts'
+
+export const DEFAULT_TESSERACT_LANGUAGES = ['eng', 'swe'];
+
+export interface TesseractOptions {
+  languages: string[];
+  langPath?: string;
+}
+
+export function tesseractOptionsFromEnv(): TesseractOptions {
+  const languages = Deno.env.get('TESSERACT_LANGUAGES');
+  return {
+    languages: languages
+      ? languages.split(/[+,]/).map((lang: string) => lang.trim()).filter(Boolean)
+      : DEFAULT_TESSERACT_LANGUAGES,
+    langPath: Deno.env.get('TESSERACT_LANG_PATH') || undefined,
+  };
+}
+
+// One worker per instance, created on the first frame and reused for the
+// rest. Call terminate() when the request is done.
+export class TesseractOCR implements OCREngine {
+  readonly name = 'tesseract' as const;
+  private worker: Promise<any> | null = null;
+
+  constructor(private readonly options: TesseractOptions = tesseractOptionsFromEnv()) {}
+
+  async recognize(imageUrl: string): Promise<OCRPage> {
+    // Frame URLs come from requests, so only public hosts are fetched
+    const response = await publicFetch(imageUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download frame: ${response.statusText}`);
+    }
+    const image = new Uint8Array(await response.arrayBuffer());
+
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+
+    // Tesseract confidences are 0-100 and boxes are corner coordinates
+    const lines = (data.lines || []).map((line: any) => lineFromWords(
+      (line.words || []).map((word: any): OCRWord => ({
+        text: word.text,
+        confidence: (word.confidence || 0) / 100,
+        box: {
+          x: word.bbox.x0,
+          y: word.bbox.y0,
+          width: word.bbox.x1 - word.bbox.x0,
+          height: word.bbox.y1 - word.bbox.y0,
+        },
+      }))
+    ));
+
+    return pageFromLines(lines);
+  }
+
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    if (!worker) return;
+    this.worker = null;
+    try {
+      await (await worker).terminate();
+    } catch (error) {
+      console.error('Failed to stop Tesseract worker:', error);
+    }
+  }
+
+  private getWorker(): Promise<any> {
+    if (this.worker) return this.worker;
+
+    const worker = import('https://esm.sh/tesseract.js@5.1.1')
+      .then(({ createWorker }) => createWorker(this.options.languages, undefined, {
+        langPath: this.options.langPath,
+        // The edge runtime has no IndexedDB to cache traineddata in
+        cacheMethod: 'none',
+      }))
+      .catch((error: Error) => {
+        this.worker = null;
+        throw new Error(`Failed to start Tesseract worker: ${error.message}`);
+      });
+    this.worker = worker;
+    return worker;
+  }
+}
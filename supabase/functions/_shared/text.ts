@@ -0,0 +1,51 @@
+// Unicode-aware text helpers for OCR output and place names.
+// normalizeText keeps letters like å/ä/ö/é intact and is safe to store.
+// foldDiacritics / compareKey strip them and are only for comparing two
+// strings (OCR often drops or misreads accents), never for storage.
+
+// Lowercase, drop punctuation and collapse whitespace, keeping all letters
+// and digits of any script
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Letters that don't decompose into a base letter + combining mark
+const FOLDED_LETTERS: Record<string, string> = {
+  'ø': 'o',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ß': 'ss',
+  'đ': 'd',
+  'ð': 'd',
+  'þ': 'th',
+  'ł': 'l',
+  'ı': 'i',
+};
+
+// Remove accents: "Malmö" -> "Malmo", "Smørrebrød" -> "Smorrebrod"
+export function foldDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[øæœßđðþłı]/gi, letter => {
+      const folded = FOLDED_LETTERS[letter.toLowerCase()];
+      return letter === letter.toLowerCase() ? folded : folded.charAt(0).toUpperCase() + folded.slice(1);
+    })
+    .normalize('NFC');
+}
+
+// Key for comparing two strings regardless of case, punctuation and accents
+export function compareKey(text: string): string {
+  return foldDiacritics(normalizeText(text));
+}
+
+// "Café Saturnus", "Björns Bar", "Ørsted-Ølbar" - every word starts upper case
+// followed by lower case letters, in any alphabet
+export function isTitleCase(text: string): boolean {
+  return /^\p{Lu}[\p{Ll}'’]+([\s-]+\p{Lu}[\p{Ll}'’]+)*$/u.test(text.normalize('NFC'));
+}
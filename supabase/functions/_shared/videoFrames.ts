@@ -0,0 +1,111 @@
+// Frames of a remote video for OCR: download the file from a public host,
+// sample stills with the deployment's frame extractor (see frames.ts) and
+// store them in the media bucket. extract_frames serves this to the app,
+// and import_url runs it on the video file a post page links to.
+import { createFrameExtractor } from './frameExtractors.ts'
+import { FrameSamplingOptions } from './frames.ts'
+import { publicFetch } from './publicFetch.ts'
+
+const DEFAULT_MAX_VIDEO_MB = 100;
+// The whole download, body included
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+export interface StoredFrame {
+  url: string;
+  // Seconds into the video
+  timestamp: number;
+  width: number;
+  height: number;
+}
+
+export interface StoredFrames {
+  duration: number;
+  frames: StoredFrame[];
+  // Storage paths of the frames, in the same order
+  paths: string[];
+}
+
+// The video couldn't be downloaded; status is the HTTP status to answer with
+export class DownloadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Stream the video to disk, giving up once it passes maxBytes. The URL and
+// its redirects must be on public hosts.
+async function downloadVideo(url: string, path: string, maxBytes: number): Promise<void> {
+  const response = await publicFetch(url, {}, DOWNLOAD_TIMEOUT_MS);
+  if (!response.ok || !response.body) {
+    throw new DownloadError(`Video download failed: ${response.status} ${response.statusText}`, 502);
+  }
+
+  // Post pages (tiktok.com/@user/video/...) serve HTML, not the video
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (contentType.startsWith('text/')) {
+    await response.body.cancel();
+    throw new DownloadError(`Not a video file (${contentType})`, 422);
+  }
+  if (Number(response.headers.get('Content-Length')) > maxBytes) {
+    await response.body.cancel();
+    throw new DownloadError(`Video is larger than ${maxBytes / 1024 / 1024} MB`, 413);
+  }
+
+  const file = await Deno.open(path, { write: true, create: true, truncate: true });
+  try {
+    const reader = response.body.getReader();
+    let written = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      written += value.length;
+      if (written > maxBytes) {
+        await reader.cancel();
+        throw new DownloadError(`Video is larger than ${maxBytes / 1024 / 1024} MB`, 413);
+      }
+      await file.write(value);
+    }
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * Download the video at url (up to MAX_VIDEO_MB), extract its frames and
+ * upload them to the media bucket as <folder>/frame_<n>.jpg. Frames come
+ * every 1.5s unless the options say otherwise.
+ */
+export async function extractAndStoreFrames(
+  supabase: any,
+  url: string,
+  folder: string,
+  options: Partial<FrameSamplingOptions> = {}
+): Promise<StoredFrames> {
+  const maxBytes = (Number(Deno.env.get('MAX_VIDEO_MB')) || DEFAULT_MAX_VIDEO_MB) * 1024 * 1024;
+  const videoPath = await Deno.makeTempFile({ prefix: 'video_' });
+
+  try {
+    await downloadVideo(url, videoPath, maxBytes);
+    const { duration, frames } = await createFrameExtractor().extract(videoPath, options);
+
+    const stored: StoredFrames = { duration, frames: [], paths: [] };
+    for (const [index, frame] of frames.entries()) {
+      const framePath = `${folder}/frame_${index}.jpg`;
+      const { error: uploadError } = await supabase.storage
+        .from('media')
+        .upload(framePath, frame.jpeg, { upsert: true, contentType: 'image/jpeg' });
+
+      if (uploadError) {
+        throw new Error(`Frame upload failed: ${uploadError.message}`);
+      }
+
+      const { data } = supabase.storage.from('media').getPublicUrl(framePath);
+      stored.paths.push(framePath);
+      stored.frames.push({ url: data.publicUrl, timestamp: frame.timestamp, width: frame.width, height: frame.height });
+    }
+    return stored;
+  } finally {
+    await Deno.remove(videoPath).catch(() => {});
+  }
+}
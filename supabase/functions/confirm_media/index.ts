@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.16.1/mod.ts'
+import { recordCreatorCity } from '../_shared/creatorProfiles.ts'
+import { Gazetteer } from '../_shared/gazetteer.ts'
+import { GEONAMES_CITIES } from '../_shared/geonamesCities.ts'
+
+// Pins one of the caller's imports to the restaurant they picked. Counting
+// the restaurant's city for the post's creator needs the service role, so
+// the app confirms through here rather than updating the row itself.
+
+// Types
+interface ConfirmMediaRequest {
+  media_id: string;
+  restaurant_id: string;
+}
+
+interface ConfirmMediaResponse {
+  media_id: string;
+  restaurant_id: string;
+  status: 'done';
+}
+
+// Input validation schema
+const ConfirmMediaSchema = z.object({
+  media_id: z.string().uuid(),
+  restaurant_id: z.string().uuid(),
+});
+
+// Maps confirmed restaurants to cities for the creator location priors
+const gazetteer = new Gazetteer(GEONAMES_CITIES);
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = ConfirmMediaSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonResponse({ error: parsed.error.message }, 400);
+    }
+
+    const { media_id, restaurant_id }: ConfirmMediaRequest = parsed.data;
+
+    // Initialize Supabase client (service role, for record_creator_city)
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only the owner confirms an import
+    const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    const { data: media } = await supabase
+      .from('media')
+      .select('user_id')
+      .eq('id', media_id)
+      .maybeSingle();
+    if (!media || media.user_id !== user.id) {
+      return jsonResponse({ error: 'Media not found' }, 404);
+    }
+
+    const { data: restaurant } = await supabase
+      .from('restaurants')
+      .select('id')
+      .eq('id', restaurant_id)
+      .maybeSingle();
+    if (!restaurant) {
+      return jsonResponse({ error: 'Restaurant not found' }, 404);
+    }
+
+    const { error: updateError } = await supabase
+      .from('media')
+      .update({ restaurant_id, status: 'done' })
+      .eq('id', media_id);
+
+    if (updateError) {
+      throw new Error(`Failed to confirm restaurant: ${updateError.message}`);
+    }
+
+    // Teach the creator's location prior; the confirmation stands either way
+    try {
+      await recordCreatorCity(supabase, gazetteer, media_id);
+    } catch (error) {
+      console.error(`Creator profile update failed for ${media_id}:`, error);
+    }
+
+    const response: ConfirmMediaResponse = { media_id, restaurant_id, status: 'done' };
+    return jsonResponse(response, 200);
+
+  } catch (error) {
+    console.error('Confirm media error:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
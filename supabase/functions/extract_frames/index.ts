@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.16.1/mod.ts'
+import { DownloadError, extractAndStoreFrames, StoredFrame } from '../_shared/videoFrames.ts'
+import { BlockedUrlError } from '../_shared/publicFetch.ts'
+
+// Spawns ffmpeg, so it runs where subprocesses are allowed and ffmpeg is
+// installed (self-hosted, or `supabase functions serve`); FRAME_EXTRACTOR=fake
+// stands in for it elsewhere.
+
+// Types
+interface ExtractFramesRequest {
+  // A direct link to a video file, not a post page
+  url: string;
+  // Store the frames under this media row and record them on it
+  media_id?: string;
+  interval_seconds?: number;
+  max_frames?: number;
+  start_seconds?: number;
+}
+
+interface ExtractFramesResponse {
+  frames: StoredFrame[];
+  duration: number;
+}
+
+// Input validation schema
+const ExtractFramesSchema = z.object({
+  url: z.string().trim().url().max(2000),
+  media_id: z.string().uuid().optional(),
+  interval_seconds: z.number().min(0.25).max(60).optional(),
+  max_frames: z.number().int().min(1).max(20).optional(), // process_media accepts up to 20
+  start_seconds: z.number().min(0).optional(),
+});
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+// Frames of a video extracted without a media row are stored under its URL
+async function urlKey(url: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
+  return Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = ExtractFramesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonResponse({ error: parsed.error.message }, 400);
+    }
+
+    const { url, media_id, interval_seconds, max_frames, start_seconds }: ExtractFramesRequest = parsed.data;
+
+    // Initialize Supabase client (service role, for storage)
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Frames are stored under the caller
+    const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    if (media_id) {
+      const { data: media } = await supabase
+        .from('media')
+        .select('user_id')
+        .eq('id', media_id)
+        .maybeSingle();
+      if (!media || media.user_id !== user.id) {
+        return jsonResponse({ error: 'Media not found' }, 404);
+      }
+    }
+
+    // FRAME_EXTRACTOR decides the extractor; the request can set the
+    // sampling, otherwise frames come every 1.5s
+    const folder = `ocr-frames/${user.id}/${media_id ?? await urlKey(url)}`;
+    const { duration, frames, paths } = await extractAndStoreFrames(supabase, url, folder, {
+      interval_seconds,
+      max_frames,
+      start_seconds,
+    });
+
+    if (media_id) {
+      await supabase
+        .from('media')
+        .update({ ocr_frame_paths: paths })
+        .eq('id', media_id);
+    }
+
+    const response: ExtractFramesResponse = { frames, duration };
+    return jsonResponse(response, 200);
+
+  } catch (error) {
+    console.error('Extract frames error:', error);
+    const status = error instanceof DownloadError ? error.status : error instanceof BlockedUrlError ? 400 : 500;
+    return jsonResponse({ error: error.message }, status);
+  }
+});
@@ -0,0 +1,245 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.16.1/mod.ts'
+import { createPlaceProvider, requestablePlaceProviders } from '../_shared/placeProviders.ts'
+import { CachedPlaceProvider } from '../_shared/placeCache.ts'
+import { requestableOCREngines } from '../_shared/ocrEngines.ts'
+import { runMediaPipeline } from '../_shared/mediaPipeline.ts'
+import { CanonicalUrl, canonicalizeUrl } from '../_shared/socialUrls.ts'
+import { fetchSocialMetadata, SocialPostMetadata } from '../_shared/socialMetadata.ts'
+import { assertPublicUrl, BlockedUrlError, publicFetchText, publicRedirects } from '../_shared/publicFetch.ts'
+import { creatorOf } from '../_shared/creatorProfiles.ts'
+import { extractAndStoreFrames } from '../_shared/videoFrames.ts'
+
+// Supabase's edge runtime keeps the worker alive for promises handed to
+// waitUntil after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Types
+interface ImportUrlRequest {
+  // The link as it was shared
+  url: string;
+  // Search bias, usually the device's location; a geotag or location tag
+  // on the post wins over it
+  country?: string;
+  city?: string;
+  lat?: number;
+  lng?: number;
+  provider?: string;
+  ocr_engine?: string;
+}
+
+interface ImportUrlResponse {
+  media_id: string;
+  // 'processing' for a new import; poll the media row for the outcome
+  status: string;
+  // The user had already imported this link; media_id is the earlier import
+  duplicate?: boolean;
+}
+
+// Input validation schema
+const ImportUrlSchema = z.object({
+  url: z.string().trim().url().max(2000),
+  country: z.string().optional(),
+  city: z.string().optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  provider: z.enum(requestablePlaceProviders() as [string, ...string[]]).optional(),
+  ocr_engine: z.enum(requestableOCREngines() as [string, ...string[]]).optional(),
+});
+
+// Frames we can get without downloading the video: the cover image, plus
+// the stills YouTube generates at 25%, 50% and 75% of the video
+function frameUrls(canonical: CanonicalUrl, post: SocialPostMetadata): string[] {
+  const frames = post.thumbnail ? [post.thumbnail] : [];
+  if (canonical.platform === 'youtube' && canonical.id) {
+    frames.push(...[1, 2, 3].map(n => `https://img.youtube.com/vi/${canonical.id}/${n}.jpg`));
+  }
+  return frames;
+}
+
+// Stills from the video file the post page links to (og:video), stored with
+// the import. Pages that only link a player have none, and extraction needs
+// ffmpeg and a download that can fail, so without them the import goes on
+// with the thumbnails alone.
+async function videoFrameUrls(supabase: any, userId: string, mediaId: string, post: SocialPostMetadata): Promise<string[]> {
+  if (!post.video_url) return [];
+
+  try {
+    const { frames, paths } = await extractAndStoreFrames(supabase, post.video_url, `ocr-frames/${userId}/${mediaId}`);
+    await supabase
+      .from('media')
+      .update({ ocr_frame_paths: paths })
+      .eq('id', mediaId);
+    return frames.map(frame => frame.url);
+  } catch (error) {
+    console.error(`Frame extraction for ${post.video_url} failed, reading the thumbnails only:`, error);
+    return [];
+  }
+}
+
+// The thumbnail URL comes from the page, so it gets the same check as the link
+async function publicUrls(urls: string[]): Promise<string[]> {
+  const checked = await Promise.all(urls.map(url => assertPublicUrl(url).then(() => url, () => null)));
+  return checked.filter((url): url is string => url !== null);
+}
+
+// The user's import of this link, unless it failed (a failed import doesn't
+// count, so the link can be imported again)
+async function findImport(supabase: any, userId: string, fingerprint: string): Promise<{ id: string; status: string } | null> {
+  const { data } = await supabase
+    .from('media')
+    .select('id, status')
+    .eq('user_id', userId)
+    .eq('content_fingerprint', fingerprint)
+    .neq('status', 'error')
+    .maybeSingle();
+  return data;
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = ImportUrlSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonResponse({ error: parsed.error.message }, 400);
+    }
+
+    const { url, country, city, lat, lng, provider, ocr_engine }: ImportUrlRequest = parsed.data;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The import belongs to the caller
+    const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    // Short links and tracking params resolve to one canonical URL, which is
+    // the link's fingerprint. Redirects are only followed to public hosts.
+    const canonical = await canonicalizeUrl(url, publicRedirects);
+
+    // Only posts on the platforms we can read are imported, so the function
+    // never fetches whatever else a link points at
+    if (canonical.platform === 'other') {
+      return jsonResponse({ error: 'Only TikTok, Instagram and YouTube links can be imported' }, 400);
+    }
+
+    const existing = await findImport(supabase, user.id, canonical.url);
+    if (existing) {
+      const response: ImportUrlResponse = { media_id: existing.id, status: existing.status, duplicate: true };
+      return jsonResponse(response, 200);
+    }
+
+    const post = await fetchSocialMetadata(canonical.url, publicFetchText);
+
+    // Confirmed places of this post count towards where its creator posts from
+    const creator = creatorOf({ source_app: canonical.platform, canonical_url: canonical.url, metadata: post });
+
+    const { data: media, error: mediaError } = await supabase
+      .from('media')
+      .insert({
+        user_id: user.id,
+        source_app: canonical.platform,
+        type: 'video',
+        status: 'uploaded',
+        source_url: url,
+        canonical_url: canonical.url,
+        content_fingerprint: canonical.url,
+        creator_platform: creator?.platform ?? null,
+        creator_handle: creator?.handle ?? null,
+        metadata: {
+          title: post.title,
+          description: post.caption || null,
+          thumbnail: post.thumbnail,
+          author: post.author,
+          hashtags: post.hashtags,
+          mentions: post.mentions,
+          locationTag: post.location_tag,
+          geotag: post.geotag
+        }
+      })
+      .select('id')
+      .single();
+
+    if (mediaError) {
+      // The same link imported twice at once: the other request's row won
+      // the unique index on the fingerprint
+      const winner = mediaError.code === '23505' ? await findImport(supabase, user.id, canonical.url) : null;
+      if (winner) {
+        const response: ImportUrlResponse = { media_id: winner.id, status: winner.status, duplicate: true };
+        return jsonResponse(response, 200);
+      }
+      throw new Error(`Failed to create media record: ${mediaError.message}`);
+    }
+
+    await supabase
+      .from('media')
+      .update({ status: 'processing' })
+      .eq('id', media.id);
+
+    // Place searches read through place_cache before hitting the provider
+    const placeProvider = new CachedPlaceProvider(createPlaceProvider(provider), supabase);
+
+    // Where the post was geotagged beats where the phone is
+    const location = post.geotag ?? (lat !== undefined && lng !== undefined ? { lat, lng } : undefined);
+
+    const processing = Promise.all([
+      publicUrls(frameUrls(canonical, post)),
+      videoFrameUrls(supabase, user.id, media.id, post),
+    ]).then(([thumbnails, videoFrames]) => runMediaPipeline(supabase, placeProvider, {
+      media_id: media.id,
+      frame_urls: [...thumbnails, ...videoFrames],
+      country: post.geotag ? undefined : country,
+      city: post.geotag ? undefined : city,
+      lat: location?.lat,
+      lng: location?.lng,
+      ocr_engine,
+      caption: {
+        caption: post.caption,
+        hashtags: post.hashtags,
+        mentions: post.mentions,
+        location_tag: post.location_tag,
+      },
+    })).catch(async (error) => {
+      console.error(`Import of ${canonical.url} failed:`, error);
+      await supabase
+        .from('media')
+        .update({ status: 'error' })
+        .eq('id', media.id);
+    });
+
+    // Answer right away and let the client poll the media row, where the
+    // runtime allows it
+    let status = 'processing';
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(processing);
+    } else {
+      const result = await processing;
+      status = !result ? 'error' : result.status === 'confirmed' ? 'done' : 'needs_confirmation';
+    }
+
+    const response: ImportUrlResponse = { media_id: media.id, status };
+    return jsonResponse(response, 200);
+
+  } catch (error) {
+    console.error('Import URL error:', error);
+    return jsonResponse({ error: error.message }, error instanceof BlockedUrlError ? 400 : 500);
+  }
+});
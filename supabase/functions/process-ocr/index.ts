@@ -1,24 +1,85 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.16.1/mod.ts'
 import { ImageAnnotatorClient } from 'https://esm.sh/@google-cloud/vision@4.0.0'
+import { mapWithConcurrency } from '../_shared/concurrency.ts'
+import { OCREngine, OCRLine, VisionClientOCREngine } from '../_shared/ocr.ts'
+import { closeOCREngine, createOCREngine, requestableOCREngines } from '../_shared/ocrEngines.ts'
+import { compareKey } from '../_shared/text.ts'
 
 // Types
 interface ProcessOCRRequest {
   media_id: string;
+  image_url?: string;
+  image_urls?: string[];
+  ocr_engine?: string;
+}
+
+interface FrameOCRResult {
   image_url: string;
+  text: string;
+  confidence?: number;
+  lines?: OCRLine[];
+  error?: string;
 }
 
 interface ProcessOCRResponse {
   status: 'done' | 'error';
   text?: string[];
+  frames?: FrameOCRResult[];
   error?: string;
 }
 
+const DEFAULT_OCR_CONCURRENCY = 4;
+const MAX_FRAMES = 20;
+
 // Input validation schema
-const ProcessOCRSchema = {
-  media_id: 'string',
-  image_url: 'string'
-};
+const ProcessOCRSchema = z.object({
+  media_id: z.string().uuid(),
+  image_url: z.string().min(1).optional(),
+  image_urls: z.array(z.string().min(1)).max(MAX_FRAMES).optional(),
+  ocr_engine: z.enum(requestableOCREngines() as [string, ...string[]]).optional(),
+});
+
+// Merge the text of all frames into one list of lines, dropping lines that
+// were already seen in an earlier frame (overlays usually stay on screen
+// for several frames). Comparison ignores case, punctuation and accents, since
+// OCR doesn't always read "Café" the same way twice.
+function mergeFrameLines(frames: FrameOCRResult[]): string[] {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+
+  for (const frame of frames) {
+    for (const rawLine of frame.text.split('\n')) {
+      const line = rawLine.trim();
+      const key = compareKey(line);
+      if (line.length === 0 || seen.has(key)) continue;
+      seen.add(key);
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+// Google Vision client authenticated with the service account from secrets
+function createVisionClientEngine(): OCREngine {
+  const serviceAccountJson = Deno.env.get('GOOGLE_APPLICATION_CREDENTIALS_JSON');
+  if (!serviceAccountJson) {
+    throw new Error('GOOGLE_APPLICATION_CREDENTIALS_JSON not found in secrets');
+  }
+
+  let serviceAccount;
+  try {
+    serviceAccount = JSON.parse(serviceAccountJson);
+  } catch (error) {
+    throw new Error('Invalid service account JSON format');
+  }
+
+  return new VisionClientOCREngine(new ImageAnnotatorClient({
+    credentials: serviceAccount,
+  }));
+}
 
 serve(async (req) => {
   if (req.method !== 'POST') {
@@ -26,42 +87,39 @@ serve(async (req) => {
   }
 
   try {
-    const body: ProcessOCRRequest = await req.json();
-    
-    // Validate input
-    if (!body.media_id || !body.image_url) {
+    const parsed = ProcessOCRSchema.safeParse(await req.json());
+    if (!parsed.success) {
       return new Response(JSON.stringify({
         status: 'error',
-        error: 'Missing required fields: media_id and image_url'
+        error: parsed.error.message
       }), {
         headers: { 'Content-Type': 'application/json' },
         status: 400,
       });
     }
+    const body: ProcessOCRRequest = parsed.data;
 
-    // Get service account JSON from Supabase secrets
-    const serviceAccountJson = Deno.env.get('GOOGLE_APPLICATION_CREDENTIALS_JSON');
-    if (!serviceAccountJson) {
-      throw new Error('GOOGLE_APPLICATION_CREDENTIALS_JSON not found in secrets');
-    }
-
-    // Parse service account JSON
-    let serviceAccount;
-    try {
-      serviceAccount = JSON.parse(serviceAccountJson);
-    } catch (error) {
-      throw new Error('Invalid service account JSON format');
+    // Accept a single image_url for older clients
+    const imageUrls = body.image_urls ?? (body.image_url ? [body.image_url] : []);
+    if (imageUrls.length === 0) {
+      return new Response(JSON.stringify({
+        status: 'error',
+        error: `Missing required field: image_urls (1-${MAX_FRAMES} URLs)`
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 400,
+      });
     }
 
-    // Initialize Google Vision client with service account
-    const visionClient = new ImageAnnotatorClient({
-      credentials: serviceAccount,
-    });
+    // Vision via the service account unless the request asks for another engine
+    const ocrEngine = body.ocr_engine && body.ocr_engine !== 'vision'
+      ? createOCREngine(body.ocr_engine)
+      : createVisionClientEngine();
 
     // Initialize Supabase client with service role key
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const serviceRoleKey = Deno.env.get('SERVICE_ROLE_KEY');
-    
+
     if (!supabaseUrl || !serviceRoleKey) {
       throw new Error('Missing Supabase configuration in secrets');
     }
@@ -69,52 +127,45 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
     console.log(`Processing OCR for media_id: ${body.media_id}`);
-    console.log(`Image URL: ${body.image_url}`);
-
-    // Perform OCR using Google Vision API
-    const [result] = await visionClient.textDetection(body.image_url);
-    const detections = result.textAnnotations;
-
-    if (!detections || detections.length === 0) {
-      console.log('No text detected in image');
-      
-      // Update media record with empty result
-      const { error: updateError } = await supabase
-        .from('media')
-        .update({
-          ocr_text: '',
-          status: 'done'
-        })
-        .eq('id', body.media_id);
-
-      if (updateError) {
-        throw new Error(`Failed to update media record: ${updateError.message}`);
-      }
+    console.log(`Frames: ${imageUrls.length}`);
 
-      return new Response(JSON.stringify({
-        status: 'done',
-        text: []
-      }), {
-        headers: { 'Content-Type': 'application/json' },
-        status: 200,
+    // Perform OCR on every frame, a few at a time
+    const concurrency = Number(Deno.env.get('OCR_CONCURRENCY')) || DEFAULT_OCR_CONCURRENCY;
+    let frames: FrameOCRResult[];
+    try {
+      frames = await mapWithConcurrency(imageUrls, concurrency, async (imageUrl): Promise<FrameOCRResult> => {
+        try {
+          const page = await ocrEngine.recognize(imageUrl);
+          return { image_url: imageUrl, text: page.text, confidence: page.confidence, lines: page.lines };
+        } catch (error) {
+          console.error(`OCR failed for frame ${imageUrl}:`, error);
+          return { image_url: imageUrl, text: '', error: error.message };
+        }
       });
+    } finally {
+      await closeOCREngine(ocrEngine);
     }
 
-    // Extract text from detections
-    const extractedText = detections.map(detection => detection.description || '').filter(text => text.length > 0);
-    
-    // The first detection is usually the full text, subsequent ones are individual words/lines
-    const fullText = extractedText[0] || '';
-    const individualTexts = extractedText.slice(1);
+    if (frames.every(frame => frame.error)) {
+      throw new Error(`OCR failed for all ${frames.length} frames`);
+    }
+
+    const lines = mergeFrameLines(frames);
+    const fullText = lines.join('\n');
 
-    console.log(`OCR completed. Found ${extractedText.length} text elements`);
-    console.log(`Full text: ${fullText.substring(0, 100)}...`);
+    console.log(`OCR completed. Found ${lines.length} unique lines across ${frames.length} frames`);
+    if (fullText.length === 0) {
+      console.log('No text detected in any frame');
+    } else {
+      console.log(`Full text: ${fullText.substring(0, 100)}...`);
+    }
 
-    // Update media record with OCR results
+    // Update media record with the aggregated and per-frame OCR results
     const { error: updateError } = await supabase
       .from('media')
       .update({
         ocr_text: fullText,
+        ocr_frames: frames,
         status: 'done'
       })
       .eq('id', body.media_id);
@@ -125,7 +176,8 @@ serve(async (req) => {
 
     const response: ProcessOCRResponse = {
       status: 'done',
-      text: individualTexts
+      text: lines,
+      frames
     };
 
     return new Response(JSON.stringify(response), {
@@ -135,7 +187,7 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('OCR processing error:', error);
-    
+
     const errorResponse: ProcessOCRResponse = {
       status: 'error',
       error: error.message || 'Unknown error occurred'
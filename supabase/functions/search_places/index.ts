@@ -0,0 +1,160 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.16.1/mod.ts'
+import { createPlaceProvider, PlaceSearchResult, requestablePlaceProviders } from '../_shared/placeProviders.ts'
+import { CachedPlaceProvider } from '../_shared/placeCache.ts'
+import { scorePlaceCandidates, scoringWeightsFromEnv } from '../_shared/scoring.ts'
+import { extractPOICandidates } from '../_shared/poiCandidates.ts'
+import { localesForCountry } from '../_shared/foodKeywords.ts'
+import { captionPage, withLocationTag } from '../_shared/captionCandidates.ts'
+import { CaptionSignals } from '../_shared/socialMetadata.ts'
+
+// Types
+interface SearchPlacesRequest {
+  // Free text, or a caption to pick candidates from the way process_media does
+  query?: string;
+  caption?: CaptionSignals;
+  lat?: number;
+  lng?: number;
+  country?: string;
+  city?: string;
+  provider?: string;
+  limit?: number;
+}
+
+interface SearchPlacesResponse {
+  candidates: Array<{
+    name: string;
+    address: string;
+    lat: number;
+    lng: number;
+    place_id: string;
+    provider: string;
+    score: number;
+  }>;
+  cache: {
+    hits: number;
+    misses: number;
+  };
+}
+
+// Input validation schema
+const SearchPlacesSchema = z.object({
+  query: z.string().trim().min(1).max(200).optional(),
+  caption: z.object({
+    caption: z.string().max(5000),
+    hashtags: z.array(z.string()),
+    mentions: z.array(z.string()),
+    location_tag: z.string().nullable(),
+  }).optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  country: z.string().optional(),
+  city: z.string().optional(),
+  provider: z.enum(requestablePlaceProviders() as [string, ...string[]]).optional(),
+  limit: z.number().int().min(1).max(20).optional(),
+});
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = SearchPlacesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        error: parsed.error.message
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 400,
+      });
+    }
+
+    const { query, caption, lat, lng, country, city, provider, limit = 5 } = parsed.data;
+
+    if (!query && !caption) {
+      return new Response(JSON.stringify({
+        error: 'query or caption is required'
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 400,
+      });
+    }
+
+    // Initialize Supabase client (service role, for place_cache)
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Searches spend the provider's quota, so only signed-in users get them
+    const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Not signed in'
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
+    const placeProvider = new CachedPlaceProvider(createPlaceProvider(provider), supabase);
+
+    const location = lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+
+    // Caption candidates come from the same POI extraction as OCR text
+    const queries = query
+      ? [query]
+      : withLocationTag(
+          extractPOICandidates([captionPage(caption!)], localesForCountry(country)).map(candidate => candidate.text),
+          caption
+        );
+
+    const places: PlaceSearchResult[] = [];
+    for (const candidate of queries.slice(0, 3)) {
+      try {
+        places.push(...await placeProvider.searchPlaces(candidate, { country, city, location }));
+      } catch (error) {
+        // A free text search has nothing to fall back on
+        if (query) throw error;
+        console.error(`Place search failed for candidate "${candidate}":`, error);
+      }
+    }
+
+    // Rank with the same scorer process_media uses for OCR candidates
+    const scoredPlaces = scorePlaceCandidates(queries, places, {
+      location,
+      weights: scoringWeightsFromEnv(),
+    }).slice(0, limit);
+
+    const response: SearchPlacesResponse = {
+      candidates: scoredPlaces.map(place => ({
+        name: place.name,
+        address: place.address,
+        lat: place.lat,
+        lng: place.lng,
+        place_id: place.place_id,
+        provider: place.provider,
+        score: place.score
+      })),
+      cache: placeProvider.stats
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error('Search places error:', error);
+    return new Response(JSON.stringify({
+      error: error.message
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,70 @@
+// Fit the analysis confidence model to imports users confirmed or rejected,
+// and print how well the current model, the fit on held-out folds and the
+// fitted model are calibrated on them.
+//
+//   deno run --allow-env --allow-net supabase/scripts/calibrate-analysis-confidence.ts [threshold]
+//
+// With SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set the outcomes are the
+// imports stored in media: the ones process_media asked about and the user
+// then pinned. Without them, the hand-labelled fixtures.
+//
+// Paste the fitted model into ANALYSIS_CONFIDENCE_MODEL in
+// _shared/analysisConfidence.ts.
+import {
+  crossValidateConfidence,
+  ConfidenceEvaluation,
+  evaluateConfidence,
+  fitConfidenceModel,
+  outcomesFromImports,
+  StoredImport,
+} from '../functions/_shared/confidenceEvaluation.ts'
+import { ANALYSIS_CONFIDENCE_MODEL } from '../functions/_shared/analysisConfidence.ts'
+import { ANALYSIS_OUTCOMES, AnalysisOutcome } from '../functions/_shared/fixtures/analysisOutcomeFixtures.ts'
+
+const threshold = Deno.args[0] ? Number(Deno.args[0]) : undefined;
+
+async function storedOutcomes(url: string, serviceKey: string): Promise<AnalysisOutcome[]> {
+  const query = new URLSearchParams({
+    select: 'id,match_explanation,restaurants(place_id)',
+    status: 'eq.done',
+    'match_explanation->evidence': 'not.is.null',
+  });
+  const response = await fetch(`${url}/rest/v1/media?${query}`, {
+    headers: { apikey: serviceKey, Authorization: `Bearer ${serviceKey}` },
+    signal: AbortSignal.timeout(60_000),
+  });
+  if (!response.ok) {
+    throw new Error(`Loading media failed: ${response.status} ${await response.text()}`);
+  }
+  return outcomesFromImports(await response.json() as StoredImport[]);
+}
+
+function report(label: string, evaluation: ConfidenceEvaluation) {
+  console.log(`\n${label}, threshold ${evaluation.threshold}`);
+  for (const outcome of evaluation.outcomes) {
+    const right = (outcome.confidence >= evaluation.threshold) === outcome.confirmed;
+    console.log(`  ${right ? 'ok  ' : 'FAIL'}  ${outcome.confidence.toFixed(2)}  ${outcome.confirmed ? 'confirmed' : 'rejected '}  ${outcome.id}`);
+  }
+  console.log([
+    `accuracy ${evaluation.accuracy.toFixed(3)}`,
+    `brier ${evaluation.brier.toFixed(3)}`,
+    `calibration error ${evaluation.calibration_error.toFixed(3)}`,
+  ].join('  '));
+}
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const outcomes = supabaseUrl && serviceKey ? await storedOutcomes(supabaseUrl, serviceKey) : ANALYSIS_OUTCOMES;
+const confirmed = outcomes.filter(outcome => outcome.confirmed).length;
+console.log(`${outcomes.length} outcomes from ${supabaseUrl && serviceKey ? 'media' : 'the fixtures'}: ${confirmed} confirmed, ${outcomes.length - confirmed} rejected`);
+if (outcomes.length < 2) {
+  console.log('Too few outcomes to fit');
+  Deno.exit(1);
+}
+
+report('current model', evaluateConfidence(outcomes, ANALYSIS_CONFIDENCE_MODEL, { threshold }));
+report('fitted model, held out (5-fold)', crossValidateConfidence(outcomes, { threshold }));
+
+const fitted = fitConfidenceModel(outcomes);
+report('fitted model', evaluateConfidence(outcomes, fitted, { threshold }));
+console.log(`\n${JSON.stringify(fitted, null, 2)}`);
@@ -0,0 +1,55 @@
+// Check frame sampling and the ffmpeg stand-in against the fixtures, and
+// optionally run a real extractor on a local video file.
+//
+//   deno run supabase/scripts/check-frame-extraction.ts
+//   deno run --allow-run --allow-read --allow-write --allow-env supabase/scripts/check-frame-extraction.ts --video clip.mp4 [--interval 2]
+//
+// Exits with status 1 when any fixture comes out differently than expected.
+import { FakeFrameExtractor, frameTimestamps, jpegSize } from '../functions/_shared/frames.ts'
+import { createFrameExtractor } from '../functions/_shared/frameExtractors.ts'
+import { FIXTURE_STILL, FIXTURE_STILL_SIZE, FRAME_TIMESTAMP_CASES } from '../functions/_shared/fixtures/frameFixtures.ts'
+
+const args = [...Deno.args];
+const videoFlag = args.indexOf('--video');
+const videoPath = videoFlag !== -1 ? args.splice(videoFlag, 2)[1] : undefined;
+const intervalFlag = args.indexOf('--interval');
+const interval = intervalFlag !== -1 ? Number(args.splice(intervalFlag, 2)[1]) : undefined;
+
+let failures = 0;
+
+function check(label: string, expected: unknown, actual: unknown) {
+  const ok = JSON.stringify(expected) === JSON.stringify(actual);
+  console.log(`${ok ? 'ok  ' : 'FAIL'}  ${label}`);
+  if (!ok) {
+    console.log(`    expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    failures++;
+  }
+}
+
+for (const { duration, options, expected } of FRAME_TIMESTAMP_CASES) {
+  check(`${duration}s ${JSON.stringify(options ?? {})}`, expected, frameTimestamps(duration, options));
+}
+
+check('fixture still size', FIXTURE_STILL_SIZE, jpegSize(FIXTURE_STILL));
+
+const fake = new FakeFrameExtractor(FIXTURE_STILL, 10);
+const extraction = await fake.extract('clip.mp4', { interval_seconds: 3 });
+check(
+  'stand-in frames',
+  frameTimestamps(10, { interval_seconds: 3 }).map(timestamp => ({ timestamp, ...FIXTURE_STILL_SIZE })),
+  extraction.frames.map(({ timestamp, width, height }) => ({ timestamp, width, height }))
+);
+
+const total = FRAME_TIMESTAMP_CASES.length + 2;
+console.log(`\n${total - failures}/${total} fixtures extracted as expected`);
+
+if (videoPath) {
+  const extractor = createFrameExtractor();
+  const { duration, frames } = await extractor.extract(videoPath, interval ? { interval_seconds: interval } : {});
+  console.log(`\n${extractor.name}: ${videoPath}, ${duration.toFixed(2)}s`);
+  for (const frame of frames) {
+    console.log(`  ${frame.timestamp.toFixed(2)}s  ${frame.width}x${frame.height}  ${frame.jpeg.length} bytes`);
+  }
+}
+
+if (failures > 0) Deno.exit(1);
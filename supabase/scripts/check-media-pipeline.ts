@@ -0,0 +1,250 @@
+// Run imports end to end through runMediaPipeline with the fake OCR engine
+// and place provider, against an in-memory stand-in for the database, and
+// check how each comes out, along with the place cache in front of the
+// provider and the creator location prior.
+//
+//   deno run --allow-env supabase/scripts/check-media-pipeline.ts
+//
+// Exits with status 1 when any case comes out differently than expected.
+import { runMediaPipeline } from '../functions/_shared/mediaPipeline.ts'
+import { CachedPlaceProvider } from '../functions/_shared/placeCache.ts'
+import { requestableOCREngines } from '../functions/_shared/ocrEngines.ts'
+import {
+  createPlaceProvider,
+  PlaceProvider,
+  PlaceSearchOptions,
+  PlaceSearchResult,
+  requestablePlaceProviders,
+} from '../functions/_shared/placeProviders.ts'
+import { MEDIA_PIPELINE_CASES } from '../functions/_shared/fixtures/mediaPipelineFixtures.ts'
+
+type Row = Record<string, any>;
+
+// Just enough of supabase-js for the pipeline: filters, single rows,
+// inserts, updates, deletes and the database functions it calls
+class MemoryQuery {
+  private filters: Array<(row: Row) => boolean> = [];
+  private action: 'select' | 'update' | 'delete' = 'select';
+  private changes: Row = {};
+
+  constructor(private readonly db: MemoryDatabase, private readonly table: string) {}
+
+  select(_columns?: string) { return this; }
+  order(_column: string, _options?: unknown) { return this; }
+  eq(column: string, value: unknown) { return this.where(row => row[column] === value); }
+  neq(column: string, value: unknown) { return this.where(row => row[column] !== value); }
+  is(column: string, value: null) { return this.where(row => (row[column] ?? null) === value); }
+  gte(column: string, value: string) { return this.where(row => row[column] >= value); }
+  gt(column: string, value: number) { return this.where(row => row[column] > value); }
+
+  update(changes: Row) {
+    this.action = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    const inserted = (Array.isArray(rows) ? rows : [rows]).map(row => this.db.insert(this.table, row));
+    return Promise.resolve({ data: inserted, error: null });
+  }
+
+  single() {
+    return this.run().then(({ data }) => data.length === 1
+      ? { data: data[0], error: null }
+      : { data: null, error: { message: `${data.length} rows` } });
+  }
+
+  maybeSingle() {
+    return this.run().then(({ data }) => ({ data: data[0] ?? null, error: null }));
+  }
+
+  then<T>(resolve: (result: { data: Row[]; error: null }) => T, reject?: (reason: unknown) => T) {
+    return this.run().then(resolve, reject);
+  }
+
+  private where(filter: (row: Row) => boolean) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private run(): Promise<{ data: Row[]; error: null }> {
+    const rows = this.db.rows(this.table);
+    const matched = rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.action === 'update') {
+      matched.forEach(row => Object.assign(row, this.changes));
+    } else if (this.action === 'delete') {
+      this.db.tables.set(this.table, rows.filter(row => !matched.includes(row)));
+    }
+    return Promise.resolve({ data: matched, error: null });
+  }
+}
+
+class MemoryDatabase {
+  readonly tables = new Map<string, Row[]>();
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  insert(table: string, row: Row): Row {
+    const stored = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...row };
+    this.rows(table).push(stored);
+    return stored;
+  }
+
+  from(table: string) {
+    return new MemoryQuery(this, table);
+  }
+
+  rpc(name: string, params: Row) {
+    if (name === 'upsert_restaurant') {
+      const existing = this.rows('restaurants').find(row =>
+        row.created_by === params.p_created_by &&
+        row.place_provider === params.p_place_provider &&
+        row.place_id === params.p_place_id
+      );
+      const restaurant = existing ?? this.insert('restaurants', {
+        name: params.p_name,
+        address: params.p_address,
+        lat: params.p_lat,
+        lng: params.p_lng,
+        place_provider: params.p_place_provider,
+        place_id: params.p_place_id,
+        created_by: params.p_created_by,
+      });
+      return Promise.resolve({ data: restaurant, error: null });
+    }
+    if (name === 'replace_place_cache') {
+      const key = {
+        normalized_query: params.p_normalized_query,
+        provider: params.p_provider,
+        country: params.p_country,
+        city: params.p_city,
+        location_bucket: params.p_location_bucket,
+      };
+      const sameKey = (row: Row) => Object.entries(key).every(([column, value]) => row[column] === value);
+      this.tables.set('place_cache', this.rows('place_cache').filter(row => !sameKey(row)));
+      const places: Row[] = params.p_places.length > 0 ? params.p_places : [{ place_id: null }];
+      places.forEach(place => this.insert('place_cache', { ...key, ...place }));
+    }
+    return Promise.resolve({ data: null, error: null });
+  }
+}
+
+// Fails every search until told otherwise, like a provider over its quota
+class FailingPlaceProvider implements PlaceProvider {
+  readonly name = 'fake' as const;
+  failing = true;
+
+  constructor(private readonly provider: PlaceProvider) {}
+
+  searchPlaces(query: string, options?: PlaceSearchOptions): Promise<PlaceSearchResult[]> {
+    if (this.failing) return Promise.reject(new Error('OVER_QUERY_LIMIT'));
+    return this.provider.searchPlaces(query, options);
+  }
+
+  getPlaceDetails(placeId: string) {
+    return this.provider.getPlaceDetails(placeId);
+  }
+
+  geocodeAddress(address: string, options?: PlaceSearchOptions) {
+    return this.provider.geocodeAddress(address, options);
+  }
+}
+
+let failures = 0;
+
+function check(label: string, expected: unknown, actual: unknown) {
+  const ok = JSON.stringify(expected) === JSON.stringify(actual);
+  console.log(`${ok ? 'ok  ' : 'FAIL'}  ${label}`);
+  if (!ok) {
+    console.log(`    expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    failures++;
+  }
+}
+
+Deno.env.delete('ALLOW_FAKE_BACKENDS');
+check('fake backends not requestable by default', [false, false], [
+  requestablePlaceProviders().includes('fake'),
+  requestableOCREngines().includes('fake'),
+]);
+Deno.env.set('ALLOW_FAKE_BACKENDS', 'true');
+check('fake backends requestable when allowed', [true, true], [
+  requestablePlaceProviders().includes('fake'),
+  requestableOCREngines().includes('fake'),
+]);
+
+// A provider error is retried on the next search, an empty result is cached
+{
+  const db = new MemoryDatabase();
+  const failing = new FailingPlaceProvider(createPlaceProvider('fake'));
+  const cache = new CachedPlaceProvider(failing, db);
+  const options = { country: 'SE' };
+
+  await cache.searchPlaces('Ramen Ki-mama', options).catch(() => {});
+  check('provider error not cached', 0, db.rows('place_cache').length);
+
+  failing.failing = false;
+  const places = await cache.searchPlaces('Ramen Ki-mama', options);
+  const cached = await cache.searchPlaces('Ramen Ki-mama', options);
+  check('search cached after the provider recovers', [places.length, 1], [cached.length, cache.stats.hits]);
+
+  await cache.searchPlaces('Nowhere Bistro', options);
+  const negative = await cache.searchPlaces('Nowhere Bistro', options);
+  check('empty result cached once', [0, 2, 3], [negative.length, cache.stats.hits, db.rows('place_cache').length]);
+
+  // Same query biased elsewhere is another entry, a few hundred metres away isn't
+  await cache.searchPlaces('Ramen Ki-mama', { ...options, location: { lat: 59.3149, lng: 18.0719 } });
+  await cache.searchPlaces('Ramen Ki-mama', { ...options, location: { lat: 59.3172, lng: 18.0701 } });
+  await cache.searchPlaces('Ramen Ki-mama', { ...options, location: { lat: 57.7089, lng: 11.9746 } });
+  check('location bias part of the key', [3, 5], [cache.stats.hits, cache.stats.misses]);
+}
+
+// A creator with most confirmations in Stockholm biases the search there,
+// over the Gothenburg the request gives
+{
+  const db = new MemoryDatabase();
+  const media = db.insert('media', {
+    user_id: crypto.randomUUID(),
+    status: 'processing',
+    creator_platform: 'tiktok',
+    creator_handle: 'foodie.sthlm',
+  });
+  db.insert('creator_profiles', { platform: 'tiktok', handle: 'foodie.sthlm', city: 'Stockholm', country: 'SE', lat: 59.3293, lng: 18.0686, confirmations: 3 });
+  db.insert('creator_profiles', { platform: 'tiktok', handle: 'foodie.sthlm', city: 'Uppsala', country: 'SE', lat: 59.8586, lng: 17.6389, confirmations: 1 });
+  const placeProvider = new CachedPlaceProvider(createPlaceProvider('fake'), db);
+
+  const result = await runMediaPipeline(db, placeProvider, {
+    media_id: media.id,
+    frame_urls: ['fixture://photo-storefront.jpg'],
+    country: 'SE',
+    lat: 57.7089,
+    lng: 11.9746,
+    ocr_engine: 'fake',
+  });
+  check('creator prior over the request location', ['creator', 'Stockholm'], [result.resolved_city?.source, result.resolved_city?.name]);
+}
+
+for (const { id, input, expected } of MEDIA_PIPELINE_CASES) {
+  const db = new MemoryDatabase();
+  const media = db.insert('media', { user_id: crypto.randomUUID(), status: 'processing' });
+  const placeProvider = new CachedPlaceProvider(createPlaceProvider('fake'), db);
+
+  const result = await runMediaPipeline(db, placeProvider, { ...input, media_id: media.id, ocr_engine: 'fake' });
+  const restaurant = db.rows('restaurants').find(row => row.id === result.restaurant_id);
+  // An address pin has no place id, so it's told apart by its address
+  const first = result.candidates?.[0];
+  const placeId = result.status === 'confirmed' ? restaurant?.place_id : first && (first.place_id ?? `manual:${first.address}`);
+
+  check(id, expected, { status: result.status, place_id: placeId ?? null });
+}
+
+const total = MEDIA_PIPELINE_CASES.length + 7;
+console.log(`\n${total - failures}/${total} cases came out as expected`);
+if (failures > 0) Deno.exit(1);
@@ -0,0 +1,56 @@
+// Check the URL canonicalizer and the oEmbed / OpenGraph parsers against
+// the saved fixtures, and which addresses imports may fetch from.
+//
+//   deno run supabase/scripts/check-social-metadata.ts
+//
+// Exits with status 1 when any fixture parses differently than expected.
+import { fetchSocialMetadata, fixtureFetcher } from '../functions/_shared/socialMetadata.ts'
+import { canonicalizeUrl, fixtureRedirects } from '../functions/_shared/socialUrls.ts'
+import { isPublicAddress } from '../functions/_shared/publicFetch.ts'
+import {
+  CANONICAL_URL_CASES,
+  PUBLIC_ADDRESS_CASES,
+  SHORT_LINK_REDIRECTS,
+  SOCIAL_FIXTURES,
+  SOCIAL_METADATA_CASES,
+} from '../functions/_shared/fixtures/socialFixtures.ts'
+
+const fetcher = fixtureFetcher(SOCIAL_FIXTURES);
+const resolve = fixtureRedirects(SHORT_LINK_REDIRECTS);
+let failures = 0;
+
+for (const { shared, expected } of CANONICAL_URL_CASES) {
+  const canonical = await canonicalizeUrl(shared, resolve);
+  const mismatches = (Object.keys(expected) as Array<keyof typeof expected>)
+    .filter(key => canonical[key] !== expected[key])
+    .map(key => `    ${key}: expected ${JSON.stringify(expected[key])}, got ${JSON.stringify(canonical[key])}`);
+
+  console.log(`${mismatches.length === 0 ? 'ok  ' : 'FAIL'}  ${shared}`);
+  if (mismatches.length > 0) {
+    console.log(mismatches.join('\n'));
+    failures++;
+  }
+}
+
+for (const { url, expected } of SOCIAL_METADATA_CASES) {
+  const metadata = await fetchSocialMetadata(url, fetcher);
+  const mismatches = (Object.keys(expected) as Array<keyof typeof expected>)
+    .filter(key => JSON.stringify(metadata[key]) !== JSON.stringify(expected[key]))
+    .map(key => `    ${key}: expected ${JSON.stringify(expected[key])}, got ${JSON.stringify(metadata[key])}`);
+
+  console.log(`${mismatches.length === 0 ? 'ok  ' : 'FAIL'}  ${url}`);
+  if (mismatches.length > 0) {
+    console.log(mismatches.join('\n'));
+    failures++;
+  }
+}
+
+for (const { address, expected } of PUBLIC_ADDRESS_CASES) {
+  const ok = isPublicAddress(address) === expected;
+  console.log(`${ok ? 'ok  ' : 'FAIL'}  ${address} ${expected ? 'public' : 'blocked'}`);
+  if (!ok) failures++;
+}
+
+const total = CANONICAL_URL_CASES.length + SOCIAL_METADATA_CASES.length + PUBLIC_ADDRESS_CASES.length;
+console.log(`\n${total - failures}/${total} fixtures parsed as expected`);
+if (failures > 0) Deno.exit(1);
@@ -0,0 +1,41 @@
+// Print precision / recall and calibration of the rule-based entity
+// extractor over the labeled fixtures, with Platt parameters fitted to its
+// raw scores.
+//
+//   deno run supabase/scripts/evaluate-entities.ts [threshold]
+//
+// Paste the fitted parameters into RULE_CALIBRATION in _shared/entities.ts.
+import { evaluateEntities } from '../functions/_shared/entityEvaluation.ts'
+import { RuleEntityExtractor } from '../functions/_shared/entities.ts'
+import { AddressParser } from '../functions/_shared/addresses.ts'
+import { Gazetteer } from '../functions/_shared/gazetteer.ts'
+import { GEONAMES_CITIES } from '../functions/_shared/geonamesCities.ts'
+import { ENTITY_FIXTURES } from '../functions/_shared/fixtures/entityFixtures.ts'
+
+const threshold = Deno.args[0] ? Number(Deno.args[0]) : undefined;
+
+const extractor = new RuleEntityExtractor(new Gazetteer(GEONAMES_CITIES), new AddressParser());
+
+const evaluation = await evaluateEntities(ENTITY_FIXTURES, extractor, { threshold });
+
+for (const result of evaluation.cases) {
+  const wrong = result.predicted.filter(entity => !entity.correct && entity.confidence >= evaluation.threshold);
+  console.log(`${wrong.length === 0 && result.missed.length === 0 ? 'ok  ' : 'FAIL'}  ${result.id}`);
+  for (const entity of result.predicted) {
+    console.log(`    ${entity.correct ? '+' : '-'} ${entity.type.padEnd(7)} ${JSON.stringify(entity.text)} (${entity.confidence.toFixed(2)})`);
+  }
+  for (const entity of result.missed) {
+    console.log(`    ? ${entity.type.padEnd(7)} ${JSON.stringify(entity.text)} missed`);
+  }
+}
+
+console.log(`\n${extractor.name}, threshold ${evaluation.threshold}`);
+for (const type of evaluation.types) {
+  console.log([
+    type.type.padEnd(7),
+    `precision ${type.precision.toFixed(3)}`,
+    `recall ${type.recall.toFixed(3)}`,
+    `calibration error ${type.calibration_error.toFixed(3)}`,
+    `fitted ${type.fitted ? JSON.stringify(type.fitted) : '-'}`,
+  ].join('  '));
+}
@@ -0,0 +1,29 @@
+// Print precision / recall of the place scorer over the labeled fixtures.
+//
+//   deno run --allow-env supabase/scripts/evaluate-scoring.ts [threshold]
+//
+// PLACE_SCORE_WEIGHTS is read the same way the edge functions read it, so
+// weight changes can be tried before deploying them.
+import { evaluateScoring } from '../functions/_shared/scoringEvaluation.ts'
+import { scoringWeightsFromEnv } from '../functions/_shared/scoring.ts'
+import { SCORING_FIXTURES } from '../functions/_shared/fixtures/scoringFixtures.ts'
+
+const threshold = Deno.args[0] ? Number(Deno.args[0]) : undefined;
+const evaluation = evaluateScoring(SCORING_FIXTURES, {
+  threshold,
+  weights: scoringWeightsFromEnv(),
+});
+
+for (const result of evaluation.cases) {
+  console.log([
+    result.correct ? 'ok  ' : 'FAIL',
+    result.id.padEnd(32),
+    `expected=${result.expected_place_id ?? '-'}`,
+    `predicted=${result.predicted_place_id ?? '-'}`,
+    `top=${result.top_place_id ?? '-'} (${result.top_score.toFixed(3)})`,
+  ].join('  '));
+}
+
+console.log(`\nthreshold ${evaluation.threshold}`);
+console.log(`precision ${evaluation.precision.toFixed(3)}`);
+console.log(`recall    ${evaluation.recall.toFixed(3)}`);